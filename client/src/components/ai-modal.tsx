@@ -11,10 +11,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Channel } from "@shared/schema";
-import type { Message, User } from "@shared/schema";
+import type { Message, UserProfile } from "@shared/schema";
 
 interface MessageWithAuthor extends Message {
-  author: User;
+  author: UserProfile;
   replies?: MessageWithAuthor[];
 }
 
@@ -22,6 +22,8 @@ interface AiModalProps {
   isOpen: boolean;
   onClose: () => void;
   selectedMessage?: MessageWithAuthor | null;
+  // Opens a source channel at one of the messages the answer was drawn from
+  onJumpToMessage?: (channelName: string, messageId: number) => void;
 }
 
 interface ToneAnalysisResult {
@@ -49,6 +51,8 @@ interface OrgMemoryResult {
     channelName: string;
     messageCount: number;
     lastUpdate: string;
+    messageIds: number[];
+    meetingNoteIds: number[];
   }>;
   keyPoints: string[];
 }
@@ -62,7 +66,7 @@ interface MeetingNotesResult {
   decisions: string[];
 }
 
-export function AiModal({ isOpen, onClose, selectedMessage }: AiModalProps) {
+export function AiModal({ isOpen, onClose, selectedMessage, onJumpToMessage }: AiModalProps) {
   const { toast } = useToast();
   const [toneText, setToneText] = useState("");
   const [replyContext, setReplyContext] = useState("");
@@ -507,8 +511,21 @@ export function AiModal({ isOpen, onClose, selectedMessage }: AiModalProps) {
                         <h5 className="text-slate-400 font-medium mb-1">Sources:</h5>
                         <div className="space-y-2">
                           {orgMemoryQuery.data.sources.map((source: any, index: number) => (
-                            <div key={index} className="text-sm text-slate-300">
-                              <strong>#{source.channelName}</strong> - {source.messageCount} messages
+                            <div key={index} className="text-sm text-slate-300 flex items-center justify-between">
+                              <span>
+                                <strong>#{source.channelName}</strong> - {source.messageCount} messages
+                                {source.meetingNoteIds?.length > 0 && `, ${source.meetingNoteIds.length} meeting notes`}
+                              </span>
+                              {onJumpToMessage && source.messageIds?.length > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-xs text-blue-400 hover:text-blue-300 h-auto p-1"
+                                  onClick={() => onJumpToMessage(source.channelName, source.messageIds[0])}
+                                >
+                                  View in channel
+                                </Button>
+                              )}
                             </div>
                           ))}
                         </div>
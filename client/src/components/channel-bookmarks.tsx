@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bookmark, Plus, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_BOOKMARKS_PER_CHANNEL, type ChannelBookmark, type ChannelWithAccess } from "@shared/schema";
+
+// The channel's bookmarked links, as a strip under its header
+export function ChannelBookmarks({ channel }: { channel: ChannelWithAccess }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [title, setTitle] = useState("");
+  const [url, setUrl] = useState("");
+  const queryKey = ["/api/channels", channel.id, "bookmarks"];
+  const canManage = channel.permissions.includes("manage_bookmarks");
+
+  const { data: bookmarks = [] } = useQuery<ChannelBookmark[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/channels/${channel.id}/bookmarks`);
+      if (!response.ok) throw new Error('Failed to fetch bookmarks');
+      return response.json();
+    },
+  });
+
+  useWebSocketEvent('bookmarks_updated', (event) => {
+    if (event.channelId === channel.id) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/channels/${channel.id}/bookmarks`, { title, url });
+      return response.json() as Promise<ChannelBookmark>;
+    },
+    onSuccess: (bookmark) => {
+      queryClient.setQueryData<ChannelBookmark[]>(queryKey, (current = []) => [...current, bookmark]);
+      setTitle("");
+      setUrl("");
+      setIsAdding(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add bookmark",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/channels/${channel.id}/bookmarks/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<ChannelBookmark[]>(queryKey, (current = []) => current.filter(bookmark => bookmark.id !== id));
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove bookmark. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!bookmarks.length && !canManage) return null;
+
+  return (
+    <div className="flex items-center flex-wrap gap-2 mt-2">
+      {bookmarks.map(bookmark => (
+        <div key={bookmark.id} className="group flex items-center rounded-md bg-slate-700/60 text-xs text-slate-300 hover:bg-slate-700">
+          <a
+            href={bookmark.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            title={bookmark.url}
+            className="flex items-center px-2 py-1 hover:text-white"
+          >
+            <Bookmark className="h-3 w-3 mr-1 text-blue-400" />
+            <span className="max-w-[12rem] truncate">{bookmark.title}</span>
+          </a>
+          {canManage && (
+            <button
+              onClick={() => removeMutation.mutate(bookmark.id)}
+              className="pr-1.5 text-slate-500 opacity-0 hover:text-red-400 group-hover:opacity-100"
+              title="Remove bookmark"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {canManage && bookmarks.length < MAX_BOOKMARKS_PER_CHANNEL && (
+        <Popover open={isAdding} onOpenChange={setIsAdding}>
+          <PopoverTrigger asChild>
+            <button className="flex items-center px-2 py-1 text-xs text-slate-400 hover:text-white">
+              <Plus className="h-3 w-3 mr-1" />
+              Add a bookmark
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-72 bg-slate-900 border-slate-700">
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (title.trim() && url.trim()) addMutation.mutate();
+              }}
+            >
+              <Input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://..."
+                className="bg-slate-800 border-slate-700 text-white"
+                autoFocus
+              />
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Title"
+                maxLength={80}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+              <Button
+                type="submit"
+                size="sm"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={!title.trim() || !url.trim() || addMutation.isPending}
+              >
+                {addMutation.isPending ? "Adding..." : "Add bookmark"}
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
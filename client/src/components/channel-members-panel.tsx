@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Lock, UserPlus, UserMinus, LogOut } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { channelRoles, type ChannelMember, type ChannelRole, type ChannelWithAccess, type UserProfile } from "@shared/schema";
+
+export type ChannelMemberWithUser = ChannelMember & { user: UserProfile };
+
+const ROLE_LABELS: Record<ChannelRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  guest: "Guest",
+};
+
+// channelRoles is ordered from most to least privileged
+const roleRank = (role: ChannelRole) => channelRoles.length - channelRoles.indexOf(role);
+
+// Mirrors the server rule: roles can only be granted or acted on up to your own level
+function canManageRole(actorRole: ChannelRole | null, role: ChannelRole) {
+  return !!actorRole && roleRank(role) <= roleRank(actorRole);
+}
+
+interface ChannelMembersPanelProps {
+  channel: ChannelWithAccess;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function useChannelMembers(channelId: number | null) {
+  return useQuery<ChannelMemberWithUser[]>({
+    queryKey: ["/api/channels", channelId, "members"],
+    queryFn: async () => {
+      const response = await fetch(`/api/channels/${channelId}/members`);
+      if (!response.ok) throw new Error('Failed to fetch members');
+      return response.json();
+    },
+    enabled: !!channelId,
+  });
+}
+
+export function ChannelMembersPanel({ channel, open, onOpenChange }: ChannelMembersPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteUserId, setInviteUserId] = useState<string>("");
+
+  const { data: members = [] } = useChannelMembers(channel.id);
+
+  const { data: otherUsers = [] } = useQuery<UserProfile[]>({
+    queryKey: ["/api/direct-message-users"],
+    enabled: open,
+  });
+
+  const memberIds = new Set(members.map(member => member.userId));
+  const invitable = otherUsers.filter(candidate => !memberIds.has(candidate.id));
+  const canInvite = channel.permissions.includes("invite_member");
+  const canRemove = channel.permissions.includes("remove_member");
+  const canChangeRole = channel.permissions.includes("change_role");
+
+  useWebSocketEvent(['channel_member_added', 'channel_member_removed', 'channel_member_updated'], (event) => {
+    if (event.channelId === channel.id) {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id, "members"] });
+    }
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/channels/${channel.id}/members`, { userId });
+      return response.json();
+    },
+    onSuccess: (updated: ChannelMemberWithUser[]) => {
+      queryClient.setQueryData(["/api/channels", channel.id, "members"], updated);
+      setInviteUserId("");
+    },
+    onError: () => {
+      toast({
+        title: "Invite failed",
+        description: "Could not add that person to the channel.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: ChannelRole }) => {
+      const response = await apiRequest("PATCH", `/api/channels/${channel.id}/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id, "members"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/channels/${channel.id}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id, "members"] });
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+        onOpenChange(false);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove member. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-slate-900 border-slate-700 text-white">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center space-x-2">
+            {channel.isPrivate && <Lock className="h-4 w-4" />}
+            <span># {channel.name}</span>
+          </SheetTitle>
+          <SheetDescription className="text-slate-400">
+            {members.length} {members.length === 1 ? "member" : "members"}
+            {channel.isPrivate && " · Only members can see this channel"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {canInvite && (
+          <div className="flex items-center space-x-2 mt-6">
+            <Select value={inviteUserId} onValueChange={setInviteUserId}>
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                <SelectValue placeholder={invitable.length ? "Add people..." : "Everyone is already here"} />
+              </SelectTrigger>
+              <SelectContent>
+                {invitable.map(candidate => (
+                  <SelectItem key={candidate.id} value={String(candidate.id)}>
+                    {candidate.displayName} (@{candidate.username})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              className="bg-blue-600 hover:bg-blue-700 shrink-0"
+              disabled={!inviteUserId || inviteMutation.isPending}
+              onClick={() => inviteMutation.mutate(parseInt(inviteUserId))}
+            >
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="mt-6 space-y-3 overflow-y-auto">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center space-x-3">
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={member.user.avatar || undefined} />
+                <AvatarFallback>{member.user.displayName.charAt(0)}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium truncate">{member.user.displayName}</span>
+                  {member.role !== "member" && (
+                    <Badge variant="secondary" className="text-xs">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-slate-400">@{member.user.username}</span>
+              </div>
+              {canChangeRole && member.userId !== user?.id && member.userId !== channel.createdBy &&
+                canManageRole(channel.role, member.role) && (
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => roleMutation.mutate({ userId: member.userId, role: role as ChannelRole })}
+                  disabled={roleMutation.isPending}
+                >
+                  <SelectTrigger className="w-24 h-8 bg-slate-800 border-slate-700 text-white text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {channelRoles.filter(role => canManageRole(channel.role, role)).map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {member.userId === user?.id ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-slate-400 hover:text-white"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(member.userId)}
+                >
+                  <LogOut className="h-3 w-3 mr-1" />
+                  Leave
+                </Button>
+              ) : canRemove && member.userId !== channel.createdBy && canManageRole(channel.role, member.role) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-slate-400 hover:text-red-400"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(member.userId)}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
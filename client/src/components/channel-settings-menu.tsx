@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Settings, Pencil, Archive, ArchiveRestore, Trash2, Users, Bell } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { notificationLevels, type ChannelWithAccess, type NotificationLevel } from "@shared/schema";
+
+const NOTIFICATION_LEVEL_LABELS: Record<NotificationLevel, string> = {
+  all: "All notifications",
+  mentions: "Mentions and action items only",
+  mute: "Mute",
+};
+
+interface ChannelSettingsMenuProps {
+  channel: ChannelWithAccess;
+  onShowMembers: () => void;
+}
+
+export function ChannelSettingsMenu({ channel, onShowMembers }: ChannelSettingsMenuProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [name, setName] = useState(channel.name);
+  const [description, setDescription] = useState(channel.description || "");
+
+  const canUpdate = channel.permissions.includes("update_channel");
+  const canArchive = channel.permissions.includes("archive_channel");
+  const canDelete = channel.permissions.includes("delete_channel");
+
+  const refreshChannel = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id] });
+  };
+
+  const updateChannelMutation = useMutation({
+    mutationFn: async (changes: { name?: string; description?: string; archived?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/channels/${channel.id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshChannel();
+      setIsRenameOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update channel",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const notificationLevelMutation = useMutation({
+    mutationFn: async (level: NotificationLevel) => {
+      const response = await apiRequest("PUT", `/api/channels/${channel.id}/notification-level`, { level });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id], exact: true });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update notifications",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteChannelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/channels/${channel.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      toast({
+        title: "Channel deleted",
+        description: `#${channel.name} and its messages have been deleted.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete channel. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
+            <Settings className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={onShowMembers}>
+            <Users className="h-4 w-4 mr-2" />
+            Members
+          </DropdownMenuItem>
+          {channel.notificationLevel && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Bell className="h-4 w-4 mr-2" />
+                Notifications
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuRadioGroup
+                  value={channel.notificationLevel}
+                  onValueChange={(level) => notificationLevelMutation.mutate(level as NotificationLevel)}
+                >
+                  {notificationLevels.map(level => (
+                    <DropdownMenuRadioItem key={level} value={level}>
+                      {NOTIFICATION_LEVEL_LABELS[level]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          {canUpdate && (
+            <DropdownMenuItem
+              onClick={() => {
+                setName(channel.name);
+                setDescription(channel.description || "");
+                setIsRenameOpen(true);
+              }}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit details
+            </DropdownMenuItem>
+          )}
+          {canArchive && (
+            <DropdownMenuItem onClick={() => updateChannelMutation.mutate({ archived: !channel.archivedAt })}>
+              {channel.archivedAt ? (
+                <><ArchiveRestore className="h-4 w-4 mr-2" />Unarchive channel</>
+              ) : (
+                <><Archive className="h-4 w-4 mr-2" />Archive channel</>
+              )}
+            </DropdownMenuItem>
+          )}
+          {canDelete && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-red-500" onClick={() => setIsDeleteOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete channel
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Edit channel details</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Everyone in the channel will see the new name.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-channel-name" className="text-white">Channel Name</Label>
+              <Input
+                id="edit-channel-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-channel-description" className="text-white">Description</Label>
+              <Textarea
+                id="edit-channel-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={!name.trim() || updateChannelMutation.isPending}
+              onClick={() => updateChannelMutation.mutate({ name: name.trim(), description })}
+            >
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete #{channel.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the channel with all of its messages and meeting notes. Archive it instead to keep the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleteChannelMutation.mutate()}
+            >
+              Delete channel
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,17 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { useWebSocket } from "@/hooks/use-websocket";
-import { useState, useEffect, useRef, ReactNode } from "react";
+import { useWebSocket, useWebSocketEvent } from "@/hooks/use-websocket";
+import { useMessageHistory, updateMessageHistory, appendToMessageHistory } from "@/hooks/use-message-history";
+import { useMarkAsRead } from "@/hooks/use-mark-as-read";
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, Fragment, ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { MessageInput } from "./message-input";
+import { ReactionBar, EmojiPicker } from "./reaction-bar";
+import { ChannelMembersPanel, useChannelMembers } from "./channel-members-panel";
+import { ChannelSettingsMenu } from "./channel-settings-menu";
+import { ThreadPanel } from "./thread-panel";
+import { MessageContent } from "./message-content";
 import { 
   Brain, 
   Info, 
   Search, 
-  Settings, 
   Users, 
   Reply, 
   Share,
@@ -19,21 +25,47 @@ import {
   ThumbsUp,
   Target,
   TrendingUp,
-  CheckCircle
+  CheckCircle,
+  AlertTriangle,
+  Pencil,
+  Trash2,
+  Lock,
+  Archive,
+  ArrowDown,
+  Pin,
+  PinOff
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import type { Channel, User } from "@shared/schema";
+import type { ChannelWithAccess, ChannelPermission, DirectMessageUser, User, ReactionSummary } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import type { MessageWithAuthor } from "@/types/message";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { UserProfileCard } from "./user-profile-card";
+import { MessageAttachments } from "./message-attachments";
+import { MessageLinkPreviews } from "./message-link-previews";
+import { PinnedMessagesPanel, usePinnedMessages } from "./pinned-messages-panel";
+import { ChannelBookmarks } from "./channel-bookmarks";
+import { SaveMessageMenu } from "./save-message-menu";
+import { useSavedItems } from "./saved-view";
+import type { MessageWithAuthor, MessageToneAnalysis, PinnedMessageWithContext } from "@/types/message";
 
 interface ChatAreaProps {
   selectedChannel: number | null;
   selectedDmUser: number | null;
+  // Open the conversation at this message instead of at the latest one
+  focusMessageId?: number | null;
+  onFocusCleared?: () => void;
+  // Opens a DM, e.g. from an author's profile card
+  onDmUserSelect?: (userId: number) => void;
+  // Opens the current conversation at a message, e.g. from the pins drawer
+  onJumpToMessage?: (messageId: number) => void;
 }
 
+// How close to either end of the timeline (in px) before the next page loads
+const LOAD_MORE_THRESHOLD_PX = 200;
+
 interface MessageAuthor {
   id: number;
   username: string;
@@ -50,43 +82,46 @@ interface WebSocketMessageData {
   content: string;
 }
 
-export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
+export function ChatArea({ selectedChannel, selectedDmUser, focusMessageId, onFocusCleared, onDmUserSelect, onJumpToMessage }: ChatAreaProps) {
   const { user } = useAuth();
-  const { lastMessage, joinChannel, leaveChannel, broadcastMessage } = useWebSocket();
+  const { joinChannel, leaveChannel } = useWebSocket();
   const queryClient = useQueryClient();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [expandedThreads, setExpandedThreads] = useState<Set<number>>(new Set());
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [threadRootId, setThreadRootId] = useState<number | null>(null);
   const { toast } = useToast();
   const [selectedMessage, setSelectedMessage] = useState<MessageWithAuthor | null>(null);
   const [isAiModalOpen, setIsAiModalOpen] = useState(false);
+  const [isMembersPanelOpen, setIsMembersPanelOpen] = useState(false);
+  const [isPinsPanelOpen, setIsPinsPanelOpen] = useState(false);
 
   // Channel data
-  const { data: channel } = useQuery<Channel>({
+  const { data: channel } = useQuery<ChannelWithAccess>({
     queryKey: ["/api/channels", selectedChannel],
-    enabled: !!selectedChannel,
-  });
-
-  // Channel messages
-  const { data: channelMessages = [] } = useQuery<MessageWithAuthor[]>({
-    queryKey: ["/api/channels", selectedChannel, "messages"],
     queryFn: async () => {
-      const response = await fetch(`/api/channels/${selectedChannel}/messages`);
-      if (!response.ok) throw new Error('Failed to fetch messages');
+      const response = await fetch(`/api/channels/${selectedChannel}`);
+      if (!response.ok) throw new Error('Failed to fetch channel');
       return response.json();
     },
     enabled: !!selectedChannel,
   });
 
-  // Direct messages
-  const { data: dmMessages = [] } = useQuery<MessageWithAuthor[]>({
-    queryKey: ["/api/direct-messages", selectedDmUser],
-    queryFn: async () => {
-      const response = await fetch(`/api/direct-messages/${selectedDmUser}`);
-      if (!response.ok) throw new Error('Failed to fetch direct messages');
-      return response.json();
-    },
-    enabled: !!selectedDmUser,
-  });
+  const { data: members = [] } = useChannelMembers(selectedChannel);
+  const { data: pins = [] } = usePinnedMessages(selectedChannel);
+  const pinnedMessageIds = new Set(pins.map(pin => pin.messageId));
+  const { data: savedItems = [] } = useSavedItems();
+  const savedItemsByMessageId = new Map(savedItems.map(item => [item.messageId, item]));
+
+  // Channel messages or direct messages, newest page first
+  const history = useMessageHistory(
+    selectedChannel
+      ? `/api/channels/${selectedChannel}/messages`
+      : selectedDmUser ? `/api/direct-messages/${selectedDmUser}` : null,
+    selectedChannel ? ["/api/channels", selectedChannel, "messages"] : ["/api/direct-messages", selectedDmUser],
+    focusMessageId
+  );
+  const { messages } = history;
+  const hasMessages = messages.length > 0;
 
   // DM user data
   const { data: dmUser } = useQuery<User>({
@@ -99,7 +134,26 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
     enabled: !!selectedDmUser,
   });
 
-  const messages = selectedChannel ? channelMessages : dmMessages;
+  // Shared with the sidebar: everyone else in the workspace, with how far they've read our DMs
+  const { data: dmUsers = [] } = useQuery<DirectMessageUser[]>({
+    queryKey: ["/api/direct-message-users"],
+  });
+  const knownUsernames = new Set(dmUsers.map(dmUser => dmUser.username.toLowerCase()));
+  if (user) knownUsernames.add(user.username.toLowerCase());
+  const theirLastReadMessageId = dmUsers.find(dmUser => dmUser.id === selectedDmUser)?.theirLastReadMessageId ?? null;
+
+  // Read receipt under our latest message, once they've read that far
+  const latestOwnMessage = [...messages].reverse().find(message => message.authorId === user?.id);
+  const seenMessageId = selectedDmUser && latestOwnMessage && theirLastReadMessageId !== null &&
+    latestOwnMessage.id <= theirLastReadMessageId ? latestOwnMessage.id : null;
+
+  const markVisibleRead = useMarkAsRead(
+    selectedChannel
+      ? `/api/channels/${selectedChannel}/read`
+      : selectedDmUser ? `/api/direct-messages/${selectedDmUser}/read` : null,
+    scrollContainerRef,
+    messages
+  );
 
   // WebSocket effects
   useEffect(() => {
@@ -109,34 +163,127 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
     }
   }, [selectedChannel, joinChannel, leaveChannel]);
 
-  useEffect(() => {
-    if (lastMessage?.type === 'new_message') {
-      const messageData = lastMessage.message as WebSocketMessageData;
-      
-      // Handle channel messages
-      if (selectedChannel && messageData.channelId === selectedChannel) {
-        queryClient.invalidateQueries({ 
-          queryKey: ["/api/channels", selectedChannel, "messages"] 
-        });
-      }
-      
-      // Handle DMs
-      if (selectedDmUser && user?.id && (
-        (messageData.authorId === selectedDmUser && messageData.recipientId === user.id) ||
-        (messageData.authorId === user.id && messageData.recipientId === selectedDmUser)
-      )) {
-        queryClient.invalidateQueries({ 
-          queryKey: ["/api/direct-messages", selectedDmUser]
-        });
-      }
+  // Patch a message in place (edits, deletions, tone analysis) instead of refetching the timeline
+  const replaceMessageInCache = useCallback((updated: MessageWithAuthor) => {
+    const replaceMessage = (list: MessageWithAuthor[]) =>
+      list.map(msg => msg.id === updated.id ? { ...msg, ...updated, thread: msg.thread } : msg);
+
+    if (updated.channelId) {
+      updateMessageHistory(queryClient, ["/api/channels", updated.channelId, "messages"], replaceMessage);
+    } else if (user?.id) {
+      const otherUserId = updated.authorId === user.id ? updated.recipientId : updated.authorId;
+      updateMessageHistory(queryClient, ["/api/direct-messages", otherUserId], replaceMessage);
+    }
+  }, [queryClient, user]);
+
+  // DMs aren't governed by channel roles; channel actions follow the viewer's permissions
+  const can = (permission: ChannelPermission) => !selectedChannel || !!channel?.permissions.includes(permission);
+
+  useWebSocketEvent('channel_updated', (event) => {
+    if (event.channel.id === selectedChannel) {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels", selectedChannel] });
+    }
+  });
+
+  useWebSocketEvent('channel_member_updated', (event) => {
+    if (event.channelId !== selectedChannel || event.userId !== user?.id) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/channels", selectedChannel] });
+    toast({
+      title: "Your role changed",
+      description: `Your role in #${channel?.name ?? "this channel"} has been updated.`,
+    });
+  });
+
+  useWebSocketEvent(['message_updated', 'message_deleted', 'reaction_updated'], (event) => {
+    replaceMessageInCache(event.message as MessageWithAuthor);
+  });
+
+  // Renamed authors and new avatars show up in the open conversation without refetching it
+  useWebSocketEvent('user_updated', (event) => {
+    const profile = event.user as MessageAuthor;
+    const conversationKey = selectedChannel ? ["/api/channels", selectedChannel, "messages"] : ["/api/direct-messages", selectedDmUser];
+    const author = { displayName: profile.displayName, avatar: profile.avatar, title: profile.title };
+    updateMessageHistory(queryClient, conversationKey, (messages) =>
+      messages.map(msg => msg.author.id === profile.id ? { ...msg, author: { ...msg.author, ...author } } : msg)
+    );
+    queryClient.setQueryData(["/api/users", profile.id], event.user);
+  });
+
+  // New messages are added to the loaded pages directly rather than refetching the whole history
+  useWebSocketEvent('new_message', (event) => {
+    const messageData = event.message as WebSocketMessageData;
+    const message = { ...event.message, reactions: [] } as MessageWithAuthor;
+
+    // Handle channel messages
+    if (selectedChannel && messageData.channelId === selectedChannel) {
+      appendToMessageHistory(queryClient, ["/api/channels", selectedChannel, "messages"], message);
+    }
+    
+    // Handle DMs
+    if (selectedDmUser && user?.id && (
+      (messageData.authorId === selectedDmUser && messageData.recipientId === user.id) ||
+      (messageData.authorId === user.id && messageData.recipientId === selectedDmUser)
+    )) {
+      appendToMessageHistory(queryClient, ["/api/direct-messages", selectedDmUser], message);
     }
-  }, [lastMessage, selectedChannel, selectedDmUser, user, queryClient]);
+  });
+
+  // Scrolling: stick to the bottom while the user is there, keep their place when
+  // older messages are prepended above them, and centre a focused message once loaded
+  const stickToBottomRef = useRef(true);
+  const restoreFromBottomRef = useRef<number | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
 
-  // Auto-scroll to bottom
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    stickToBottomRef.current = !focusMessageId;
+  }, [selectedChannel, selectedDmUser, focusMessageId]);
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    if (restoreFromBottomRef.current !== null) {
+      container.scrollTop = container.scrollHeight - restoreFromBottomRef.current;
+      restoreFromBottomRef.current = null;
+    } else if (stickToBottomRef.current) {
+      messagesEndRef.current?.scrollIntoView();
+    }
   }, [messages]);
 
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ block: "center" });
+    setHighlightedMessageId(focusMessageId);
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, hasMessages]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    stickToBottomRef.current = distanceFromBottom < 50 && !history.hasNewer;
+
+    if (container.scrollTop < LOAD_MORE_THRESHOLD_PX && history.hasOlder && !history.isFetchingOlder) {
+      restoreFromBottomRef.current = container.scrollHeight - container.scrollTop;
+      history.fetchOlder();
+    }
+    if (distanceFromBottom < LOAD_MORE_THRESHOLD_PX && history.hasNewer && !history.isFetchingNewer) {
+      history.fetchNewer();
+    }
+    markVisibleRead();
+  };
+
+  const jumpToLatest = () => {
+    stickToBottomRef.current = true;
+    if (focusMessageId) {
+      onFocusCleared?.();
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  };
+
   // AI reply suggestion mutation
   const suggestReplyMutation = useMutation({
     mutationFn: async (messageId: number) => {
@@ -147,6 +294,7 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
       // Get last 5 messages before this one for context
       const contextMessages = messages
         .slice(0, messages.findIndex(m => m.id === messageId))
+        .filter(m => !m.deletedAt)
         .slice(-5)
         .map(m => m.content);
 
@@ -165,6 +313,7 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
         messageContent: message.content,
         threadContext: contextMessages,
         orgContext: channelContext,
+        channelId: selectedChannel ?? undefined,
         generateMultiple: true // Request multiple suggestions
       });
 
@@ -198,7 +347,8 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
         content: content.trim(),
         channelId: selectedChannel || undefined,
         recipientId: selectedDmUser || undefined,
-        parentMessageId: messageId
+        // Suggestions on a reply shown in the timeline go to its thread
+        parentMessageId: messages.find(m => m.id === messageId)?.parentMessageId ?? messageId
       };
 
       const response = await apiRequest("POST", "/api/messages", messageData);
@@ -226,6 +376,112 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
   });
 
   const [editingReply, setEditingReply] = useState<{ content: string; messageId: number } | null>(null);
+  const [editingMessage, setEditingMessage] = useState<{ id: number; content: string } | null>(null);
+
+  // Edit own message mutation
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/messages/${id}`, { content });
+      return response.json() as Promise<MessageWithAuthor>;
+    },
+    onSuccess: (message) => {
+      replaceMessageInCache(message);
+      setEditingMessage(null);
+    },
+    onError: () => {
+      toast({
+        title: "Failed to edit message",
+        description: "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Delete message mutation
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (message: MessageWithAuthor) => {
+      await apiRequest("DELETE", `/api/messages/${message.id}`);
+      return message;
+    },
+    onSuccess: (message) => {
+      replaceMessageInCache({ ...message, content: "", aiAnalysis: null, deletedAt: new Date() });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to delete message",
+        description: "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Toggle reaction mutation
+  const toggleReactionMutation = useMutation({
+    mutationFn: async ({ message, emoji, remove }: { message: MessageWithAuthor; emoji: string; remove: boolean }) => {
+      const response = remove
+        ? await apiRequest("DELETE", `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`)
+        : await apiRequest("POST", `/api/messages/${message.id}/reactions`, { emoji });
+      const reactions: ReactionSummary[] = await response.json();
+      return { ...message, reactions };
+    },
+    onSuccess: (message) => {
+      replaceMessageInCache(message);
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update reaction",
+        description: "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const togglePinMutation = useMutation({
+    mutationFn: async ({ messageId, pinned }: { messageId: number; pinned: boolean }) => {
+      const response = pinned
+        ? await apiRequest("DELETE", `/api/messages/${messageId}/pin`)
+        : await apiRequest("POST", `/api/messages/${messageId}/pin`);
+      return response.json() as Promise<PinnedMessageWithContext[]>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/channels", selectedChannel, "pins"], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update pins",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Replies that stayed in their thread aren't in the timeline, so those open the thread instead
+  const jumpToPin = (pin: PinnedMessageWithContext) => {
+    setIsPinsPanelOpen(false);
+    if (pin.message.parentMessageId && !pin.message.alsoSentToChannel) {
+      setThreadRootId(pin.message.parentMessageId);
+    } else {
+      onJumpToMessage?.(pin.messageId);
+    }
+  };
+
+  // Names for reaction tooltips, from the authors already on screen
+  const userNames = new Map<number, string>();
+  messages.forEach(msg => {
+    userNames.set(msg.author.id, msg.author.displayName);
+    msg.thread?.participants.forEach(participant => userNames.set(participant.id, participant.displayName));
+  });
+
+  const handleSaveEdit = () => {
+    if (!editingMessage || !editingMessage.content.trim()) return;
+    editMessageMutation.mutate({ id: editingMessage.id, content: editingMessage.content.trim() });
+  };
+
+  const handleDeleteMessage = (message: MessageWithAuthor) => {
+    if (window.confirm("Delete this message? This can't be undone.")) {
+      deleteMessageMutation.mutate(message);
+    }
+  };
 
   // Generate meeting notes mutation
   const generateNotesMutation = useMutation({
@@ -246,40 +502,75 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
     generateNotesMutation.mutate();
   };
 
-  const toggleThread = (messageId: number) => {
-    setExpandedThreads(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(messageId)) {
-        newSet.delete(messageId);
-      } else {
-        newSet.add(messageId);
-      }
-      return newSet;
-    });
+  // Threads belong to the conversation they were opened from
+  useEffect(() => {
+    setThreadRootId(null);
+  }, [selectedChannel, selectedDmUser]);
+
+  const getToneBadgeClass = (tone: string) => {
+    switch (tone?.toLowerCase()) {
+      case 'aggressive': return 'bg-red-900/40 text-red-300 border-red-700/50';
+      case 'urgent': return 'bg-orange-900/40 text-orange-300 border-orange-700/50';
+      case 'professional': return 'bg-green-900/40 text-green-300 border-green-700/50';
+      case 'friendly': return 'bg-yellow-900/40 text-yellow-300 border-yellow-700/50';
+      case 'casual': return 'bg-blue-900/40 text-blue-300 border-blue-700/50';
+      default: return 'bg-slate-700/40 text-slate-300 border-slate-600/50';
+    }
   };
 
-  const renderToneAnalysis = (analysis: any) => {
-    if (!analysis) return null;
+  const renderToneAnalysis = (analysis: MessageToneAnalysis | null | undefined) => {
+    if (!analysis?.tone) return null;
+
+    const needsClarity = analysis.clarity?.toLowerCase() === 'needs clarity';
 
     return (
-      <div className="bg-green-900/20 border border-green-700/30 rounded-lg p-3 mb-3">
-        <div className="flex items-center space-x-2 mb-2">
-          <TrendingUp className="h-4 w-4 text-green-400" />
-          <span className="text-sm font-medium text-green-400">AI Tone Analysis</span>
-        </div>
-        <div className="text-sm text-slate-300">
-          <p><span className="text-green-400 font-medium">Impact:</span> {analysis.impact}</p>
-          <p><span className="text-blue-400 font-medium">Clarity:</span> {analysis.clarity}</p>
-        </div>
-      </div>
+      <HoverCard openDelay={150}>
+        <HoverCardTrigger asChild>
+          <Badge variant="outline" className={`text-xs cursor-default ${getToneBadgeClass(analysis.tone)}`}>
+            {needsClarity && <AlertTriangle className="h-3 w-3 mr-1" />}
+            {analysis.tone}
+          </Badge>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-72 bg-slate-900 border-slate-700 text-slate-300">
+          <div className="flex items-center space-x-2 mb-2">
+            <TrendingUp className="h-4 w-4 text-green-400" />
+            <span className="text-sm font-medium text-green-400">AI Tone Analysis</span>
+          </div>
+          <div className="text-sm space-y-1">
+            <p><span className="text-white font-medium">Tone:</span> {analysis.tone}</p>
+            <p><span className="text-green-400 font-medium">Impact:</span> {analysis.impact}</p>
+            <p><span className="text-blue-400 font-medium">Clarity:</span> {analysis.clarity}</p>
+            <p className="text-xs text-slate-400">Confidence: {analysis.confidence}%</p>
+          </div>
+          {analysis.suggestions && analysis.suggestions.length > 0 && (
+            <ul className="mt-2 text-xs text-slate-400 list-disc list-inside">
+              {analysis.suggestions.map((suggestion, index) => (
+                <li key={index}>{suggestion}</li>
+              ))}
+            </ul>
+          )}
+        </HoverCardContent>
+      </HoverCard>
     );
   };
 
-  const renderMessage = (message: MessageWithAuthor, isReply = false): JSX.Element => {
-    const isExpanded = expandedThreads.has(message.id);
+  // inThread renders the message inside the thread panel rather than the timeline
+  const renderMessage = (message: MessageWithAuthor, inThread = false): JSX.Element => {
+    const isDeleted = !!message.deletedAt;
+    const isOwnMessage = message.authorId === user?.id;
+    // Mirrors the server rule: authors while they can post, plus moderators for everyone else's
+    const canEdit = !isDeleted && (isOwnMessage ? can("post_message") : !!selectedChannel && can("edit_any_message"));
+    const canDelete = !isDeleted && (isOwnMessage ? can("post_message") : !!selectedChannel && can("delete_any_message"));
+    const isEdited = !isDeleted && new Date(message.updatedAt).getTime() - new Date(message.createdAt).getTime() > 1000;
+    const isEditing = editingMessage?.id === message.id;
+    const isPinned = pinnedMessageIds.has(message.id);
     
     return (
-      <div key={message.id} className={`group hover:bg-slate-800/50 p-3 rounded-lg transition-colors ${isReply ? 'ml-4 border-l-2 border-purple-600 pl-4' : ''}`}>
+      <div
+        key={message.id}
+        id={inThread ? undefined : `message-${message.id}`}
+        className={`group hover:bg-slate-800/50 p-3 rounded-lg transition-colors ${!inThread && highlightedMessageId === message.id ? 'bg-yellow-500/10 ring-1 ring-yellow-500/40' : ''}`}
+      >
         <div className="flex items-start space-x-3">
           <Avatar className="h-8 w-8">
             <AvatarImage src={message.author.avatar || undefined} />
@@ -288,8 +579,18 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
             </AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
+            {message.parentMessageId && !inThread && (
+              <button
+                onClick={() => setThreadRootId(message.parentMessageId)}
+                className="text-xs text-slate-400 hover:text-white mb-1"
+              >
+                Replied to a thread
+              </button>
+            )}
             <div className="flex items-center space-x-2 mb-1">
-              <span className="font-medium text-white">{message.author.displayName}</span>
+              <UserProfileCard userId={message.author.id} onMessage={onDmUserSelect}>
+                <button className="font-medium text-white hover:underline">{message.author.displayName}</button>
+              </UserProfileCard>
               {message.author.title && (
                 <Badge variant="secondary" className="text-xs">
                   {message.author.title}
@@ -298,74 +599,188 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
               <span className="text-xs text-slate-400">
                 {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
               </span>
+              {isEdited && <span className="text-xs text-slate-500">(edited)</span>}
+              {isPinned && !isDeleted && (
+                <span className="flex items-center text-xs text-amber-400">
+                  <Pin className="h-3 w-3 mr-0.5" />
+                  Pinned
+                </span>
+              )}
+              {/* AI Analysis */}
+              {renderToneAnalysis(message.aiAnalysis as MessageToneAnalysis | null)}
             </div>
             
-            <p className="text-slate-300 mb-2">{message.content}</p>
-            
-            {/* AI Analysis */}
-            {message.aiAnalysis && renderToneAnalysis(message.aiAnalysis)}
+            {isDeleted ? (
+              <p className="text-slate-500 italic mb-2">This message was deleted.</p>
+            ) : isEditing && editingMessage ? (
+              <div className="mb-2 space-y-2">
+                <Textarea
+                  value={editingMessage.content}
+                  onChange={(e) => setEditingMessage({ ...editingMessage, content: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSaveEdit();
+                    } else if (e.key === 'Escape') {
+                      setEditingMessage(null);
+                    }
+                  }}
+                  className="bg-slate-800 border-slate-700 text-white min-h-[60px]"
+                  autoFocus
+                />
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                    onClick={handleSaveEdit}
+                    disabled={editMessageMutation.isPending || !editingMessage.content.trim()}
+                  >
+                    {editMessageMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-slate-600 text-slate-300"
+                    onClick={() => setEditingMessage(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              message.content && (
+                <div className="text-slate-300 mb-2">
+                  <MessageContent content={message.content} knownUsernames={knownUsernames} currentUsername={user?.username} />
+                </div>
+              )
+            )}
+
+            {!isDeleted && message.attachments && <MessageAttachments attachments={message.attachments} />}
+            {!isDeleted && message.linkPreviews && <MessageLinkPreviews previews={message.linkPreviews} />}
+
+            {/* Reactions */}
+            {!isDeleted && message.reactions && (
+              <ReactionBar
+                reactions={message.reactions}
+                currentUserId={user?.id}
+                userNames={userNames}
+                onToggle={(emoji, hasReacted) => toggleReactionMutation.mutate({ message, emoji, remove: hasReacted })}
+              />
+            )}
             
             {/* Thread Replies */}
-            {message.replies && message.replies.length > 0 && !isReply && (
+            {message.thread && !inThread && (
               <div className="mt-3">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => toggleThread(message.id)}
-                  className="text-xs text-slate-400 hover:text-white p-0 h-auto"
+                <button
+                  onClick={() => setThreadRootId(message.id)}
+                  className="flex items-center space-x-2 text-xs text-slate-400 hover:text-white"
                 >
-                  {isExpanded ? 'Hide' : 'Show'} {message.replies.length} replies
-                </Button>
-                
-                {isExpanded && (
-                  <div className="mt-3 space-y-3">
-                    {message.replies.map(reply => renderMessage(reply, true))}
+                  <div className="flex -space-x-1">
+                    {message.thread.participants.slice(0, 5).map(participant => (
+                      <Avatar key={participant.id} className="h-5 w-5 border border-slate-800">
+                        <AvatarImage src={participant.avatar || undefined} />
+                        <AvatarFallback className="text-[10px]">{participant.displayName.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                    ))}
                   </div>
-                )}
+                  <span className="font-medium text-blue-400">
+                    {message.thread.replyCount} {message.thread.replyCount === 1 ? 'reply' : 'replies'}
+                  </span>
+                  <span>Last reply {formatDistanceToNow(new Date(message.thread.lastReplyAt), { addSuffix: true })}</span>
+                </button>
               </div>
             )}
             
             {/* Message Actions */}
-            <div className="flex items-center mt-3 space-x-4 opacity-0 group-hover:opacity-100 transition-opacity">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleSuggestReply(message.id)}
-                className="text-xs text-slate-400 hover:text-white h-auto p-1"
-                disabled={suggestReplyMutation.isPending}
-              >
-                <Brain className="h-3 w-3 mr-1" />
-                Suggest Reply
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="text-xs text-slate-400 hover:text-white h-auto p-1"
-              >
-                <Reply className="h-3 w-3 mr-1" />
-                Reply
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="text-xs text-slate-400 hover:text-white h-auto p-1"
-              >
-                <Share className="h-3 w-3 mr-1" />
-                Share
-              </Button>
-              {!isReply && selectedChannel && (
+            {!isDeleted && !isEditing && (
+              <div className="flex items-center mt-3 space-x-4 opacity-0 group-hover:opacity-100 transition-opacity">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={handleGenerateNotes}
+                  onClick={() => handleSuggestReply(message.id)}
                   className="text-xs text-slate-400 hover:text-white h-auto p-1"
-                  disabled={generateNotesMutation.isPending}
+                  disabled={suggestReplyMutation.isPending}
                 >
-                  <FileText className="h-3 w-3 mr-1" />
-                  Generate Notes
+                  <Brain className="h-3 w-3 mr-1" />
+                  Suggest Reply
                 </Button>
-              )}
-            </div>
+                {can("react") && (
+                  <EmojiPicker
+                    onSelect={(emoji) => {
+                      const hasReacted = !!message.reactions?.some(r => r.emoji === emoji && user && r.userIds.includes(user.id));
+                      toggleReactionMutation.mutate({ message, emoji, remove: hasReacted });
+                    }}
+                  />
+                )}
+                {!inThread && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setThreadRootId(message.parentMessageId ?? message.id)}
+                    className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                >
+                  <Share className="h-3 w-3 mr-1" />
+                  Share
+                </Button>
+                <SaveMessageMenu messageId={message.id} savedItem={savedItemsByMessageId.get(message.id)} />
+                {!inThread && selectedChannel && can("generate_notes") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleGenerateNotes}
+                    className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                    disabled={generateNotesMutation.isPending}
+                  >
+                    <FileText className="h-3 w-3 mr-1" />
+                    Generate Notes
+                  </Button>
+                )}
+                {selectedChannel && can("pin_message") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => togglePinMutation.mutate({ messageId: message.id, pinned: isPinned })}
+                    className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                    disabled={togglePinMutation.isPending}
+                  >
+                    {isPinned ? <PinOff className="h-3 w-3 mr-1" /> : <Pin className="h-3 w-3 mr-1" />}
+                    {isPinned ? "Unpin" : "Pin"}
+                  </Button>
+                )}
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingMessage({ id: message.id, content: message.content })}
+                    className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteMessage(message)}
+                    className="text-xs text-slate-400 hover:text-red-400 h-auto p-1"
+                    disabled={deleteMessageMutation.isPending}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -388,160 +803,251 @@ export function ChatArea({ selectedChannel, selectedDmUser }: ChatAreaProps) {
     ? `# ${channel?.name || 'Loading...'}`
     : `@ ${dmUser?.displayName || 'Loading...'}`;
 
+  const composerDisabledReason =
+    channel?.archivedAt ? "This channel is archived. Its history is read-only."
+      : channel && !can("post_message") ? "You don't have permission to post in this channel."
+      : undefined;
+
   return (
-    <div className="flex-1 flex flex-col">
-      {/* Header */}
-      <div className="bg-slate-800 border-b border-slate-700 px-6 py-3">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
-            <h2 className="text-lg font-semibold text-white">{headerTitle}</h2>
-            {selectedChannel && (
-              <>
-                <div className="flex items-center space-x-2 text-sm text-slate-400">
-                  <Users className="h-4 w-4" />
-                  <span>142 members</span>
-                </div>
-                <Badge variant="secondary" className="bg-blue-600 text-white">
-                  <Brain className="h-3 w-3 mr-1" />
-                  AI Enhanced
-                </Badge>
-              </>
-            )}
-          </div>
-          <div className="flex items-center space-x-3">
-            <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
-              <Info className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
-              <Search className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
-              <Settings className="h-4 w-4" />
-            </Button>
+    <div className="flex-1 flex min-w-0">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <div className="bg-slate-800 border-b border-slate-700 px-6 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-lg font-semibold text-white flex items-center">
+                {channel?.isPrivate && <Lock className="h-4 w-4 mr-2 text-slate-400" />}
+                {headerTitle}
+              </h2>
+              {selectedChannel && (
+                <>
+                  <button
+                    className="flex items-center space-x-2 text-sm text-slate-400 hover:text-white"
+                    onClick={() => setIsMembersPanelOpen(true)}
+                  >
+                    <Users className="h-4 w-4" />
+                    <span>{members.length} {members.length === 1 ? 'member' : 'members'}</span>
+                  </button>
+                  <button
+                    className="flex items-center space-x-1 text-sm text-slate-400 hover:text-white"
+                    onClick={() => setIsPinsPanelOpen(true)}
+                    title="Pinned messages"
+                  >
+                    <Pin className="h-4 w-4" />
+                    <span>{pins.length}</span>
+                  </button>
+                  {channel?.role && channel.role !== "member" && (
+                    <Badge variant="outline" className="text-xs border-slate-600 text-slate-300 capitalize">
+                      {channel.role}
+                    </Badge>
+                  )}
+                  {channel?.archivedAt && (
+                    <Badge variant="outline" className="text-xs border-amber-600 text-amber-400">
+                      <Archive className="h-3 w-3 mr-1" />
+                      Archived
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="bg-blue-600 text-white">
+                    <Brain className="h-3 w-3 mr-1" />
+                    AI Enhanced
+                  </Badge>
+                </>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
+                <Info className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="text-slate-400 hover:text-white">
+                <Search className="h-4 w-4" />
+              </Button>
+              {channel && (
+                <ChannelSettingsMenu channel={channel} onShowMembers={() => setIsMembersPanelOpen(true)} />
+              )}
+            </div>
           </div>
+          {channel && <ChannelBookmarks channel={channel} />}
         </div>
-      </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {messages.map((message: MessageWithAuthor) => renderMessage(message))}
+        {channel && (
+          <ChannelMembersPanel
+            channel={channel}
+            open={isMembersPanelOpen}
+            onOpenChange={setIsMembersPanelOpen}
+          />
+        )}
+
+        {channel && (
+          <PinnedMessagesPanel
+            channel={channel}
+            pins={pins}
+            open={isPinsPanelOpen}
+            onOpenChange={setIsPinsPanelOpen}
+            knownUsernames={knownUsernames}
+            currentUsername={user?.username}
+            onJump={jumpToPin}
+            onUnpin={(messageId) => togglePinMutation.mutate({ messageId, pinned: true })}
+          />
+        )}
+
+        {/* Messages */}
+        <div ref={scrollContainerRef} onScroll={handleScroll} className="relative flex-1 overflow-y-auto p-6 space-y-4">
+          {history.isFetchingOlder && (
+            <div className="text-center text-xs text-slate-400">Loading older messages...</div>
+          )}
+          {!history.isLoading && !history.hasOlder && messages.length > 0 && (
+            <div className="text-center text-xs text-slate-500">This is the beginning of the conversation</div>
+          )}
+          {messages.map((message: MessageWithAuthor) => (
+            <Fragment key={message.id}>
+              {renderMessage(message)}
+              {message.id === seenMessageId && (
+                <div className="text-right text-xs text-slate-500 -mt-3 pr-3">Seen</div>
+              )}
+            </Fragment>
+          ))}
+          {history.isFetchingNewer && (
+            <div className="text-center text-xs text-slate-400">Loading newer messages...</div>
+          )}
         
-        {/* AI Suggestion Display */}
-        {suggestReplyMutation.data && (
-          <div className="bg-purple-900/20 border border-purple-700/30 rounded-lg p-4 mb-4">
-            <div className="flex items-center space-x-2 mb-3">
-              <Brain className="h-4 w-4 text-purple-400" />
-              <span className="text-sm font-medium text-purple-400">AI Suggested Replies</span>
+          {/* AI Suggestion Display */}
+          {suggestReplyMutation.data && (
+            <div className="bg-purple-900/20 border border-purple-700/30 rounded-lg p-4 mb-4">
+              <div className="flex items-center space-x-2 mb-3">
+                <Brain className="h-4 w-4 text-purple-400" />
+                <span className="text-sm font-medium text-purple-400">AI Suggested Replies</span>
+              </div>
+              <div className="space-y-4">
+                {suggestReplyMutation.data.suggestions.map((suggestion: any, index: number) => (
+                  <div key={index} className="bg-slate-800/50 rounded-lg p-3">
+                    <p className="text-sm text-slate-300 mb-3">{suggestion.suggestedReply}</p>
+                    <div className="flex space-x-2">
+                      <Button 
+                        size="sm" 
+                        className="bg-purple-600 hover:bg-purple-700 text-white"
+                        onClick={() => sendSuggestedReplyMutation.mutate({
+                          content: suggestion.suggestedReply,
+                          messageId: suggestReplyMutation.data.messageId
+                        })}
+                        disabled={sendSuggestedReplyMutation.isPending}
+                      >
+                        {sendSuggestedReplyMutation.isPending ? "Sending..." : "Send Reply"}
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        className="border-slate-600 text-slate-300"
+                        onClick={() => setEditingReply({
+                          content: suggestion.suggestedReply,
+                          messageId: suggestReplyMutation.data.messageId
+                        })}
+                      >
+                        Edit
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="space-y-4">
-              {suggestReplyMutation.data.suggestions.map((suggestion: any, index: number) => (
-                <div key={index} className="bg-slate-800/50 rounded-lg p-3">
-                  <p className="text-sm text-slate-300 mb-3">{suggestion.suggestedReply}</p>
+          )}
+
+          {/* Edit Reply Dialog */}
+          {editingReply && (
+            <Dialog open={!!editingReply} onOpenChange={() => setEditingReply(null)}>
+              <DialogContent className="bg-slate-900 border-slate-700">
+                <DialogHeader>
+                  <DialogTitle className="text-white">Edit Reply</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Textarea
+                    value={editingReply.content}
+                    onChange={(e) => setEditingReply({ ...editingReply, content: e.target.value })}
+                    className="bg-slate-800 border-slate-700 text-white min-h-[100px]"
+                  />
                   <div className="flex space-x-2">
                     <Button 
-                      size="sm" 
                       className="bg-purple-600 hover:bg-purple-700 text-white"
-                      onClick={() => sendSuggestedReplyMutation.mutate({
-                        content: suggestion.suggestedReply,
-                        messageId: suggestReplyMutation.data.messageId
-                      })}
+                      onClick={() => {
+                        sendSuggestedReplyMutation.mutate({
+                          content: editingReply.content,
+                          messageId: editingReply.messageId
+                        });
+                        setEditingReply(null);
+                      }}
                       disabled={sendSuggestedReplyMutation.isPending}
                     >
-                      {sendSuggestedReplyMutation.isPending ? "Sending..." : "Send Reply"}
+                      {sendSuggestedReplyMutation.isPending ? "Sending..." : "Send Edited Reply"}
                     </Button>
                     <Button 
                       variant="outline" 
-                      size="sm" 
                       className="border-slate-600 text-slate-300"
-                      onClick={() => setEditingReply({
-                        content: suggestion.suggestedReply,
-                        messageId: suggestReplyMutation.data.messageId
-                      })}
+                      onClick={() => setEditingReply(null)}
                     >
-                      Edit
+                      Cancel
                     </Button>
                   </div>
                 </div>
-              ))}
-            </div>
-          </div>
-        )}
+              </DialogContent>
+            </Dialog>
+          )}
 
-        {/* Edit Reply Dialog */}
-        {editingReply && (
-          <Dialog open={!!editingReply} onOpenChange={() => setEditingReply(null)}>
-            <DialogContent className="bg-slate-900 border-slate-700">
-              <DialogHeader>
-                <DialogTitle className="text-white">Edit Reply</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <Textarea
-                  value={editingReply.content}
-                  onChange={(e) => setEditingReply({ ...editingReply, content: e.target.value })}
-                  className="bg-slate-800 border-slate-700 text-white min-h-[100px]"
-                />
-                <div className="flex space-x-2">
-                  <Button 
-                    className="bg-purple-600 hover:bg-purple-700 text-white"
-                    onClick={() => {
-                      sendSuggestedReplyMutation.mutate({
-                        content: editingReply.content,
-                        messageId: editingReply.messageId
-                      });
-                      setEditingReply(null);
-                    }}
-                    disabled={sendSuggestedReplyMutation.isPending}
-                  >
-                    {sendSuggestedReplyMutation.isPending ? "Sending..." : "Send Edited Reply"}
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    className="border-slate-600 text-slate-300"
-                    onClick={() => setEditingReply(null)}
-                  >
-                    Cancel
-                  </Button>
-                </div>
+          {/* Meeting Notes Display */}
+          {generateNotesMutation.data && (
+            <div className="bg-green-900/20 border border-green-700/30 rounded-lg p-4">
+              <div className="flex items-center space-x-2 mb-3">
+                <FileText className="h-4 w-4 text-green-400" />
+                <span className="text-sm font-medium text-green-400">Generated Meeting Notes</span>
               </div>
-            </DialogContent>
-          </Dialog>
-        )}
-
-        {/* Meeting Notes Display */}
-        {generateNotesMutation.data && (
-          <div className="bg-green-900/20 border border-green-700/30 rounded-lg p-4">
-            <div className="flex items-center space-x-2 mb-3">
-              <FileText className="h-4 w-4 text-green-400" />
-              <span className="text-sm font-medium text-green-400">Generated Meeting Notes</span>
+              <h4 className="font-medium text-white mb-2">{generateNotesMutation.data.title}</h4>
+              <p className="text-sm text-slate-300 mb-3">{generateNotesMutation.data.summary}</p>
+              {generateNotesMutation.data.keyPoints?.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-white mb-1">Key Points:</p>
+                  <ul className="text-sm text-slate-300 list-disc list-inside">
+                    {generateNotesMutation.data.keyPoints.map((point: string, index: number) => (
+                      <li key={index}>{point}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
-            <h4 className="font-medium text-white mb-2">{generateNotesMutation.data.title}</h4>
-            <p className="text-sm text-slate-300 mb-3">{generateNotesMutation.data.summary}</p>
-            {generateNotesMutation.data.keyPoints?.length > 0 && (
-              <div>
-                <p className="text-sm font-medium text-white mb-1">Key Points:</p>
-                <ul className="text-sm text-slate-300 list-disc list-inside">
-                  {generateNotesMutation.data.keyPoints.map((point: string, index: number) => (
-                    <li key={index}>{point}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
+          )}
+        
+          <div ref={messagesEndRef} />
+        </div>
+
+        {history.hasNewer && (
+          <div className="relative">
+            <Button
+              size="sm"
+              onClick={jumpToLatest}
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-blue-600 hover:bg-blue-700 text-white shadow-lg"
+            >
+              <ArrowDown className="h-3 w-3 mr-1" />
+              Jump to latest
+            </Button>
           </div>
         )}
-        
-        <div ref={messagesEndRef} />
+
+        {/* Message Input */}
+        <MessageInput 
+          channelId={selectedChannel}
+          recipientId={selectedDmUser}
+          disabledReason={composerDisabledReason}
+        />
       </div>
 
-      {/* Message Input */}
-      <MessageInput 
-        channelId={selectedChannel}
-        recipientId={selectedDmUser}
-        onMessageSent={(message) => {
-          if (selectedChannel) {
-            broadcastMessage(selectedChannel, message);
-          }
-        }}
-      />
+      {threadRootId && (
+        <ThreadPanel
+          rootId={threadRootId}
+          channelId={selectedChannel}
+          recipientId={selectedDmUser}
+          renderMessage={message => renderMessage(message, true)}
+          disabledReason={composerDisabledReason}
+          onClose={() => setThreadRootId(null)}
+        />
+      )}
     </div>
   );
 }
+
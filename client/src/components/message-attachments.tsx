@@ -0,0 +1,63 @@
+import { Download, FileText } from "lucide-react";
+import { formatFileSize, isInlineImage } from "@shared/attachments";
+import type { MessageAttachment } from "@shared/schema";
+
+// Previews are scaled down to fit this box
+const PREVIEW_MAX_WIDTH = 360;
+const PREVIEW_MAX_HEIGHT = 240;
+
+function previewSize(attachment: MessageAttachment) {
+  if (!attachment.width || !attachment.height) return undefined;
+  const scale = Math.min(1, PREVIEW_MAX_WIDTH / attachment.width, PREVIEW_MAX_HEIGHT / attachment.height);
+  return { width: Math.round(attachment.width * scale), height: Math.round(attachment.height * scale) };
+}
+
+// Images inline, anything else as a card to download
+export function MessageAttachments({ attachments }: { attachments: MessageAttachment[] }) {
+  if (!attachments.length) return null;
+
+  const images = attachments.filter(attachment => isInlineImage(attachment.contentType));
+  const files = attachments.filter(attachment => !isInlineImage(attachment.contentType));
+
+  return (
+    <div className="mt-2 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => (
+            <a
+              key={image.id}
+              href={`/api/attachments/${image.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={image.fileName}
+              className="block overflow-hidden rounded-lg border border-slate-700 bg-slate-800"
+            >
+              <img
+                src={`/api/attachments/${image.id}`}
+                alt={image.fileName}
+                loading="lazy"
+                style={previewSize(image) ?? { maxWidth: PREVIEW_MAX_WIDTH, maxHeight: PREVIEW_MAX_HEIGHT }}
+                className="object-contain"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.map(file => (
+        <a
+          key={file.id}
+          href={`/api/attachments/${file.id}?download`}
+          className="flex w-72 items-center space-x-3 rounded-lg border border-slate-700 bg-slate-800 p-3 hover:bg-slate-700"
+        >
+          <FileText className="h-8 w-8 shrink-0 text-blue-400" />
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm text-white">{file.fileName}</p>
+            <p className="text-xs text-slate-400">{formatFileSize(file.size)}</p>
+          </div>
+          <Download className="h-4 w-4 shrink-0 text-slate-400" />
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github-dark.css";
+import { MENTION_PATTERN, isGroupMention } from "@shared/mentions";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+
+interface MessageContentProps {
+  content: string;
+  // Lowercased usernames of everyone who can be mentioned; other @words stay plain text
+  knownUsernames: Set<string>;
+  currentUsername?: string;
+}
+
+interface MentionContext {
+  knownUsernames: Set<string>;
+  currentUsername?: string;
+}
+
+// Text with @mentions highlighted, more strongly when they reach the current user
+function renderMentions(text: string, context: MentionContext, keyPrefix: string) {
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    const name = match[1].toLowerCase();
+    const isGroup = isGroupMention(name);
+    if (!isGroup && !context.knownUsernames.has(name)) continue;
+
+    const index = match.index ?? 0;
+    const isForMe = isGroup || name === context.currentUsername?.toLowerCase();
+    parts.push(<Fragment key={`${keyPrefix}-text-${lastIndex}`}>{text.slice(lastIndex, index)}</Fragment>);
+    parts.push(
+      <span
+        key={`${keyPrefix}-mention-${index}`}
+        className={`rounded px-0.5 font-medium ${isForMe ? 'bg-yellow-500/20 text-yellow-300' : 'bg-blue-500/20 text-blue-300'}`}
+      >
+        {match[0]}
+      </span>
+    );
+    lastIndex = index + match[0].length;
+  }
+  parts.push(<Fragment key={`${keyPrefix}-text-${lastIndex}`}>{text.slice(lastIndex)}</Fragment>);
+
+  return parts;
+}
+
+function renderInlines(nodes: MarkdownInline[], context: MentionContext, keyPrefix = "i"): ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (node.type) {
+      case "text":
+        return <Fragment key={key}>{renderMentions(node.text, context, key)}</Fragment>;
+      case "break":
+        return <br key={key} />;
+      case "strong":
+        return <strong key={key} className="font-semibold text-white">{renderInlines(node.children, context, key)}</strong>;
+      case "em":
+        return <em key={key}>{renderInlines(node.children, context, key)}</em>;
+      case "strike":
+        return <s key={key}>{renderInlines(node.children, context, key)}</s>;
+      case "code":
+        return (
+          <code key={key} className="rounded bg-slate-900 px-1 py-0.5 font-mono text-[0.85em] text-pink-300">
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={key}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-400 underline hover:text-blue-300"
+          >
+            {renderInlines(node.children, context, key)}
+          </a>
+        );
+    }
+  });
+}
+
+// highlight.js escapes the code it returns, so its markup is safe to insert
+function CodeBlock({ language, code }: { language: string | null; code: string }) {
+  const highlighted = useMemo(() => {
+    if (!language || !hljs.getLanguage(language)) return null;
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }, [language, code]);
+
+  return (
+    <pre className="my-1 overflow-x-auto rounded-md border border-slate-700 bg-slate-900 p-3 text-sm">
+      {highlighted !== null
+        ? <code className="hljs bg-transparent p-0 font-mono" dangerouslySetInnerHTML={{ __html: highlighted }} />
+        : <code className="font-mono text-slate-200">{code}</code>}
+    </pre>
+  );
+}
+
+function renderBlocks(blocks: MarkdownBlock[], context: MentionContext, keyPrefix = "b"): ReactNode[] {
+  return blocks.map((block, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (block.type) {
+      case "paragraph":
+        return <p key={key}>{renderInlines(block.children, context, key)}</p>;
+      case "code":
+        return <CodeBlock key={key} language={block.language} code={block.code} />;
+      case "quote":
+        return (
+          <blockquote key={key} className="border-l-4 border-slate-600 pl-3 text-slate-400">
+            {renderBlocks(block.children, context, key)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={`${key}-${itemIndex}`}>{renderInlines(item, context, `${key}-${itemIndex}`)}</li>
+        ));
+        return block.ordered
+          ? <ol key={key} start={block.start} className="list-decimal pl-6">{items}</ol>
+          : <ul key={key} className="list-disc pl-6">{items}</ul>;
+      }
+    }
+  });
+}
+
+// A message's markdown, rendered as React elements with @mentions highlighted
+export function MessageContent({ content, knownUsernames, currentUsername }: MessageContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className="space-y-1 break-words">{renderBlocks(blocks, { knownUsernames, currentUsername })}</div>;
+}
@@ -1,5 +1,5 @@
-import { useState, useRef, useCallback } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { Button } from "@/components/ui/button";
@@ -9,6 +9,12 @@ import {
   Italic, 
   Link, 
   Code, 
+  List,
+  ListOrdered,
+  Quote,
+  Strikethrough,
+  Eye,
+  EyeOff,
   Paperclip, 
   Smile, 
   AtSign, 
@@ -16,21 +22,77 @@ import {
   Brain,
   Target,
   TrendingUp,
-  CheckCircle
+  CheckCircle,
+  FileText,
+  Loader2,
+  Clock,
+  X
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { insertMessageSchema } from "@shared/schema";
+import { insertMessageSchema, type DirectMessageUser, type MessageAttachment } from "@shared/schema";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  isAllowedAttachmentType,
+} from "@shared/attachments";
 import { useToast } from "@/hooks/use-toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useChannelMembers } from "./channel-members-panel";
+import { MessageContent } from "./message-content";
+import { SendLaterPicker } from "./send-later-picker";
+import { ScheduledMessagesPanel, useScheduledMessages } from "./scheduled-messages-panel";
+import { formatUpcoming } from "@/lib/time-presets";
+
+// The partial @mention being typed just before the caret
+const MENTION_QUERY_PATTERN = /(?:^|[^\w@.])@([\w.-]*)$/;
+const MAX_MENTION_SUGGESTIONS = 8;
+
+// Messages are markdown; the toolbar inserts the syntax for people who don't type it
+const FORMATTING_ACTIONS = [
+  { label: "Bold", icon: Bold, shortcut: "Ctrl+B" },
+  { label: "Italic", icon: Italic, shortcut: "Ctrl+I" },
+  { label: "Strikethrough", icon: Strikethrough, shortcut: "Ctrl+Shift+X" },
+  { label: "Code", icon: Code, shortcut: "Ctrl+E" },
+  { label: "Link", icon: Link, shortcut: "Ctrl+K" },
+  { label: "Bulleted list", icon: List, shortcut: null },
+  { label: "Numbered list", icon: ListOrdered, shortcut: null },
+  { label: "Quote", icon: Quote, shortcut: null },
+] as const;
+
+type FormattingLabel = (typeof FORMATTING_ACTIONS)[number]["label"];
+
+interface MentionCandidate {
+  username: string;
+  label: string;
+  description: string | null;
+}
+
+const GROUP_MENTION_CANDIDATES: MentionCandidate[] = [
+  { username: "channel", label: "@channel", description: "Notify everyone in this channel" },
+  { username: "here", label: "@here", description: "Notify everyone who's available" },
+];
+
+// A file in the composer: uploading, or uploaded and waiting to be sent
+interface PendingAttachment {
+  localId: string;
+  file: File;
+  attachment?: MessageAttachment;
+}
 
 interface MessageInputProps {
   channelId: number | null;
   recipientId: number | null;
   onMessageSent?: (message: any) => void;
+  // Shown in place of the composer when the user can't post here
+  disabledReason?: string;
+  // Set when composing a thread reply
+  parentMessageId?: number | null;
 }
 
-export function MessageInput({ channelId, recipientId, onMessageSent }: MessageInputProps) {
+export function MessageInput({ channelId, recipientId, onMessageSent, disabledReason, parentMessageId }: MessageInputProps) {
   const { user } = useAuth();
-  const { sendTyping, broadcastMessage } = useWebSocket();
+  const { sendTyping } = useWebSocket();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [content, setContent] = useState("");
@@ -38,6 +100,227 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [alsoSendToChannel, setAlsoSendToChannel] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [activeMentionIndex, setActiveMentionIndex] = useState(0);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isScheduledPanelOpen, setIsScheduledPanelOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isUploading = pendingAttachments.some(pending => !pending.attachment);
+  const uploadedAttachmentIds = pendingAttachments.flatMap(pending => pending.attachment ? [pending.attachment.id] : []);
+
+  const scheduledMessages = useScheduledMessages({ channelId, recipientId, parentMessageId: parentMessageId ?? null });
+
+  // Channels suggest their members; a DM only has the other participant to mention
+  const { data: members = [] } = useChannelMembers(channelId);
+  const { data: dmUsers = [] } = useQuery<DirectMessageUser[]>({
+    queryKey: ["/api/direct-message-users"],
+    enabled: !channelId && !!recipientId,
+  });
+
+  const mentionCandidates: MentionCandidate[] = channelId
+    ? [
+        ...members.map(member => ({ username: member.user.username, label: member.user.displayName, description: `@${member.user.username}` })),
+        ...GROUP_MENTION_CANDIDATES,
+      ]
+    : dmUsers
+        .filter(dmUser => dmUser.id === recipientId)
+        .map(dmUser => ({ username: dmUser.username, label: dmUser.displayName, description: `@${dmUser.username}` }));
+
+  const mentionSuggestions = mentionQuery
+    ? mentionCandidates
+        .filter(candidate => candidate.username !== user?.username)
+        .filter(candidate => {
+          const query = mentionQuery.query.toLowerCase();
+          return candidate.username.toLowerCase().startsWith(query) || candidate.label.toLowerCase().startsWith(query);
+        })
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+  const isMentionMenuOpen = mentionSuggestions.length > 0;
+  const knownUsernames = new Set(mentionCandidates.map(candidate => candidate.username.toLowerCase()));
+  if (user) knownUsernames.add(user.username.toLowerCase());
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setMentionQuery(match ? { start: caret - match[1].length - 1, query: match[1] } : null);
+    setActiveMentionIndex(0);
+  };
+
+  // Replace the partial mention with the chosen one and put the caret after it
+  const insertMention = (candidate: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    if (!mentionQuery || !textarea) return;
+    const caret = textarea.selectionStart;
+    const mention = `@${candidate.username} `;
+    const value = content.slice(0, mentionQuery.start) + mention + content.slice(caret);
+    setContent(value);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      const position = mentionQuery.start + mention.length;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  // Replaces the selection and selects the given range of the new text afterwards
+  const replaceSelection = (replacement: string, selectFrom: number, selectTo: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    setContent(content.slice(0, selectionStart) + replacement + content.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + selectFrom, selectionStart + selectTo);
+      adjustTextareaHeight();
+    });
+  };
+
+  // Bold, italic, strikethrough and inline code wrap the selection, or a placeholder to type over
+  const wrapSelection = (marker: string, placeholder: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const selected = content.slice(textarea.selectionStart, textarea.selectionEnd) || placeholder;
+    replaceSelection(`${marker}${selected}${marker}`, marker.length, marker.length + selected.length);
+  };
+
+  const insertCode = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const selected = content.slice(textarea.selectionStart, textarea.selectionEnd);
+    if (!selected.includes("\n")) {
+      wrapSelection("`", "code");
+      return;
+    }
+    const atLineStart = textarea.selectionStart === 0 || content[textarea.selectionStart - 1] === "\n";
+    const opening = `${atLineStart ? "" : "\n"}\`\`\`\n`;
+    replaceSelection(`${opening}${selected}\n\`\`\`\n`, opening.length, opening.length + selected.length);
+  };
+
+  const insertLink = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const text = content.slice(textarea.selectionStart, textarea.selectionEnd) || "link text";
+    const url = "https://";
+    replaceSelection(`[${text}](${url})`, text.length + 3, text.length + 3 + url.length);
+  };
+
+  // Lists and quotes prefix every line the selection touches
+  const prefixLines = (prefix: (index: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lineStart = content.lastIndexOf("\n", textarea.selectionStart - 1) + 1;
+    const lineEnd = content.indexOf("\n", textarea.selectionEnd);
+    const end = lineEnd === -1 ? content.length : lineEnd;
+    const prefixed = content.slice(lineStart, end).split("\n").map((line, index) => `${prefix(index)}${line}`).join("\n");
+    setContent(content.slice(0, lineStart) + prefixed + content.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(lineStart + prefixed.length, lineStart + prefixed.length);
+      adjustTextareaHeight();
+    });
+  };
+
+  // The @ button starts a mention at the caret
+  const startMention = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const caret = textarea.selectionStart;
+    const needsSpace = caret > 0 && !/\s/.test(content[caret - 1]);
+    const prefix = `${needsSpace ? " " : ""}@`;
+    const value = content.slice(0, caret) + prefix + content.slice(caret);
+    setContent(value);
+    updateMentionQuery(value, caret + prefix.length);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret + prefix.length, caret + prefix.length);
+    });
+  };
+
+  // Uploads belong to the conversation they were made for; unsent ones are cleaned up by the server
+  useEffect(() => {
+    setPendingAttachments([]);
+  }, [channelId, recipientId, parentMessageId]);
+
+  // Uploads start as soon as files are picked, dropped or pasted; sending waits for them
+  const uploadAttachment = async (pending: PendingAttachment) => {
+    const formData = new FormData();
+    formData.append("file", pending.file);
+    if (channelId) formData.append("channelId", String(channelId));
+    else if (recipientId) formData.append("recipientId", String(recipientId));
+
+    try {
+      const res = await fetch("/api/attachments", { method: "POST", body: formData, credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      const attachment: MessageAttachment = await res.json();
+      setPendingAttachments(current =>
+        current.map(item => item.localId === pending.localId ? { ...item, attachment } : item)
+      );
+    } catch (error) {
+      setPendingAttachments(current => current.filter(item => item.localId !== pending.localId));
+      toast({
+        title: `Couldn't upload ${pending.file.name}`,
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many files",
+        description: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted: PendingAttachment[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      if (!isAllowedAttachmentType(file.type)) {
+        toast({ title: `Can't attach ${file.name}`, description: "That file type isn't allowed", variant: "destructive" });
+      } else if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast({
+          title: `Can't attach ${file.name}`,
+          description: `Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}`,
+          variant: "destructive",
+        });
+      } else {
+        accepted.push({ localId: `${Date.now()}-${Math.random()}`, file });
+      }
+    }
+
+    setPendingAttachments(current => [...current, ...accepted]);
+    accepted.forEach(uploadAttachment);
+  };
+
+  const removeAttachment = (pending: PendingAttachment) => {
+    setPendingAttachments(current => current.filter(item => item.localId !== pending.localId));
+    if (pending.attachment) {
+      apiRequest("DELETE", `/api/attachments/${pending.attachment.id}`).catch(error => {
+        console.error("[Client] Failed to discard attachment:", error);
+      });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Pasting text stays as usual; pasted files (e.g. screenshots) become attachments
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!files.length) return;
+    e.preventDefault();
+    addFiles(files);
+  };
 
   // Send message mutation
   const sendMessageMutation = useMutation({
@@ -47,21 +330,25 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
     },
     onSuccess: (message) => {
       setContent("");
+      setIsPreviewing(false);
       setToneAnalysis(null);
+      setAlsoSendToChannel(false);
+      setPendingAttachments([]);
       
       // Invalidate queries to refresh messages
+      if (parentMessageId) {
+        queryClient.invalidateQueries({
+          queryKey: ["/api/messages", parentMessageId, "thread"]
+        });
+      }
       if (channelId) {
         queryClient.invalidateQueries({
           queryKey: ["/api/channels", channelId, "messages"]
         });
-        // Broadcast to channel
-        broadcastMessage(channelId, message);
       } else if (recipientId) {
         queryClient.invalidateQueries({
           queryKey: ["/api/direct-messages", recipientId]
         });
-        // Broadcast DM with recipientId
-        broadcastMessage(0, { ...message, recipientId }); // Use channelId 0 to indicate DM
       }
 
       onMessageSent?.(message);
@@ -80,6 +367,39 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
     }
   });
 
+  // Send later: the server posts it at sendAt, the same way as sending now
+  const scheduleMessageMutation = useMutation({
+    mutationFn: async (sendAt: Date) => {
+      await apiRequest("POST", "/api/scheduled-messages", {
+        content: content.trim(),
+        channelId: channelId || null,
+        recipientId: channelId ? null : recipientId,
+        parentMessageId: parentMessageId || null,
+        alsoSentToChannel: !!parentMessageId && !!channelId && alsoSendToChannel,
+        sendAt,
+      });
+      return sendAt;
+    },
+    onSuccess: (sendAt) => {
+      setContent("");
+      setIsPreviewing(false);
+      setToneAnalysis(null);
+      setAlsoSendToChannel(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduled-messages"] });
+      toast({
+        title: "Message scheduled",
+        description: `It will be sent ${formatUpcoming(sendAt)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't schedule message",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Tone analysis mutation
   const toneAnalysisMutation = useMutation({
     mutationFn: async (text: string) => {
@@ -102,7 +422,7 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
       
       const response = await apiRequest("POST", "/api/ai/suggest-reply", {
         messageContent: "Compose a new message",
-        threadContext: messagesData.map((msg: any) => msg.content),
+        threadContext: messagesData.messages.map((msg: any) => msg.content),
         orgContext: `Channel: ${channelId}`,
         generateMultiple: true
       });
@@ -167,14 +487,16 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
   };
 
   const handleSend = () => {
-    if (!content.trim() || sendMessageMutation.isPending) return;
+    if ((!content.trim() && !uploadedAttachmentIds.length) || isUploading || sendMessageMutation.isPending) return;
     
     try {
       const messageData = {
         content: content.trim(),
         channelId: channelId || undefined,
         recipientId: recipientId || undefined,
-        parentMessageId: null
+        parentMessageId: parentMessageId || null,
+        alsoSentToChannel: !!parentMessageId && !!channelId && alsoSendToChannel,
+        attachmentIds: uploadedAttachmentIds,
       };
 
       sendMessageMutation.mutate(messageData);
@@ -187,7 +509,57 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
     }
   };
 
+  const formattingHandlers: Record<FormattingLabel, () => void> = {
+    Bold: () => wrapSelection("**", "bold"),
+    Italic: () => wrapSelection("_", "italic"),
+    Strikethrough: () => wrapSelection("~~", "strikethrough"),
+    Code: insertCode,
+    Link: insertLink,
+    "Bulleted list": () => prefixLines(() => "- "),
+    "Numbered list": () => prefixLines(index => `${index + 1}. `),
+    Quote: () => prefixLines(() => "> "),
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (isMentionMenuOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveMentionIndex(index => (index + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionSuggestions[Math.min(activeMentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if ((e.metaKey || e.ctrlKey) && !e.altKey) {
+      const formatting: Record<string, () => void> = {
+        b: () => wrapSelection("**", "bold"),
+        i: () => wrapSelection("_", "italic"),
+        e: insertCode,
+        k: insertLink,
+      };
+      const apply = formatting[e.key.toLowerCase()];
+      if (apply && !e.shiftKey) {
+        e.preventDefault();
+        apply();
+        return;
+      }
+      if (e.shiftKey && e.key.toLowerCase() === 'x') {
+        e.preventDefault();
+        wrapSelection("~~", "strikethrough");
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -221,12 +593,41 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
     }
   };
 
-  const placeholder = channelId 
-    ? `Message #${channelId}` 
-    : `Message user`;
+  const placeholder = parentMessageId
+    ? "Reply in thread..."
+    : channelId 
+      ? `Message #${channelId}` 
+      : `Message user`;
+
+  if (disabledReason) {
+    return (
+      <div className="bg-slate-800 border-t border-slate-700 p-4">
+        <div className="rounded-lg border border-slate-700 bg-slate-900 p-3 text-center text-sm text-slate-400">
+          {disabledReason}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="bg-slate-800 border-t border-slate-700 p-4">
+      {scheduledMessages.length > 0 && (
+        <button
+          onClick={() => setIsScheduledPanelOpen(true)}
+          className="mb-2 flex items-center text-xs text-slate-400 hover:text-white"
+        >
+          <Clock className="h-3 w-3 mr-1" />
+          {scheduledMessages.length} scheduled {scheduledMessages.length === 1 ? "message" : "messages"}
+          {scheduledMessages.some(message => message.status === "failed") && (
+            <span className="ml-1 text-red-400">(some couldn't be sent)</span>
+          )}
+        </button>
+      )}
+      <ScheduledMessagesPanel
+        messages={scheduledMessages}
+        open={isScheduledPanelOpen}
+        onOpenChange={setIsScheduledPanelOpen}
+      />
       <div className="relative">
         {aiComposeMutation.data?.suggestions && showSuggestions && (
           <div className="absolute bottom-full mb-2 w-full bg-slate-900 rounded-lg border border-slate-700 p-4 space-y-3">
@@ -261,20 +662,68 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
           </div>
         )}
 
-        <div className="bg-white rounded-lg border border-gray-300 focus-within:border-blue-500 transition-colors">
+        {isMentionMenuOpen && (
+          <div className="absolute bottom-full mb-2 w-72 bg-slate-900 rounded-lg border border-slate-700 py-1 z-10">
+            {mentionSuggestions.map((candidate, index) => (
+              <button
+                key={candidate.username}
+                // Keep focus (and the caret) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(candidate)}
+                onMouseEnter={() => setActiveMentionIndex(index)}
+                className={`flex w-full items-center justify-between px-3 py-1.5 text-left text-sm ${
+                  index === activeMentionIndex ? 'bg-blue-600 text-white' : 'text-slate-300'
+                }`}
+              >
+                <span className="truncate">{candidate.label}</span>
+                {candidate.description && (
+                  <span className={`ml-2 truncate text-xs ${index === activeMentionIndex ? 'text-blue-100' : 'text-slate-500'}`}>
+                    {candidate.description}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div
+          className={`bg-white rounded-lg border focus-within:border-blue-500 transition-colors ${
+            isDraggingFiles ? 'border-blue-500 ring-2 ring-blue-500/40' : 'border-gray-300'
+          }`}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setIsDraggingFiles(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+          }}
+          onDrop={handleDrop}
+        >
           {/* Formatting Toolbar */}
           <div className="flex items-center p-3 border-b border-gray-200">
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
-              <Bold className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
-              <Italic className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
-              <Link className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
-              <Code className="h-4 w-4" />
+            {FORMATTING_ACTIONS.map(({ label, icon: Icon, shortcut }) => (
+              <Button
+                key={label}
+                variant="ghost"
+                size="icon"
+                title={shortcut ? `${label} (${shortcut})` : label}
+                disabled={isPreviewing}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => formattingHandlers[label]()}
+                className="h-8 w-8 text-gray-500 hover:text-gray-700"
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsPreviewing(previewing => !previewing)}
+              className="ml-1 text-gray-500 hover:text-gray-700"
+            >
+              {isPreviewing ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+              {isPreviewing ? "Edit" : "Preview"}
             </Button>
             
             <div className="ml-auto flex items-center space-x-2">
@@ -303,41 +752,115 @@ export function MessageInput({ channelId, recipientId, onMessageSent }: MessageI
           </div>
 
           {/* Message Input */}
+          {isPreviewing ? (
+            <div className="min-h-[80px] max-h-[300px] overflow-y-auto bg-slate-800 p-3 text-sm text-slate-300">
+              {content.trim()
+                ? <MessageContent content={content} knownUsernames={knownUsernames} currentUsername={user?.username} />
+                : <span className="text-slate-500">Nothing to preview</span>}
+            </div>
+          ) : (
           <Textarea
             ref={textareaRef}
             value={content}
             onChange={(e) => {
               handleContentChange(e.target.value);
+              updateMentionQuery(e.target.value, e.target.selectionStart);
               adjustTextareaHeight();
             }}
             onKeyDown={handleKeyPress}
+            onPaste={handlePaste}
+            onBlur={() => setMentionQuery(null)}
             placeholder={placeholder}
             className="w-full p-3 text-gray-900 bg-white placeholder-gray-500 resize-none border-0 focus:ring-0 focus:outline-none min-h-[80px]"
             rows={3}
           />
+          )}
+
+          {pendingAttachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 px-3 pb-2">
+              {pendingAttachments.map(pending => (
+                <div
+                  key={pending.localId}
+                  className="flex max-w-[14rem] items-center space-x-2 rounded border border-gray-200 bg-gray-50 px-2 py-1 text-xs text-gray-700"
+                >
+                  {pending.attachment
+                    ? <FileText className="h-3 w-3 shrink-0 text-gray-500" />
+                    : <Loader2 className="h-3 w-3 shrink-0 animate-spin text-gray-500" />}
+                  <span className="truncate">{pending.file.name}</span>
+                  <span className="shrink-0 text-gray-400">{formatFileSize(pending.file.size)}</span>
+                  <button
+                    onClick={() => removeAttachment(pending)}
+                    className="shrink-0 text-gray-400 hover:text-gray-700"
+                    title="Remove"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
 
           {/* Action Bar */}
           <div className="flex items-center justify-between p-3 bg-gray-50">
             <div className="flex items-center space-x-3">
-              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                title="Attach files"
+                className="h-8 w-8 text-gray-500 hover:text-gray-700"
+              >
                 <Paperclip className="h-4 w-4" />
               </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
               <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
                 <Smile className="h-4 w-4" />
               </Button>
-              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500 hover:text-gray-700">
+              <Button
+                variant="ghost"
+                size="icon"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={startMention}
+                className="h-8 w-8 text-gray-500 hover:text-gray-700"
+              >
                 <AtSign className="h-4 w-4" />
               </Button>
+              {parentMessageId && channelId && (
+                <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+                  <Checkbox
+                    checked={alsoSendToChannel}
+                    onCheckedChange={(checked) => setAlsoSendToChannel(checked === true)}
+                  />
+                  <span>Also send to channel</span>
+                </label>
+              )}
             </div>
             
-            <Button
-              onClick={handleSend}
-              disabled={!content.trim() || sendMessageMutation.isPending}
-              className="bg-green-600 hover:bg-green-700 text-white transition-colors"
-            >
-              <span className="mr-2">Send</span>
-              <Send className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center space-x-1">
+              <SendLaterPicker
+                onSchedule={(sendAt) => scheduleMessageMutation.mutate(sendAt)}
+                disabled={!content.trim() || scheduleMessageMutation.isPending}
+                disabledReason={pendingAttachments.length ? "Messages with attachments can't be scheduled" : undefined}
+              />
+              <Button
+                onClick={handleSend}
+                disabled={(!content.trim() && !uploadedAttachmentIds.length) || isUploading || sendMessageMutation.isPending}
+                className="bg-green-600 hover:bg-green-700 text-white transition-colors"
+              >
+                <span className="mr-2">Send</span>
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
 
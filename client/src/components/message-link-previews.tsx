@@ -0,0 +1,36 @@
+import type { MessageLinkPreview } from "@shared/schema";
+
+// A card per previewed link, with the page's image beside its title when there is one
+export function MessageLinkPreviews({ previews }: { previews: MessageLinkPreview[] }) {
+  if (!previews.length) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {previews.map(preview => (
+        <a
+          key={preview.id}
+          href={preview.url}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="flex max-w-lg overflow-hidden rounded-lg border border-slate-700 border-l-4 border-l-blue-500 bg-slate-800 hover:bg-slate-700"
+        >
+          <div className="min-w-0 flex-1 p-3">
+            {preview.siteName && <p className="truncate text-xs text-slate-400">{preview.siteName}</p>}
+            <p className="truncate text-sm font-medium text-blue-400">{preview.title}</p>
+            {preview.description && <p className="mt-1 line-clamp-2 text-xs text-slate-300">{preview.description}</p>}
+          </div>
+          {preview.imageUrl && (
+            <img
+              src={preview.imageUrl}
+              alt=""
+              loading="lazy"
+              referrerPolicy="no-referrer"
+              className="h-20 w-20 shrink-0 self-center object-cover"
+              onError={(e) => { e.currentTarget.style.display = "none"; }}
+            />
+          )}
+        </a>
+      ))}
+    </div>
+  );
+}
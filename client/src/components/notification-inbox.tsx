@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Bell, CheckCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { NotificationWithContext } from "@shared/schema";
+
+interface InboxData {
+  notifications: NotificationWithContext[];
+  unreadCount: number;
+}
+
+// Where a notification leads: a conversation, and the message in it if there is one
+export interface NotificationTarget {
+  channelId: number | null;
+  dmUserId: number | null;
+  messageId: number | null;
+}
+
+interface NotificationInboxProps {
+  onOpen: (target: NotificationTarget) => void;
+}
+
+const INBOX_KEY = ["/api/notifications"];
+
+export function notificationTitle(notification: NotificationWithContext) {
+  const actor = notification.actor?.displayName ?? "Someone";
+  const where = notification.channel ? ` in #${notification.channel.name}` : "";
+  switch (notification.type) {
+    case "mention": return `${actor} mentioned you${where}`;
+    case "direct_message": return `${actor} sent you a message`;
+    case "thread_reply": return `${actor} replied to a thread${where}`;
+    case "action_item": return `You have an action item${where}`;
+    case "meeting_notes": return `${actor} generated meeting notes${where}`;
+    case "reminder": return `Reminder about a message${where}`;
+  }
+}
+
+function browserNotificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * The bell in the sidebar header and its inbox. New notifications arrive over the
+ * socket: while the tab is visible they show as a toast, otherwise as a browser
+ * notification if the user has allowed them.
+ */
+export function NotificationInbox({ onOpen }: NotificationInboxProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [permission, setPermission] = useState(() =>
+    browserNotificationsSupported() ? Notification.permission : "denied"
+  );
+
+  const { data } = useQuery<InboxData>({
+    queryKey: INBOX_KEY,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const openTarget = (notification: NotificationWithContext) => {
+    onOpen({
+      channelId: notification.channelId,
+      dmUserId: notification.channelId ? null : notification.actorId,
+      messageId: notification.messageId,
+    });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INBOX_KEY });
+    },
+  });
+
+  // A mention can replace an earlier notification about the same message, so match on id
+  useWebSocketEvent('notification', (event) => {
+    const notification = event.notification as NotificationWithContext;
+    queryClient.setQueryData<InboxData>(INBOX_KEY, (current) => {
+      if (!current) return current;
+      const existing = current.notifications.find(item => item.id === notification.id);
+      return {
+        notifications: [notification, ...current.notifications.filter(item => item.id !== notification.id)],
+        unreadCount: current.unreadCount + (existing && !existing.readAt ? 0 : 1),
+      };
+    });
+
+    const title = notificationTitle(notification);
+    if (document.visibilityState === "visible") {
+      toast({ title, description: notification.preview });
+    } else if (browserNotificationsSupported() && Notification.permission === "granted") {
+      const browserNotification = new Notification(title, {
+        body: notification.preview,
+        tag: `notification-${notification.id}`,
+      });
+      browserNotification.onclick = () => {
+        window.focus();
+        openTarget(notification);
+        markReadMutation.mutate([notification.id]);
+      };
+    }
+  });
+
+  useWebSocketEvent('notifications_read', () => {
+    queryClient.invalidateQueries({ queryKey: INBOX_KEY });
+  });
+
+  const requestPermission = async () => {
+    if (!browserNotificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8 text-slate-300 hover:text-white">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0 bg-slate-900 border-slate-700">
+        <div className="flex items-center justify-between border-b border-slate-700 px-3 py-2">
+          <span className="text-sm font-semibold text-white">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => markReadMutation.mutate(undefined)}
+            disabled={unreadCount === 0 || markReadMutation.isPending}
+            className="h-auto p-1 text-xs text-slate-400 hover:text-white"
+          >
+            <CheckCheck className="h-3 w-3 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+
+        {permission === "default" && (
+          <button
+            onClick={requestPermission}
+            className="w-full border-b border-slate-700 px-3 py-2 text-left text-xs text-blue-400 hover:bg-slate-800"
+          >
+            Enable desktop notifications for when this tab is in the background
+          </button>
+        )}
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="px-3 py-6 text-center text-sm text-slate-400">You're all caught up</div>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => {
+                  if (!notification.readAt) markReadMutation.mutate([notification.id]);
+                  openTarget(notification);
+                  setIsOpen(false);
+                }}
+                className={`flex w-full items-start space-x-2 px-3 py-2 text-left hover:bg-slate-800 ${
+                  notification.readAt ? '' : 'bg-slate-800/60'
+                }`}
+              >
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={notification.actor?.avatar || undefined} />
+                  <AvatarFallback className="bg-slate-600 text-[10px] text-white">
+                    {notification.actor?.displayName.charAt(0).toUpperCase() ?? "?"}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-xs ${notification.readAt ? 'text-slate-400' : 'font-semibold text-white'}`}>
+                    {notificationTitle(notification)}
+                  </p>
+                  <p className="truncate text-xs text-slate-400">{notification.preview}</p>
+                  <p className="text-[10px] text-slate-500">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!notification.readAt && <span className="mt-1 h-2 w-2 rounded-full bg-blue-500" />}
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
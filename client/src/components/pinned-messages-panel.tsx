@@ -0,0 +1,127 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Pin, PinOff, CornerDownRight } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { ChannelWithAccess } from "@shared/schema";
+import type { PinnedMessageWithContext } from "@/types/message";
+import { MessageContent } from "./message-content";
+import { MessageAttachments } from "./message-attachments";
+
+interface PinnedMessagesPanelProps {
+  channel: ChannelWithAccess;
+  pins: PinnedMessageWithContext[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  knownUsernames: Set<string>;
+  currentUsername?: string;
+  onJump: (pin: PinnedMessageWithContext) => void;
+  onUnpin: (messageId: number) => void;
+}
+
+export function usePinnedMessages(channelId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/channels", channelId, "pins"];
+
+  useWebSocketEvent('pins_updated', (event) => {
+    if (event.channelId === channelId) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  // Edits to a pinned message show up in the drawer too
+  useWebSocketEvent('message_updated', (event) => {
+    const pins = queryClient.getQueryData<PinnedMessageWithContext[]>(queryKey);
+    if (pins?.some(pin => pin.messageId === event.message.id)) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  return useQuery<PinnedMessageWithContext[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/channels/${channelId}/pins`);
+      if (!response.ok) throw new Error('Failed to fetch pinned messages');
+      return response.json();
+    },
+    enabled: !!channelId,
+  });
+}
+
+// Open from the channel header; the pins are loaded by the chat area, which also marks pinned messages
+export function PinnedMessagesPanel({ channel, pins, open, onOpenChange, knownUsernames, currentUsername, onJump, onUnpin }: PinnedMessagesPanelProps) {
+  const canUnpin = channel.permissions.includes("pin_message");
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-slate-900 border-slate-700 text-white overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center space-x-2">
+            <Pin className="h-4 w-4" />
+            <span>Pinned in # {channel.name}</span>
+          </SheetTitle>
+          <SheetDescription className="text-slate-400">
+            {pins.length} pinned {pins.length === 1 ? "message" : "messages"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {!pins.length && (
+            <p className="text-sm text-slate-400">
+              Nothing is pinned yet. Pin a message to keep it here for everyone in the channel.
+            </p>
+          )}
+          {pins.map(pin => (
+            <div key={pin.id} className="group rounded-lg border border-slate-700 bg-slate-800 p-3">
+              <div className="flex items-center space-x-2 mb-1">
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={pin.message.author.avatar || undefined} />
+                  <AvatarFallback className="bg-slate-600 text-[10px] text-white">
+                    {pin.message.author.displayName.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-medium text-white">{pin.message.author.displayName}</span>
+                <span className="text-xs text-slate-400">
+                  {formatDistanceToNow(new Date(pin.message.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+              <div className="text-sm text-slate-300">
+                <MessageContent content={pin.message.content} knownUsernames={knownUsernames} currentUsername={currentUsername} />
+              </div>
+              {pin.message.attachments && <MessageAttachments attachments={pin.message.attachments} />}
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-slate-500">
+                  Pinned by {pin.pinner.displayName} {formatDistanceToNow(new Date(pin.createdAt), { addSuffix: true })}
+                </span>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onJump(pin)}
+                    className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                  >
+                    <CornerDownRight className="h-3 w-3 mr-1" />
+                    Jump
+                  </Button>
+                  {canUnpin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onUnpin(pin.messageId)}
+                      className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                    >
+                      <PinOff className="h-3 w-3 mr-1" />
+                      Unpin
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
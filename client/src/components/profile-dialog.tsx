@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ENDPOINTS } from "@/config";
+import type { UpdateProfile, User } from "@shared/schema";
+
+// Matches the server's limit, so oversized files are caught before uploading
+const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
+
+interface ProfileDialogProps {
+  user: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Editing the current user's own profile; the avatar uploads as soon as it's picked
+export function ProfileDialog({ user, open, onOpenChange }: ProfileDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [displayName, setDisplayName] = useState("");
+  const [email, setEmail] = useState("");
+  const [title, setTitle] = useState("");
+  const [pronouns, setPronouns] = useState("");
+  const [timezone, setTimezone] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDisplayName(user.displayName);
+    setEmail(user.email);
+    setTitle(user.title ?? "");
+    setPronouns(user.pronouns ?? "");
+    setTimezone(user.timezone ?? "");
+  }, [open, user]);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: async (update: UpdateProfile) => {
+      const res = await apiRequest("PATCH", "/api/users/me", update);
+      return await res.json() as User;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([API_ENDPOINTS.USER], updated);
+      onOpenChange(false);
+      toast({ title: "Profile updated" });
+    },
+    onError: showError("Couldn't update profile"),
+  });
+
+  // FormData can't go through apiRequest, which always sends JSON
+  const avatarMutation = useMutation({
+    mutationFn: async (file: File | null) => {
+      const formData = new FormData();
+      if (file) formData.append("avatar", file);
+      const res = await fetch("/api/users/me/avatar", {
+        method: file ? "POST" : "DELETE",
+        body: file ? formData : undefined,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      return await res.json() as User;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([API_ENDPOINTS.USER], updated);
+    },
+    onError: showError("Couldn't update avatar"),
+  });
+
+  const handleAvatarPicked = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast({ title: "Image too large", description: "Avatars can be at most 5 MB", variant: "destructive" });
+      return;
+    }
+    avatarMutation.mutate(file);
+  };
+
+  const handleSave = () => {
+    profileMutation.mutate({ displayName, email, title, pronouns, timezone });
+  };
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Edit profile</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            This is how other people in the workspace see you
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-4">
+            <Avatar className="h-16 w-16">
+              <AvatarImage src={user.avatar ?? undefined} />
+              <AvatarFallback className="bg-slate-600 text-white text-xl">
+                {user.displayName.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={avatarMutation.isPending}
+              >
+                {avatarMutation.isPending ? "Uploading..." : "Upload photo"}
+              </Button>
+              {user.avatar && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => avatarMutation.mutate(null)}
+                  disabled={avatarMutation.isPending}
+                  className="text-slate-300 hover:text-white"
+                >
+                  Remove
+                </Button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleAvatarPicked}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="profile-display-name" className="text-slate-300">Display name</Label>
+            <Input
+              id="profile-display-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={80}
+              className="bg-slate-800 border-slate-600 text-white"
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <Label htmlFor="profile-title" className="text-slate-300">Title</Label>
+              <Input
+                id="profile-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Product Designer"
+                className="bg-slate-800 border-slate-600 text-white"
+              />
+            </div>
+            <div className="w-32">
+              <Label htmlFor="profile-pronouns" className="text-slate-300">Pronouns</Label>
+              <Input
+                id="profile-pronouns"
+                value={pronouns}
+                onChange={(e) => setPronouns(e.target.value)}
+                maxLength={40}
+                placeholder="e.g. they/them"
+                className="bg-slate-800 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="profile-email" className="text-slate-300">Email</Label>
+            <Input
+              id="profile-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-slate-800 border-slate-600 text-white"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="profile-timezone" className="text-slate-300">Timezone</Label>
+              {timezone !== browserTimezone && (
+                <button
+                  onClick={() => setTimezone(browserTimezone)}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Use {browserTimezone}
+                </button>
+              )}
+            </div>
+            <Input
+              id="profile-timezone"
+              list="profile-timezones"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g. Europe/Berlin"
+              className="bg-slate-800 border-slate-600 text-white"
+            />
+            <datalist id="profile-timezones">
+              {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            className="text-slate-300 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={profileMutation.isPending || !displayName.trim()}>
+            {profileMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
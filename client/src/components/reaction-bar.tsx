@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SmilePlus } from "lucide-react";
+import type { ReactionSummary } from "@shared/schema";
+
+const PICKER_EMOJI = [
+  "👍", "👎", "❤️", "😂", "🎉", "🙏", "👀", "🚀",
+  "✅", "❌", "🔥", "💯", "🤔", "😮", "😢", "👏",
+];
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  className?: string;
+}
+
+export function EmojiPicker({ onSelect, className }: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={className ?? "text-xs text-slate-400 hover:text-white h-auto p-1"}
+        >
+          <SmilePlus className="h-3 w-3 mr-1" />
+          React
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2 bg-slate-900 border-slate-700">
+        <div className="grid grid-cols-8 gap-1">
+          {PICKER_EMOJI.map(emoji => (
+            <button
+              key={emoji}
+              className="h-8 w-8 rounded hover:bg-slate-700 text-lg"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  currentUserId?: number;
+  userNames?: Map<number, string>;
+  onToggle: (emoji: string, hasReacted: boolean) => void;
+}
+
+export function ReactionBar({ reactions, currentUserId, userNames, onToggle }: ReactionBarProps) {
+  if (!reactions.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-2">
+      {reactions.map(reaction => {
+        const hasReacted = currentUserId !== undefined && reaction.userIds.includes(currentUserId);
+        const names = reaction.userIds
+          .map(id => id === currentUserId ? "You" : userNames?.get(id))
+          .filter(Boolean);
+
+        return (
+          <Tooltip key={reaction.emoji}>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => onToggle(reaction.emoji, hasReacted)}
+                className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                  hasReacted
+                    ? 'bg-blue-900/40 border-blue-500 text-blue-200'
+                    : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-slate-400'
+                }`}
+              >
+                <span>{reaction.emoji}</span>
+                <span>{reaction.count}</span>
+              </button>
+            </TooltipTrigger>
+            {names.length > 0 && (
+              <TooltipContent>
+                {names.join(", ")} reacted with {reaction.emoji}
+              </TooltipContent>
+            )}
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, BookmarkCheck, BookmarkX, Clock } from "lucide-react";
+import { REMINDER_PRESETS, formatUpcoming } from "@/lib/time-presets";
+import type { SavedItemWithMessage } from "@/types/message";
+import { pendingReminder, useSavedItemActions } from "./saved-view";
+
+interface SaveMessageMenuProps {
+  messageId: number;
+  // The message's open saved item, if it has one
+  savedItem?: SavedItemWithMessage;
+}
+
+// The Save action on a message: save it, set or change a reminder, or remove it from saved
+export function SaveMessageMenu({ messageId, savedItem }: SaveMessageMenuProps) {
+  const { save, update, remove } = useSavedItemActions();
+  const reminder = savedItem ? pendingReminder(savedItem) : null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`text-xs h-auto p-1 ${savedItem ? 'text-blue-400 hover:text-blue-300' : 'text-slate-400 hover:text-white'}`}
+          title={reminder ? `Reminder ${formatUpcoming(reminder)}` : undefined}
+        >
+          {savedItem ? <BookmarkCheck className="h-3 w-3 mr-1" /> : <Bookmark className="h-3 w-3 mr-1" />}
+          {savedItem ? "Saved" : "Save"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {!savedItem && (
+          <DropdownMenuItem onClick={() => save.mutate({ messageId })}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save for later
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Clock className="h-4 w-4 mr-2" />
+            {reminder ? "Change reminder" : "Remind me"}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {REMINDER_PRESETS.map(preset => (
+              <DropdownMenuItem
+                key={preset.label}
+                onClick={() => save.mutate({ messageId, remindAt: preset.at(new Date()) })}
+              >
+                {preset.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        {savedItem && reminder && (
+          <DropdownMenuItem onClick={() => update.mutate({ id: savedItem.id, remindAt: null })}>
+            <Clock className="h-4 w-4 mr-2" />
+            Clear reminder
+          </DropdownMenuItem>
+        )}
+        {savedItem && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => remove.mutate(savedItem.id)}>
+              <BookmarkX className="h-4 w-4 mr-2" />
+              Remove from saved
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
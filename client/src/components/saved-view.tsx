@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, Check, Clock, CornerDownRight, Hash, RotateCcw, Trash2, User as UserIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { REMINDER_PRESETS, formatUpcoming } from "@/lib/time-presets";
+import { useToast } from "@/hooks/use-toast";
+import type { DirectMessageUser } from "@shared/schema";
+import type { SavedItemWithMessage } from "@/types/message";
+import { MessageContent } from "./message-content";
+import { MessageAttachments } from "./message-attachments";
+
+const SAVED_KEY = ["/api/saved"];
+
+// The open saved items, or the completed ones; both refresh when any of the user's tabs changes them
+export function useSavedItems({ completed = false }: { completed?: boolean } = {}) {
+  const queryClient = useQueryClient();
+
+  useWebSocketEvent('saved_items_updated', () => {
+    queryClient.invalidateQueries({ queryKey: SAVED_KEY });
+  });
+
+  return useQuery<SavedItemWithMessage[]>({
+    queryKey: completed ? [...SAVED_KEY, "completed"] : SAVED_KEY,
+    queryFn: async () => {
+      const response = await fetch(`/api/saved${completed ? "?completed=true" : ""}`);
+      if (!response.ok) throw new Error('Failed to fetch saved items');
+      return response.json();
+    },
+  });
+}
+
+// Saving a message, and snoozing, completing or removing a saved one
+export function useSavedItemActions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: SAVED_KEY });
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update saved items",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const save = useMutation({
+    mutationFn: async ({ messageId, remindAt }: { messageId: number; remindAt?: Date | null }) => {
+      await apiRequest("POST", "/api/saved", { messageId, remindAt });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: number; remindAt?: Date | null; completed?: boolean }) => {
+      await apiRequest("PATCH", `/api/saved/${id}`, changes);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { save, update, remove };
+}
+
+// A reminder that hasn't fired yet
+export function pendingReminder(item: Pick<SavedItemWithMessage, "remindAt" | "remindedAt">) {
+  return item.remindAt && !item.remindedAt ? new Date(item.remindAt) : null;
+}
+
+interface SavedViewProps {
+  onOpen: (item: SavedItemWithMessage) => void;
+}
+
+/**
+ * Everything the user saved for later, shown in place of a conversation. Open items
+ * come soonest reminder first; completing one moves it to the completed tab.
+ */
+export function SavedView({ onOpen }: SavedViewProps) {
+  const { user } = useAuth();
+  const [showCompleted, setShowCompleted] = useState(false);
+  const { data: items = [], isLoading } = useSavedItems({ completed: showCompleted });
+  const { update, remove } = useSavedItemActions();
+
+  const { data: dmUsers = [] } = useQuery<DirectMessageUser[]>({
+    queryKey: ["/api/direct-message-users"],
+  });
+  const knownUsernames = new Set(dmUsers.map(dmUser => dmUser.username.toLowerCase()));
+  if (user) knownUsernames.add(user.username.toLowerCase());
+
+  const conversationName = (item: SavedItemWithMessage) => {
+    if (item.channel) return item.channel.name;
+    const otherUserId = item.message.authorId === user?.id ? item.message.recipientId : item.message.authorId;
+    return dmUsers.find(dmUser => dmUser.id === otherUserId)?.displayName ?? "Direct message";
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-slate-800 min-w-0">
+      <div className="border-b border-slate-700 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Bookmark className="h-5 w-5 text-blue-400" />
+            <h2 className="text-lg font-semibold text-white">Saved items</h2>
+          </div>
+          <div className="flex items-center rounded-md bg-slate-900 p-0.5">
+            {([false, true] as const).map(completed => (
+              <button
+                key={String(completed)}
+                onClick={() => setShowCompleted(completed)}
+                className={`px-3 py-1 rounded text-xs transition-colors ${
+                  showCompleted === completed ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {completed ? "Completed" : "In progress"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {!isLoading && !items.length && (
+          <p className="text-sm text-slate-400">
+            {showCompleted
+              ? "Nothing completed yet."
+              : "Nothing saved. Save a message to come back to it later, with a reminder if you like."}
+          </p>
+        )}
+        {items.map(item => {
+          const reminder = pendingReminder(item);
+          return (
+            <div key={item.id} className="rounded-lg border border-slate-700 bg-slate-900/60 p-4">
+              <div className="flex items-center text-xs text-slate-400 mb-2 space-x-3">
+                <span className="flex items-center">
+                  {item.channel ? <Hash className="h-3 w-3 mr-0.5" /> : <UserIcon className="h-3 w-3 mr-0.5" />}
+                  {conversationName(item)}
+                </span>
+                {reminder && (
+                  <span className="flex items-center text-yellow-300">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Reminder {formatUpcoming(reminder)}
+                  </span>
+                )}
+                {item.remindedAt && !item.completedAt && (
+                  <span className="flex items-center text-red-300">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Reminded {formatDistanceToNow(new Date(item.remindedAt), { addSuffix: true })}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2 mb-1">
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={item.message.author.avatar || undefined} />
+                  <AvatarFallback className="bg-slate-600 text-[10px] text-white">
+                    {item.message.author.displayName.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-medium text-white">{item.message.author.displayName}</span>
+                <span className="text-xs text-slate-400">
+                  {formatDistanceToNow(new Date(item.message.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+              <div className="text-sm text-slate-300">
+                <MessageContent content={item.message.content} knownUsernames={knownUsernames} currentUsername={user?.username} />
+              </div>
+              {item.message.attachments && <MessageAttachments attachments={item.message.attachments} />}
+
+              <div className="flex items-center mt-3 space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onOpen(item)}
+                  className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                >
+                  <CornerDownRight className="h-3 w-3 mr-1" />
+                  Open
+                </Button>
+                {!item.completedAt && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-xs text-slate-400 hover:text-white h-auto p-1">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {reminder ? "Snooze" : "Remind me"}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuLabel>Remind me</DropdownMenuLabel>
+                      {REMINDER_PRESETS.map(preset => (
+                        <DropdownMenuItem
+                          key={preset.label}
+                          onClick={() => update.mutate({ id: item.id, remindAt: preset.at(new Date()) })}
+                        >
+                          {preset.label}
+                        </DropdownMenuItem>
+                      ))}
+                      {reminder && (
+                        <DropdownMenuItem onClick={() => update.mutate({ id: item.id, remindAt: null })}>
+                          Clear reminder
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update.mutate({ id: item.id, completed: !item.completedAt })}
+                  className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                  disabled={update.isPending}
+                >
+                  {item.completedAt ? <RotateCcw className="h-3 w-3 mr-1" /> : <Check className="h-3 w-3 mr-1" />}
+                  {item.completedAt ? "Mark as not done" : "Mark as done"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove.mutate(item.id)}
+                  className="text-xs text-slate-400 hover:text-red-400 h-auto p-1"
+                  disabled={remove.isPending}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
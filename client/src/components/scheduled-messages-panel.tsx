@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AlertTriangle, Clock, Pencil, Trash2 } from "lucide-react";
+import { addHours } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { formatUpcoming, toDateTimeInputValue } from "@/lib/time-presets";
+import { useToast } from "@/hooks/use-toast";
+import type { ScheduledMessage } from "@shared/schema";
+
+const SCHEDULED_KEY = ["/api/scheduled-messages"];
+
+// The conversation a composer posts to; parentMessageId is set in a thread
+export interface ScheduleTarget {
+  channelId: number | null;
+  recipientId: number | null;
+  parentMessageId: number | null;
+}
+
+// The user's scheduled messages for one composer, refreshed when any of their tabs changes them
+// and when the scheduler sends or fails one
+export function useScheduledMessages(target: ScheduleTarget) {
+  const queryClient = useQueryClient();
+
+  useWebSocketEvent('scheduled_messages_updated', () => {
+    queryClient.invalidateQueries({ queryKey: SCHEDULED_KEY });
+  });
+
+  const { data: scheduled = [] } = useQuery<ScheduledMessage[]>({
+    queryKey: SCHEDULED_KEY,
+  });
+
+  return scheduled.filter(message =>
+    (target.channelId ? message.channelId === target.channelId : message.recipientId === target.recipientId) &&
+    (message.parentMessageId ?? null) === target.parentMessageId
+  );
+}
+
+interface ScheduledMessagesPanelProps {
+  messages: ScheduledMessage[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lists what's waiting to go out from a composer, where each message can be edited, rescheduled or cancelled
+export function ScheduledMessagesPanel({ messages, open, onOpenChange }: ScheduledMessagesPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ id: number; content: string; sendAt: string } | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update scheduled message",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, content, sendAt }: { id: number; content: string; sendAt: Date }) => {
+      await apiRequest("PATCH", `/api/scheduled-messages/${id}`, { content, sendAt });
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: SCHEDULED_KEY });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/scheduled-messages/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULED_KEY });
+    },
+    onError,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-slate-900 border-slate-700 text-white overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center space-x-2">
+            <Clock className="h-4 w-4" />
+            <span>Scheduled messages</span>
+          </SheetTitle>
+          <SheetDescription className="text-slate-400">
+            {messages.length} waiting to be sent here
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {!messages.length && (
+            <p className="text-sm text-slate-400">Nothing scheduled. Use the clock beside Send to send a message later.</p>
+          )}
+          {messages.map(message => editing?.id === message.id ? (
+            <form
+              key={message.id}
+              className="rounded-lg border border-blue-500 bg-slate-800 p-3 space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateMutation.mutate({ id: message.id, content: editing.content, sendAt: new Date(editing.sendAt) });
+              }}
+            >
+              <Textarea
+                value={editing.content}
+                onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                className="bg-slate-900 border-slate-700 text-white"
+                rows={3}
+              />
+              <Input
+                type="datetime-local"
+                value={editing.sendAt}
+                min={toDateTimeInputValue(new Date())}
+                onChange={(e) => setEditing({ ...editing, sendAt: e.target.value })}
+                className="bg-slate-900 border-slate-700 text-white"
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(null)} className="text-slate-400 hover:text-white">
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  size="sm"
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                  disabled={!editing.content.trim() || !editing.sendAt || updateMutation.isPending}
+                >
+                  Save
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div key={message.id} className="rounded-lg border border-slate-700 bg-slate-800 p-3">
+              {message.status === "failed" ? (
+                <div className="flex items-center text-xs text-red-400 mb-1">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Not sent: {message.error}. Edit it to try again.
+                </div>
+              ) : (
+                <div className="flex items-center text-xs text-slate-400 mb-1">
+                  <Clock className="h-3 w-3 mr-1" />
+                  Sends {formatUpcoming(new Date(message.sendAt))}
+                </div>
+              )}
+              <p className="text-sm text-slate-300 whitespace-pre-wrap break-words">{message.content}</p>
+              <div className="flex items-center justify-end mt-2 space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing({
+                    id: message.id,
+                    content: message.content,
+                    // A failed message's time has passed, so suggest an hour from now instead
+                    sendAt: toDateTimeInputValue(new Date(message.sendAt) > new Date() ? new Date(message.sendAt) : addHours(new Date(), 1)),
+                  })}
+                  className="text-xs text-slate-400 hover:text-white h-auto p-1"
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(message.id)}
+                  className="text-xs text-slate-400 hover:text-red-400 h-auto p-1"
+                  disabled={cancelMutation.isPending}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Don't send
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Clock } from "lucide-react";
+import { addHours } from "date-fns";
+import { SEND_LATER_PRESETS, toDateTimeInputValue } from "@/lib/time-presets";
+
+interface SendLaterPickerProps {
+  onSchedule: (sendAt: Date) => void;
+  disabled?: boolean;
+  // Explains why scheduling isn't available, e.g. while files are attached
+  disabledReason?: string;
+}
+
+// The clock beside Send: a few common times, or any time picked in local time
+export function SendLaterPicker({ onSchedule, disabled, disabledReason }: SendLaterPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customTime, setCustomTime] = useState("");
+  const customDate = customTime ? new Date(customTime) : null;
+  const isCustomValid = !!customDate && !isNaN(customDate.getTime()) && customDate.getTime() > Date.now();
+
+  const schedule = (sendAt: Date) => {
+    onSchedule(sendAt);
+    setIsOpen(false);
+    setCustomTime("");
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) setCustomTime(toDateTimeInputValue(addHours(new Date(), 1)));
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={disabled || !!disabledReason}
+          title={disabledReason ?? "Send later"}
+          className="h-9 w-9 text-gray-500 hover:text-gray-700"
+        >
+          <Clock className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 bg-slate-900 border-slate-700">
+        <p className="text-sm font-medium text-white mb-2">Send later</p>
+        <div className="space-y-1">
+          {SEND_LATER_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => schedule(preset.at(new Date()))}
+              className="w-full rounded px-2 py-1.5 text-left text-sm text-slate-300 hover:bg-slate-800 hover:text-white"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <form
+          className="mt-3 space-y-2 border-t border-slate-700 pt-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isCustomValid) schedule(customDate);
+          }}
+        >
+          <Input
+            type="datetime-local"
+            value={customTime}
+            min={toDateTimeInputValue(new Date())}
+            onChange={(e) => setCustomTime(e.target.value)}
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={!isCustomValid}
+          >
+            Schedule
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useWebSocket, useWebSocketEvent } from "@/hooks/use-websocket";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -20,41 +21,161 @@ import {
   TrendingUp,
   Circle,
   LogOut,
+  Lock,
+  Bookmark,
   User as UserIcon
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Channel, User, InsertChannel } from "@shared/schema";
+import { NotificationInbox, type NotificationTarget } from "./notification-inbox";
+import { StatusDialog } from "./status-dialog";
+import { ProfileDialog } from "./profile-dialog";
+import { useSavedItems } from "./saved-view";
+import { API_ENDPOINTS } from "@/config";
+import type { ChannelListItem, DirectMessageUser, InsertChannel, User, UserPresence, UserProfile } from "@shared/schema";
 
 interface SidebarProps {
   selectedChannel: number | null;
   selectedDmUser: number | null;
   onChannelSelect: (channelId: number) => void;
   onDmUserSelect: (userId: number) => void;
+  onNotificationOpen: (target: NotificationTarget) => void;
+  isSavedSelected: boolean;
+  onSavedSelect: () => void;
 }
 
 export function Sidebar({ 
   selectedChannel, 
   selectedDmUser, 
   onChannelSelect, 
-  onDmUserSelect 
+  onDmUserSelect,
+  onNotificationOpen,
+  isSavedSelected,
+  onSavedSelect
 }: SidebarProps) {
   const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
   const [isChannelModalOpen, setIsChannelModalOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [isStatusDialogOpen, setIsStatusDialogOpen] = useState(false);
   const [channelName, setChannelName] = useState("");
   const [channelDescription, setChannelDescription] = useState<string>("");
   const [isPrivateChannel, setIsPrivateChannel] = useState(false);
 
-  const { data: channels = [] } = useQuery<Channel[]>({
+  const { joinChannel, leaveChannel } = useWebSocket();
+
+  const { data: channels = [] } = useQuery<ChannelListItem[]>({
     queryKey: ["/api/channels"],
   });
 
-  const { data: dmUsers = [] } = useQuery<User[]>({
+  const { data: dmUsers = [] } = useQuery<DirectMessageUser[]>({
     queryKey: ["/api/direct-message-users"],
   });
 
+  const { data: savedItems = [] } = useSavedItems();
+
+  // Listen to every joined channel so unread badges update for the ones that aren't open
+  const memberChannelIds = channels.filter(channel => channel.isMember).map(channel => channel.id).join(",");
+  useEffect(() => {
+    const channelIds = memberChannelIds ? memberChannelIds.split(",").map(Number) : [];
+    channelIds.forEach(joinChannel);
+    return () => channelIds.forEach(leaveChannel);
+  }, [memberChannelIds, joinChannel, leaveChannel]);
+
+  // Count new messages locally; the open conversation is marked read by the chat area instead
+  useWebSocketEvent('new_message', (event) => {
+    const message = event.message;
+    if (!user || message.authorId === user.id) return;
+    const isOpen = document.visibilityState === "visible" &&
+      (message.channelId ? message.channelId === selectedChannel : message.authorId === selectedDmUser);
+    if (isOpen) return;
+
+    if (message.channelId) {
+      // Thread replies only count once they're in the channel timeline
+      if (message.parentMessageId && !message.alsoSentToChannel) return;
+      queryClient.setQueryData<ChannelListItem[]>(["/api/channels"], (current) =>
+        current?.map(channel => channel.id === message.channelId && channel.isMember
+          ? { ...channel, unreadCount: channel.unreadCount + 1 }
+          : channel)
+      );
+    } else if (message.recipientId === user.id) {
+      queryClient.setQueryData<DirectMessageUser[]>(["/api/direct-message-users"], (current) =>
+        current?.map(dmUser => dmUser.id === message.authorId ? {
+          ...dmUser,
+          unreadCount: dmUser.unreadCount + 1,
+          mentionCount: dmUser.mentionCount + 1,
+        } : dmUser)
+      );
+    }
+  });
+
+  // Mentions arrive on their own, even from channels we haven't joined; DMs already badge every message.
+  // The notification inbox tells the user about them.
+  useWebSocketEvent('mention', (event) => {
+    const message = event.message;
+    if (!message.channelId) return;
+    if (document.visibilityState === "visible" && message.channelId === selectedChannel) return;
+
+    queryClient.setQueryData<ChannelListItem[]>(["/api/channels"], (current) =>
+      current?.map(channel => channel.id === message.channelId && channel.isMember
+        ? { ...channel, mentionCount: channel.mentionCount + 1 }
+        : channel)
+    );
+  });
+
+  // Our own reads (from any tab) reload the counts; the other side of a DM reading it updates its receipt
+  useWebSocketEvent('conversation_read', (event) => {
+    if (event.userId === user?.id) {
+      queryClient.invalidateQueries({
+        queryKey: event.channelId ? ["/api/channels"] : ["/api/direct-message-users"],
+        exact: true,
+      });
+    } else if (event.otherUserId === user?.id) {
+      queryClient.setQueryData<DirectMessageUser[]>(["/api/direct-message-users"], (current) =>
+        current?.map(dmUser => dmUser.id === event.userId
+          ? { ...dmUser, theirLastReadMessageId: event.lastReadMessageId }
+          : dmUser)
+      );
+    }
+  });
+
+  // Being invited to or removed from a private channel changes which channels we can see
+  useWebSocketEvent(['channel_member_added', 'channel_member_removed'], (event) => {
+    if (event.userId === user?.id) {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    }
+  });
+
+  // Status dots and custom statuses, including our own from another tab
+  useWebSocketEvent('presence_changed', (event) => {
+    const presence = event.user as UserPresence;
+    queryClient.setQueryData<DirectMessageUser[]>(["/api/direct-message-users"], (current) =>
+      current?.map(dmUser => dmUser.id === presence.id ? { ...dmUser, ...presence } : dmUser)
+    );
+    queryClient.setQueryData<User>(["/api/users", presence.id], (current) =>
+      current ? { ...current, ...presence } : current
+    );
+    if (presence.id === user?.id) {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.USER] });
+    }
+  });
+
+  // Profile edits, including our own from another tab
+  useWebSocketEvent('user_updated', (event) => {
+    const profile = event.user as UserProfile;
+    queryClient.setQueryData<DirectMessageUser[]>(["/api/direct-message-users"], (current) =>
+      current?.map(dmUser => dmUser.id === profile.id ? { ...dmUser, ...profile } : dmUser)
+    );
+    if (profile.id === user?.id) {
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.USER] });
+    }
+  });
+
+  // Renames, archiving and deletions show up for everyone who can see the channel
+  useWebSocketEvent(['channel_updated', 'channel_deleted'], () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+  });
+
   const createChannelMutation = useMutation({
     mutationFn: async (data: Omit<InsertChannel, "createdBy">) => {
       const res = await apiRequest("POST", "/api/channels", data);
@@ -128,11 +249,29 @@ export function Sidebar({
               <span className="text-xs text-slate-300">AI Brain Active</span>
             </div>
           </div>
+          <div className="ml-auto">
+            <NotificationInbox onOpen={onNotificationOpen} />
+          </div>
         </div>
       </div>
 
       {/* Navigation */}
       <div className="flex-1 overflow-y-auto p-3">
+        <div className="mb-4">
+          <button
+            onClick={onSavedSelect}
+            className={`flex items-center space-x-2 px-2 py-1 rounded text-sm w-full text-left transition-colors ${
+              isSavedSelected ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-purple-800 hover:text-white'
+            }`}
+          >
+            <Bookmark className="h-4 w-4" />
+            <span>Saved</span>
+            {savedItems.length > 0 && (
+              <span className="ml-auto text-xs text-slate-400">{savedItems.length}</span>
+            )}
+          </button>
+        </div>
+
         {/* Channels Section */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-2">
@@ -156,14 +295,15 @@ export function Sidebar({
                 className={`flex items-center space-x-2 px-2 py-1 rounded text-sm w-full text-left transition-colors ${
                   selectedChannel === channel.id
                     ? 'bg-blue-600 text-white'
-                    : 'text-slate-300 hover:bg-purple-800 hover:text-white'
-                }`}
+                    : channel.unreadCount > 0
+                      ? 'text-white font-semibold hover:bg-purple-800'
+                      : 'text-slate-300 hover:bg-purple-800 hover:text-white'
+                } ${channel.archivedAt ? 'opacity-60' : ''}`}
               >
-                <Hash className="h-4 w-4" />
+                {channel.isPrivate ? <Lock className="h-4 w-4" /> : <Hash className="h-4 w-4" />}
                 <span className="truncate">{channel.name}</span>
-                {/* Mock notification badge for some channels */}
-                {channel.name === 'project-atlas' && (
-                  <Badge variant="destructive" className="ml-auto text-xs">3</Badge>
+                {channel.mentionCount > 0 && (
+                  <Badge variant="destructive" className="ml-auto text-xs">{channel.mentionCount}</Badge>
                 )}
               </button>
             ))}
@@ -188,14 +328,18 @@ export function Sidebar({
                 className={`flex items-center space-x-2 px-2 py-1 rounded text-sm w-full text-left transition-colors ${
                   selectedDmUser === dmUser.id
                     ? 'bg-blue-600 text-white'
-                    : 'text-slate-300 hover:bg-purple-800 hover:text-white'
+                    : dmUser.unreadCount > 0
+                      ? 'text-white font-semibold hover:bg-purple-800'
+                      : 'text-slate-300 hover:bg-purple-800 hover:text-white'
                 }`}
               >
                 {getStatusIcon(dmUser.status)}
                 <span className="truncate">{dmUser.displayName}</span>
-                {/* Mock notification for some users */}
-                {dmUser.username === 'mike' && (
-                  <Badge variant="destructive" className="ml-auto text-xs">1</Badge>
+                {dmUser.statusEmoji && (
+                  <span title={dmUser.statusText ?? undefined} className="shrink-0">{dmUser.statusEmoji}</span>
+                )}
+                {dmUser.unreadCount > 0 && (
+                  <Badge variant="destructive" className="ml-auto text-xs">{dmUser.unreadCount}</Badge>
                 )}
               </button>
             ))}
@@ -229,27 +373,56 @@ export function Sidebar({
       {/* User Profile */}
       <div className="p-3 border-t border-purple-800">
         <div className="flex items-center space-x-3">
-          <Avatar className="h-8 w-8">
-            <AvatarImage src={user?.avatar} />
-            <AvatarFallback className="bg-slate-600 text-white">
-              {user?.displayName?.charAt(0).toUpperCase()}
-            </AvatarFallback>
-          </Avatar>
-          <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-white truncate">{user?.displayName}</p>
-            <p className="text-xs text-slate-300 truncate">{user?.status}</p>
-          </div>
+          <button
+            onClick={() => setIsStatusDialogOpen(true)}
+            title="Set your status"
+            className="flex flex-1 min-w-0 items-center space-x-3 rounded text-left hover:bg-purple-800"
+          >
+            <div className="relative">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={user?.avatar ?? undefined} />
+                <AvatarFallback className="bg-slate-600 text-white">
+                  {user?.displayName?.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className={`absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full border-2 border-purple-900 ${getStatusColor(user?.status ?? "offline")}`} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-white truncate">{user?.displayName}</p>
+              <p className="text-xs text-slate-300 truncate">
+                {user?.statusEmoji && <span className="mr-1">{user.statusEmoji}</span>}
+                {user?.statusText || user?.status}
+              </p>
+            </div>
+          </button>
           <Button
             variant="ghost"
             size="icon"
+            title="Edit profile"
             className="h-8 w-8 text-slate-300 hover:text-white"
-            onClick={() => logoutMutation.mutate()}
+            onClick={() => setIsProfileModalOpen(true)}
           >
             <Settings className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Log out"
+            className="h-8 w-8 text-slate-300 hover:text-white"
+            onClick={() => logoutMutation.mutate()}
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
         </div>
       </div>
 
+      {user && (
+        <>
+          <StatusDialog user={user} open={isStatusDialogOpen} onOpenChange={setIsStatusDialogOpen} />
+          <ProfileDialog user={user} open={isProfileModalOpen} onOpenChange={setIsProfileModalOpen} />
+        </>
+      )}
+
       {/* Create Channel Modal */}
       <Dialog open={isChannelModalOpen} onOpenChange={setIsChannelModalOpen}>
         <DialogContent className="bg-slate-900 border-slate-700">
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ENDPOINTS } from "@/config";
+import type { ManualStatus, UpdateStatus, User } from "@shared/schema";
+
+// "auto" lets presence decide between available, away and offline
+type StatusChoice = ManualStatus | "auto";
+
+const STATUS_CHOICES: { value: StatusChoice; label: string }[] = [
+  { value: "auto", label: "Automatic" },
+  { value: "available", label: "Available" },
+  { value: "away", label: "Away" },
+  { value: "busy", label: "Busy" },
+];
+
+// Minutes until the status clears itself; "never" keeps it until changed
+const CLEAR_AFTER_CHOICES = [
+  { value: "never", label: "Don't clear" },
+  { value: "30", label: "30 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "240", label: "4 hours" },
+  { value: "1440", label: "Today" },
+];
+
+interface StatusDialogProps {
+  user: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The current user's manual status and custom status text, with an optional expiry
+export function StatusDialog({ user, open, onOpenChange }: StatusDialogProps) {
+  const { toast } = useToast();
+  const [choice, setChoice] = useState<StatusChoice>("auto");
+  const [emoji, setEmoji] = useState("");
+  const [text, setText] = useState("");
+  const [clearAfter, setClearAfter] = useState("never");
+
+  useEffect(() => {
+    if (!open) return;
+    setChoice(user.statusOverride ?? "auto");
+    setEmoji(user.statusEmoji ?? "");
+    setText(user.statusText ?? "");
+    setClearAfter("never");
+  }, [open, user]);
+
+  const statusMutation = useMutation({
+    mutationFn: async (update: UpdateStatus) => {
+      const res = await apiRequest("PATCH", "/api/users/me/status", update);
+      return await res.json() as User;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([API_ENDPOINTS.USER], updated);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expiresAt = (minutes: string) => {
+    if (minutes === "never") return null;
+    if (minutes === "1440") {
+      const endOfDay = new Date();
+      endOfDay.setHours(23, 59, 59, 999);
+      return endOfDay;
+    }
+    return new Date(Date.now() + Number(minutes) * 60_000);
+  };
+
+  const handleSave = () => {
+    statusMutation.mutate({
+      statusOverride: choice === "auto" ? null : choice,
+      statusEmoji: emoji,
+      statusText: text,
+      statusExpiresAt: expiresAt(clearAfter),
+    });
+  };
+
+  const handleClear = () => {
+    statusMutation.mutate({ statusOverride: null, statusEmoji: null, statusText: null, statusExpiresAt: null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Set your status</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Automatic shows you as available while you're active and away when you're idle
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex space-x-2">
+            <div className="w-20">
+              <Label htmlFor="status-emoji" className="text-slate-300">Emoji</Label>
+              <Input
+                id="status-emoji"
+                value={emoji}
+                onChange={(e) => setEmoji(e.target.value)}
+                maxLength={16}
+                placeholder="🙂"
+                className="bg-slate-800 border-slate-600 text-white text-center"
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="status-text" className="text-slate-300">What's your status?</Label>
+              <Input
+                id="status-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={100}
+                placeholder="In a meeting"
+                className="bg-slate-800 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <Label className="text-slate-300">Show me as</Label>
+              <Select value={choice} onValueChange={(value) => setChoice(value as StatusChoice)}>
+                <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_CHOICES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <Label className="text-slate-300">Clear after</Label>
+              <Select value={clearAfter} onValueChange={setClearAfter}>
+                <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLEAR_AFTER_CHOICES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={handleClear}
+            disabled={statusMutation.isPending}
+            className="text-slate-300 hover:text-white"
+          >
+            Clear status
+          </Button>
+          <Button onClick={handleSave} disabled={statusMutation.isPending}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { Button } from "@/components/ui/button";
+import { MessageInput } from "./message-input";
+import { Sparkles, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MessageWithAuthor } from "@/types/message";
+
+interface ThreadPanelProps {
+  rootId: number;
+  channelId: number | null;
+  recipientId: number | null;
+  renderMessage: (message: MessageWithAuthor) => JSX.Element;
+  // Passed through to the composer, e.g. for archived channels
+  disabledReason?: string;
+  onClose: () => void;
+}
+
+interface ThreadSummaryResult {
+  summary: string;
+  keyPoints: string[];
+  actionItems: string[];
+  openQuestions: string[];
+}
+
+export function ThreadPanel({ rootId, channelId, recipientId, renderMessage, disabledReason, onClose }: ThreadPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const rootKey = ["/api/messages", rootId];
+  const repliesKey = ["/api/messages", rootId, "thread"];
+
+  const { data: root } = useQuery<MessageWithAuthor>({
+    queryKey: rootKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/messages/${rootId}`);
+      if (!response.ok) throw new Error('Failed to fetch message');
+      return response.json();
+    },
+  });
+
+  // Refetched whenever the panel opens, since live updates only arrive while it's open
+  const { data: replies = [], isLoading } = useQuery<MessageWithAuthor[]>({
+    queryKey: repliesKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/messages/${rootId}/thread`);
+      if (!response.ok) throw new Error('Failed to fetch thread');
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  useWebSocketEvent('new_message', (event) => {
+    const message = { ...event.message, reactions: [] } as MessageWithAuthor;
+    if (message.parentMessageId !== rootId) return;
+    queryClient.setQueryData<MessageWithAuthor[]>(repliesKey, (current) =>
+      current && !current.some(reply => reply.id === message.id) ? [...current, message] : current
+    );
+  });
+
+  useWebSocketEvent(['message_updated', 'message_deleted', 'reaction_updated'], (event) => {
+    const updated = event.message as MessageWithAuthor;
+    if (updated.id === rootId) {
+      queryClient.setQueryData<MessageWithAuthor>(rootKey, (current) => current && { ...current, ...updated });
+    } else {
+      queryClient.setQueryData<MessageWithAuthor[]>(repliesKey, (current) =>
+        current?.map(reply => reply.id === updated.id ? { ...reply, ...updated } : reply)
+      );
+    }
+  });
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [replies.length]);
+
+  const summarizeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai/summarize-thread", { messageId: rootId });
+      return response.json() as Promise<ThreadSummaryResult>;
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to summarize thread",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // A different thread gets its own summary
+  useEffect(() => {
+    summarizeMutation.reset();
+  }, [rootId]);
+
+  const summary = summarizeMutation.data;
+
+  return (
+    <aside className="w-96 shrink-0 flex flex-col border-l border-slate-700 bg-slate-800">
+      <div className="flex items-center justify-between border-b border-slate-700 px-4 py-3">
+        <h3 className="font-semibold text-white">Thread</h3>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => summarizeMutation.mutate()}
+            disabled={summarizeMutation.isPending || replies.length === 0}
+            className="text-xs text-purple-400 hover:text-purple-300"
+          >
+            <Sparkles className="h-3 w-3 mr-1" />
+            {summarizeMutation.isPending ? "Summarizing..." : "Summarize"}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {summary && (
+          <div className="bg-purple-900/20 border border-purple-700/30 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-purple-400">Thread summary</span>
+              <button onClick={() => summarizeMutation.reset()} className="text-slate-400 hover:text-white">
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+            <p className="text-slate-300 mb-2">{summary.summary}</p>
+            {([
+              ["Key points", summary.keyPoints],
+              ["Action items", summary.actionItems],
+              ["Open questions", summary.openQuestions],
+            ] as const).map(([label, items]) => items.length > 0 && (
+              <div key={label} className="mb-2">
+                <p className="font-medium text-white">{label}</p>
+                <ul className="text-slate-300 list-disc list-inside">
+                  {items.map((item, index) => <li key={index}>{item}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {root && renderMessage(root)}
+
+        <div className="flex items-center space-x-2 px-3 text-xs text-slate-400">
+          <span>{replies.length} {replies.length === 1 ? "reply" : "replies"}</span>
+          <div className="flex-1 border-t border-slate-700" />
+        </div>
+
+        {isLoading ? (
+          <div className="px-3 text-xs text-slate-400">Loading replies...</div>
+        ) : (
+          replies.map(reply => renderMessage(reply))
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <MessageInput
+        channelId={channelId}
+        recipientId={recipientId}
+        parentMessageId={rootId}
+        disabledReason={disabledReason}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Clock, Mail, MessageSquare } from "lucide-react";
+import type { UserProfile } from "@shared/schema";
+
+interface UserProfileCardProps {
+  userId: number;
+  // Opens a DM with the user; the button is hidden for yourself or without this
+  onMessage?: (userId: number) => void;
+  children: ReactNode;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  available: "bg-green-400",
+  away: "bg-yellow-400",
+  busy: "bg-red-400",
+};
+
+function localTime(timezone: string) {
+  try {
+    return new Intl.DateTimeFormat(undefined, { timeZone: timezone, hour: "numeric", minute: "2-digit" }).format(new Date());
+  } catch {
+    return null;
+  }
+}
+
+// A user's full profile in a popover, opened by clicking `children` (e.g. their name)
+export function UserProfileCard({ userId, onMessage, children }: UserProfileCardProps) {
+  const { user: currentUser } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Same key as the DM header's query, so presence and profile updates reach both
+  const { data: profile } = useQuery<UserProfile>({
+    queryKey: ["/api/users", userId],
+    queryFn: async () => {
+      const response = await fetch(`/api/users/${userId}`);
+      if (!response.ok) throw new Error('Failed to fetch user');
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const time = profile?.timezone ? localTime(profile.timezone) : null;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align="start" className="w-72 bg-slate-900 border-slate-700 text-slate-300">
+        {!profile ? (
+          <div className="py-4 text-center text-sm text-slate-400">Loading...</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <div className="relative">
+                <Avatar className="h-14 w-14">
+                  <AvatarImage src={profile.avatar ?? undefined} />
+                  <AvatarFallback className="bg-slate-600 text-white text-lg">
+                    {profile.displayName.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className={`absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full border-2 border-slate-900 ${STATUS_COLORS[profile.status] ?? "bg-gray-400"}`} />
+              </div>
+              <div className="min-w-0">
+                <p className="font-semibold text-white truncate">
+                  {profile.displayName}
+                  {profile.pronouns && <span className="ml-1 text-xs font-normal text-slate-400">({profile.pronouns})</span>}
+                </p>
+                <p className="text-xs text-slate-400 truncate">@{profile.username}</p>
+                {profile.title && <p className="text-xs text-slate-300 truncate">{profile.title}</p>}
+              </div>
+            </div>
+
+            {(profile.statusEmoji || profile.statusText) && (
+              <p className="text-sm">
+                {profile.statusEmoji && <span className="mr-1">{profile.statusEmoji}</span>}
+                {profile.statusText}
+              </p>
+            )}
+
+            <div className="space-y-1 text-xs">
+              {time && (
+                <p className="flex items-center">
+                  <Clock className="h-3 w-3 mr-2" />
+                  {time} local time
+                </p>
+              )}
+              <p className="flex items-center">
+                <Mail className="h-3 w-3 mr-2" />
+                <a href={`mailto:${profile.email}`} className="truncate hover:text-white">{profile.email}</a>
+              </p>
+            </div>
+
+            {onMessage && profile.id !== currentUser?.id && (
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={() => {
+                  setIsOpen(false);
+                  onMessage(profile.id);
+                }}
+              >
+                <MessageSquare className="h-3 w-3 mr-2" />
+                Message
+              </Button>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, type RefObject } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { MessageWithAuthor } from "@/types/message";
+
+// Scrolling settles for this long (in ms) before the read pointer is sent
+const MARK_READ_DELAY_MS = 500;
+
+/**
+ * Moves the user's read pointer up to the newest message that has scrolled into
+ * view in `containerRef`, as messages arrive and as the user scrolls. Nothing is
+ * marked while the tab is hidden, and the pointer only ever moves forward.
+ *
+ * Returns a callback to hook up to the container's scroll handler.
+ */
+export function useMarkAsRead(readUrl: string | null, containerRef: RefObject<HTMLElement>, messages: MessageWithAuthor[]) {
+  const lastMarkedRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    lastMarkedRef.current = 0;
+  }, [readUrl]);
+
+  const markVisibleRead = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      const container = containerRef.current;
+      if (!readUrl || !container || document.visibilityState !== "visible") return;
+
+      const bottom = container.getBoundingClientRect().bottom;
+      const lastSeen = [...messages].reverse().find(message => {
+        const element = document.getElementById(`message-${message.id}`);
+        return !!element && element.getBoundingClientRect().top < bottom;
+      });
+      if (!lastSeen || lastSeen.id <= lastMarkedRef.current) return;
+
+      lastMarkedRef.current = lastSeen.id;
+      apiRequest("POST", readUrl, { messageId: lastSeen.id }).catch(error => {
+        console.error("[Client] Failed to mark conversation as read:", error);
+      });
+    }, MARK_READ_DELAY_MS);
+  }, [readUrl, containerRef, messages]);
+
+  // Messages arriving while the user is at the bottom, or coming back to the tab, count as reading them
+  useEffect(() => {
+    markVisibleRead();
+    document.addEventListener("visibilitychange", markVisibleRead);
+    return () => {
+      document.removeEventListener("visibilitychange", markVisibleRead);
+      clearTimeout(timerRef.current);
+    };
+  }, [markVisibleRead]);
+
+  return markVisibleRead;
+}
@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { useInfiniteQuery, type InfiniteData, type QueryClient, type QueryKey } from "@tanstack/react-query";
+import type { MessagePage, MessagePageParam, MessageWithAuthor } from "@/types/message";
+
+const PAGE_SIZE = 50;
+
+export type MessageHistoryData = InfiniteData<MessagePage, MessagePageParam>;
+
+/**
+ * Loads a conversation from its newest page and pages backwards as the user
+ * scrolls up. Given a focus message it starts from the window around that
+ * message instead, and can also page forwards back to the live end.
+ *
+ * The focused view is cached under its own key below `queryKey`, so
+ * invalidating or updating `queryKey` covers both.
+ */
+export function useMessageHistory(url: string | null, queryKey: QueryKey, focusMessageId?: number | null) {
+  const query = useInfiniteQuery<MessagePage, Error, MessageHistoryData, QueryKey, MessagePageParam>({
+    queryKey: focusMessageId ? [...queryKey, { around: focusMessageId }] : queryKey,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      Object.entries(pageParam).forEach(([key, value]) => params.set(key, String(value)));
+      const response = await fetch(`${url}?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch messages');
+      return response.json();
+    },
+    initialPageParam: focusMessageId ? { around: focusMessageId } : {},
+    getPreviousPageParam: (firstPage) =>
+      firstPage.hasOlder && firstPage.messages.length ? { before: firstPage.messages[0].id } : undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasNewer && lastPage.messages.length ? { after: lastPage.messages[lastPage.messages.length - 1].id } : undefined,
+    enabled: !!url,
+  });
+
+  const messages = useMemo(
+    () => query.data?.pages.flatMap(page => page.messages) ?? [],
+    [query.data]
+  );
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    hasOlder: query.hasPreviousPage,
+    hasNewer: query.hasNextPage,
+    isFetchingOlder: query.isFetchingPreviousPage,
+    isFetchingNewer: query.isFetchingNextPage,
+    fetchOlder: query.fetchPreviousPage,
+    fetchNewer: query.fetchNextPage,
+  };
+}
+
+// Rewrites every cached page of a conversation, including any focused view of it
+export function updateMessageHistory(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (messages: MessageWithAuthor[], page: MessagePage, index: number, pages: MessagePage[]) => MessageWithAuthor[]
+) {
+  queryClient.setQueriesData<MessageHistoryData>({ queryKey }, (data) => data && {
+    ...data,
+    pages: data.pages.map((page, index, pages) => ({ ...page, messages: update(page.messages, page, index, pages) })),
+  });
+}
+
+// Adds a newly posted message to a conversation's cache: a reply updates its root's thread
+// summary, and anything the timeline shows goes at its end when the newest page is loaded.
+// Timelines show replies also sent to the channel, and every reply in a DM conversation.
+export function appendToMessageHistory(queryClient: QueryClient, queryKey: QueryKey, message: MessageWithAuthor) {
+  const parentId = message.parentMessageId;
+  const inTimeline = !parentId || message.alsoSentToChannel || !message.channelId;
+  updateMessageHistory(queryClient, queryKey, (messages, page, index, pages) => {
+    const withSummary: MessageWithAuthor[] = !parentId ? messages : messages.map(msg => {
+      if (msg.id !== parentId) return msg;
+      const participants = msg.thread?.participants || [];
+      return {
+        ...msg,
+        thread: {
+          replyCount: (msg.thread?.replyCount || 0) + 1,
+          lastReplyAt: message.createdAt,
+          participants: participants.some(participant => participant.id === message.author.id)
+            ? participants
+            : [...participants, message.author],
+        },
+      };
+    });
+    const isNewestPage = index === pages.length - 1 && !page.hasNewer;
+    if (!inTimeline || !isNewestPage || withSummary.some(msg => msg.id === message.id)) return withSummary;
+    return [...withSummary, message];
+  });
+}
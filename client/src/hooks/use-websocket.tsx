@@ -1,99 +1,250 @@
-import { useEffect, useRef, useState } from "react";
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
 import { useAuth } from "./use-auth";
+import { queryClient } from "@/lib/queryClient";
 
 export interface WebSocketMessage {
   type: string;
   [key: string]: any;
 }
 
-export function useWebSocket() {
+type WebSocketHandler = (message: WebSocketMessage) => void;
+
+type WebSocketContextType = {
+  isConnected: boolean;
+  // Subscribe to one event type, or "*" for everything; returns an unsubscribe function
+  subscribe: (type: string, handler: WebSocketHandler) => () => void;
+  sendMessage: (message: WebSocketMessage) => void;
+  joinChannel: (channelId: number) => void;
+  leaveChannel: (channelId: number) => void;
+  sendTyping: (channelId: number, isTyping: boolean) => void;
+};
+
+const INITIAL_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+// Without any input for this long the user shows as away
+const IDLE_AFTER_MS = 5 * 60_000;
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+export const WebSocketContext = createContext<WebSocketContextType | null>(null);
+
+/**
+ * Owns the app's single WebSocket connection. It reconnects with exponential
+ * backoff, rejoins the channels components have asked for, and sends the server
+ * the sequence number of the last event it saw so anything missed while offline
+ * is replayed. If the server can't replay (it restarted, or we were gone too
+ * long) every query is refetched instead.
+ *
+ * It also tells the server when the user goes idle (no input for a while, or the
+ * tab hidden) and comes back, which is what moves them between available and away.
+ */
+export function WebSocketProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [isConnected, setIsConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  const handlersRef = useRef(new Map<string, Set<WebSocketHandler>>());
+  // Reference counted, since several components may join the same channel
+  const channelsRef = useRef(new Map<number, number>());
+  const cursorRef = useRef<{ epoch: string | null; seq: number }>({ epoch: null, seq: 0 });
+  const idleRef = useRef(false);
+
+  const dispatch = useCallback((message: WebSocketMessage) => {
+    handlersRef.current.get(message.type)?.forEach(handler => handler(message));
+    handlersRef.current.get("*")?.forEach(handler => handler(message));
+  }, []);
+
+  const sendMessage = useCallback((message: WebSocketMessage) => {
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(message));
+    }
+  }, []);
 
   useEffect(() => {
     if (!user) return;
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      // Authenticate with the server
-      ws.send(JSON.stringify({
-        type: 'auth',
-        userId: user.id
-      }));
+    let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      clearTimeout(reconnectTimer);
+      if (stopped || wsRef.current) return;
+
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      wsRef.current = ws;
+
+      // The session cookie sent with the upgrade request identifies the user
+      ws.onopen = () => {
+        setIsConnected(true);
+        reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+        ws.send(JSON.stringify({
+          type: 'resume',
+          epoch: cursorRef.current.epoch,
+          since: cursorRef.current.seq,
+          channels: Array.from(channelsRef.current.keys()),
+          idle: idleRef.current,
+        }));
+      };
+
+      ws.onmessage = (event) => {
+        let message: WebSocketMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch (error) {
+          console.error('Failed to parse WebSocket message:', error);
+          return;
+        }
+
+        if (message.type === 'resumed' || message.type === 'resync') {
+          cursorRef.current = { epoch: message.epoch, seq: message.seq };
+          if (message.type === 'resync') {
+            queryClient.invalidateQueries();
+          }
+        } else if (typeof message.seq === 'number') {
+          // Replayed events may overlap ones that were already delivered
+          if (message.seq <= cursorRef.current.seq) return;
+          cursorRef.current.seq = message.seq;
+        }
+
+        dispatch(message);
+      };
+
+      ws.onclose = () => {
+        if (wsRef.current === ws) wsRef.current = null;
+        setIsConnected(false);
+        if (stopped) return;
+
+        // Jitter keeps every tab from reconnecting at once after a server restart
+        reconnectTimer = setTimeout(connect, reconnectDelay * (0.5 + Math.random() / 2));
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
     };
 
-    ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        setLastMessage(message);
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+    // Don't wait out the backoff when the browser tells us the network is back
+    const reconnectNow = () => {
+      if (document.visibilityState === "visible" && !wsRef.current) {
+        reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+        connect();
       }
     };
 
-    ws.onclose = () => {
-      setIsConnected(false);
+    connect();
+    window.addEventListener("online", reconnectNow);
+    document.addEventListener("visibilitychange", reconnectNow);
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      window.removeEventListener("online", reconnectNow);
+      document.removeEventListener("visibilitychange", reconnectNow);
+      wsRef.current?.close();
+      wsRef.current = null;
+      // A different user must not resume this user's stream
+      cursorRef.current = { epoch: null, seq: 0 };
+    };
+  }, [user, dispatch]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const setIdle = (idle: boolean) => {
+      if (idleRef.current === idle) return;
+      idleRef.current = idle;
+      sendMessage({ type: 'presence', idle });
     };
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setIsConnected(false);
+    const handleActivity = () => {
+      clearTimeout(idleTimer);
+      if (document.visibilityState !== "visible") {
+        setIdle(true);
+        return;
+      }
+      setIdle(false);
+      idleTimer = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
     };
 
+    handleActivity();
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleActivity);
+
     return () => {
-      ws.close();
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener("visibilitychange", handleActivity);
+      idleRef.current = false;
     };
-  }, [user]);
+  }, [user, sendMessage]);
 
-  const sendMessage = (message: WebSocketMessage) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
-    }
-  };
+  const subscribe = useCallback((type: string, handler: WebSocketHandler) => {
+    const handlers = handlersRef.current;
+    if (!handlers.has(type)) handlers.set(type, new Set());
+    handlers.get(type)!.add(handler);
+    return () => {
+      handlers.get(type)?.delete(handler);
+    };
+  }, []);
 
-  const joinChannel = (channelId: number) => {
+  const joinChannel = useCallback((channelId: number) => {
+    const channels = channelsRef.current;
+    channels.set(channelId, (channels.get(channelId) || 0) + 1);
     sendMessage({ type: 'join_channel', channelId });
-  };
+  }, [sendMessage]);
 
-  const leaveChannel = (channelId: number) => {
-    sendMessage({ type: 'leave_channel', channelId });
-  };
-
-  const sendTyping = (channelId: number, isTyping: boolean) => {
-    if (user) {
-      sendMessage({ 
-        type: 'typing', 
-        channelId, 
-        userId: user.id, 
-        isTyping 
-      });
+  const leaveChannel = useCallback((channelId: number) => {
+    const channels = channelsRef.current;
+    const count = (channels.get(channelId) || 0) - 1;
+    if (count > 0) {
+      channels.set(channelId, count);
+      return;
     }
-  };
-
-  const broadcastMessage = (channelId: number, messageData: any) => {
-    sendMessage({
-      type: 'new_message',
-      channelId: channelId || null,
-      recipientId: messageData.recipientId || null,
-      data: messageData
-    });
-  };
-
-  return {
-    isConnected,
-    lastMessage,
-    sendMessage,
-    joinChannel,
-    leaveChannel,
-    sendTyping,
-    broadcastMessage
-  };
+    channels.delete(channelId);
+    sendMessage({ type: 'leave_channel', channelId });
+  }, [sendMessage]);
+
+  const sendTyping = useCallback((channelId: number, isTyping: boolean) => {
+    sendMessage({ type: 'typing', channelId, isTyping });
+  }, [sendMessage]);
+
+  return (
+    <WebSocketContext.Provider
+      value={{
+        isConnected,
+        subscribe,
+        sendMessage,
+        joinChannel,
+        leaveChannel,
+        sendTyping,
+      }}
+    >
+      {children}
+    </WebSocketContext.Provider>
+  );
+}
+
+export function useWebSocket() {
+  const context = useContext(WebSocketContext);
+  if (!context) {
+    throw new Error("useWebSocket must be used within a WebSocketProvider");
+  }
+  return context;
+}
+
+// Runs the latest handler for each matching event without resubscribing on every render
+export function useWebSocketEvent(type: string | string[], handler: WebSocketHandler) {
+  const { subscribe } = useWebSocket();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const types = Array.isArray(type) ? type.join(",") : type;
+
+  useEffect(() => {
+    const unsubscribes = types.split(",").map(eventType =>
+      subscribe(eventType, message => handlerRef.current(message))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [types, subscribe]);
 }
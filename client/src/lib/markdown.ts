@@ -0,0 +1,153 @@
+/**
+ * The markdown subset messages support, parsed into a small tree that components
+ * render as React elements. Nothing in a message is ever treated as HTML, and
+ * links only keep http(s) and mailto targets, so rendering can't inject script.
+ *
+ * Blocks: paragraphs (single line breaks are kept), ``` fenced code with an
+ * optional language, > quotes, and - / 1. lists. Inline: **bold**, *italic* or
+ * _italic_, ~~strike~~, `code`, [text](url) links and bare URLs.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "strong" | "em" | "strike"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; language: string | null; code: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+const FENCE_OPEN = /^\s*```\s*([\w+#-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+function listItem(line: string): { ordered: boolean; number: number; text: string } | null {
+  const bullet = line.match(BULLET_ITEM);
+  if (bullet) return { ordered: false, number: 1, text: bullet[1] };
+  const ordered = line.match(ORDERED_ITEM);
+  if (ordered) return { ordered: true, number: Number(ordered[1]), text: ordered[2] };
+  return null;
+}
+
+function startsBlock(line: string) {
+  return FENCE_OPEN.test(line) || QUOTE_LINE.test(line) || !!listItem(line);
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // An unclosed fence runs to the end of the message
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_CLOSE.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", language: fence[1] ? fence[1].toLowerCase() : null, code: code.join("\n") });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) quoted.push(lines[i++].match(QUOTE_LINE)![1]);
+      blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) });
+      continue;
+    }
+
+    const first = listItem(line);
+    if (first) {
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = listItem(lines[i]);
+        if (item && item.ordered === first.ordered) {
+          items.push(item.text);
+        } else if (!item && items.length && /^\s+\S/.test(lines[i])) {
+          // Indented lines continue the item above
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: "list", ordered: first.ordered, start: first.number, items: items.map(parseInline) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (!paragraph.length || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+type InlineRule = {
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => MarkdownInline;
+};
+
+// Earlier rules win when two match at the same position
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /`([^`\n]+)`/g, build: match => ({ type: "code", text: match[1] }) },
+  {
+    pattern: /\[([^\]\n]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g,
+    build: match => ({ type: "link", href: match[2], children: parseInline(match[1]) }),
+  },
+  {
+    // Trailing punctuation is more likely to end the sentence than the URL
+    pattern: /https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?*_~]/g,
+    build: match => ({ type: "link", href: match[0], children: [{ type: "text", text: match[0] }] }),
+  },
+  { pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/g, build: match => ({ type: "strong", children: parseInline(match[1]) }) },
+  { pattern: /~~(?=\S)([\s\S]*?\S)~~/g, build: match => ({ type: "strike", children: parseInline(match[1]) }) },
+  { pattern: /\*(?=[^\s*])([^*]*?[^\s*])\*/g, build: match => ({ type: "em", children: parseInline(match[1]) }) },
+  // Not inside words, so snake_case names stay as they are
+  { pattern: /(?<![\w])_(?=[^\s_])([^_]*?[^\s_])_(?![\w])/g, build: match => ({ type: "em", children: parseInline(match[1]) }) },
+];
+
+function pushText(nodes: MarkdownInline[], text: string) {
+  text.split("\n").forEach((part, index) => {
+    if (index > 0) nodes.push({ type: "break" });
+    if (part) nodes.push({ type: "text", text: part });
+  });
+}
+
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    let best: { match: RegExpExecArray; rule: InlineRule } | null = null;
+    for (const rule of INLINE_RULES) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(source);
+      if (match && (!best || match.index < best.match.index)) best = { match, rule };
+    }
+
+    if (!best) break;
+    pushText(nodes, source.slice(position, best.match.index));
+    nodes.push(best.rule.build(best.match));
+    position = best.match.index + best.match[0].length;
+  }
+
+  pushText(nodes, source.slice(position));
+  return nodes;
+}
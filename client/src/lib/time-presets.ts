@@ -0,0 +1,37 @@
+import { addDays, addHours, addMinutes, format, isToday, isTomorrow, nextMonday, setHours, startOfHour } from "date-fns";
+
+export interface TimePreset {
+  label: string;
+  at: (now: Date) => Date;
+}
+
+const tomorrowAtNine = (now: Date) => setHours(startOfHour(addDays(now, 1)), 9);
+const mondayAtNine = (now: Date) => setHours(startOfHour(nextMonday(now)), 9);
+
+// Offered when saving a message and when snoozing a saved one; all times are local
+export const REMINDER_PRESETS: TimePreset[] = [
+  { label: "In 20 minutes", at: now => addMinutes(now, 20) },
+  { label: "In 1 hour", at: now => addHours(now, 1) },
+  { label: "In 3 hours", at: now => addHours(now, 3) },
+  { label: "Tomorrow at 9:00", at: tomorrowAtNine },
+  { label: "Next week", at: mondayAtNine },
+];
+
+export const SEND_LATER_PRESETS: TimePreset[] = [
+  { label: "In 1 hour", at: now => addHours(now, 1) },
+  { label: "Tomorrow at 9:00", at: tomorrowAtNine },
+  { label: "Monday at 9:00", at: mondayAtNine },
+];
+
+// "today at 14:30", "tomorrow at 9:00" or "Mon, Oct 26 at 9:00"
+export function formatUpcoming(date: Date) {
+  const time = format(date, "H:mm");
+  if (isToday(date)) return `today at ${time}`;
+  if (isTomorrow(date)) return `tomorrow at ${time}`;
+  return `${format(date, "EEE, MMM d")} at ${time}`;
+}
+
+// The local time in the format <input type="datetime-local"> expects
+export function toDateTimeInputValue(date: Date) {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
@@ -1,36 +1,88 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { ChatArea } from "@/components/chat-area";
+import { SavedView } from "@/components/saved-view";
 import { AiModal } from "@/components/ai-modal";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useAuth } from "@/hooks/use-auth";
 import { Brain } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type { Channel } from "@shared/schema";
 
 export default function HomePage() {
   const [selectedChannel, setSelectedChannel] = useState<number | null>(null);
   const [selectedDmUser, setSelectedDmUser] = useState<number | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  const [isSavedViewOpen, setIsSavedViewOpen] = useState(false);
   const [isAiModalOpen, setIsAiModalOpen] = useState(false);
   const { isConnected } = useWebSocket();
+  const { user } = useAuth();
+
+  const { data: channels } = useQuery<Channel[]>({
+    queryKey: ["/api/channels"],
+  });
+
+  // Leaving or being removed from a private channel takes it out of the list; don't keep showing it
+  useEffect(() => {
+    if (selectedChannel && channels && !channels.some(channel => channel.id === selectedChannel)) {
+      setSelectedChannel(null);
+    }
+  }, [channels, selectedChannel]);
 
   return (
     <div className="flex h-screen bg-slate-900">
       <Sidebar 
-        selectedChannel={selectedChannel}
-        selectedDmUser={selectedDmUser}
+        selectedChannel={isSavedViewOpen ? null : selectedChannel}
+        selectedDmUser={isSavedViewOpen ? null : selectedDmUser}
         onChannelSelect={(channelId) => {
           setSelectedChannel(channelId);
           setSelectedDmUser(null);
+          setFocusMessageId(null);
+          setIsSavedViewOpen(false);
         }}
         onDmUserSelect={(userId) => {
           setSelectedDmUser(userId);
           setSelectedChannel(null);
+          setFocusMessageId(null);
+          setIsSavedViewOpen(false);
+        }}
+        onNotificationOpen={({ channelId, dmUserId, messageId }) => {
+          if (!channelId && !dmUserId) return;
+          setSelectedChannel(channelId);
+          setSelectedDmUser(channelId ? null : dmUserId);
+          setFocusMessageId(messageId);
+          setIsSavedViewOpen(false);
         }}
+        isSavedSelected={isSavedViewOpen}
+        onSavedSelect={() => setIsSavedViewOpen(true)}
       />
       
-      <ChatArea 
-        selectedChannel={selectedChannel}
-        selectedDmUser={selectedDmUser}
-      />
+      {isSavedViewOpen ? (
+        <SavedView
+          onOpen={({ message }) => {
+            // Replies that stayed in their thread aren't in the timeline, so open at the thread's root
+            const isThreadOnly = !!message.parentMessageId && !message.alsoSentToChannel;
+            setSelectedChannel(message.channelId);
+            setSelectedDmUser(message.channelId ? null : message.authorId === user?.id ? message.recipientId : message.authorId);
+            setFocusMessageId(isThreadOnly ? message.parentMessageId : message.id);
+            setIsSavedViewOpen(false);
+          }}
+        />
+      ) : (
+        <ChatArea 
+          selectedChannel={selectedChannel}
+          selectedDmUser={selectedDmUser}
+          focusMessageId={focusMessageId}
+          onFocusCleared={() => setFocusMessageId(null)}
+          onJumpToMessage={setFocusMessageId}
+          onDmUserSelect={(userId) => {
+            setSelectedDmUser(userId);
+            setSelectedChannel(null);
+            setFocusMessageId(null);
+          }}
+        />
+      )}
 
       {/* AI Floating Assistant */}
       <div className="fixed bottom-6 right-6 z-50">
@@ -57,6 +109,15 @@ export default function HomePage() {
       <AiModal 
         isOpen={isAiModalOpen}
         onClose={() => setIsAiModalOpen(false)}
+        onJumpToMessage={(channelName, messageId) => {
+          const channel = channels?.find(candidate => candidate.name === channelName);
+          if (!channel) return;
+          setSelectedChannel(channel.id);
+          setSelectedDmUser(null);
+          setFocusMessageId(messageId);
+          setIsSavedViewOpen(false);
+          setIsAiModalOpen(false);
+        }}
       />
     </div>
   );
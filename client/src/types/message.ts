@@ -1,4 +1,4 @@
-import type { Message } from "@shared/schema";
+import type { Channel, Message, MessageAttachment, MessageLinkPreview, PinnedMessage, ReactionSummary, SavedItem, ThreadSummary } from "@shared/schema";
 
 export interface MessageAuthor {
   id: number;
@@ -11,5 +11,48 @@ export interface MessageAuthor {
 
 export interface MessageWithAuthor extends Message {
   author: MessageAuthor;
-  replies?: MessageWithAuthor[];
-} 
\ No newline at end of file
+  reactions?: ReactionSummary[];
+  attachments?: MessageAttachment[];
+  // Filled in after the message is sent, once its links have been fetched
+  linkPreviews?: MessageLinkPreview[];
+  // Set on root messages in a channel timeline once they have replies
+  thread?: ThreadSummary | null;
+}
+
+// An entry in a channel's pins drawer, newest pin first
+export interface PinnedMessageWithContext extends PinnedMessage {
+  message: MessageWithAuthor;
+  pinner: Pick<MessageAuthor, "id" | "username" | "displayName" | "avatar">;
+}
+
+// An entry in the Saved view; channel is null for direct messages
+export interface SavedItemWithMessage extends SavedItem {
+  message: MessageWithAuthor;
+  channel: Pick<Channel, "id" | "name"> | null;
+}
+
+// Stored in messages.aiAnalysis once the server has analyzed a message
+export interface MessageToneAnalysis {
+  tone: string;
+  impact: string;
+  clarity: string;
+  confidence: number;
+  suggestions?: string[];
+  suggestedTones?: string[];
+  explanation?: string;
+}
+
+// One page from the paginated message routes
+export interface MessagePage {
+  // Oldest first
+  messages: MessageWithAuthor[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+// Cursors are message ids; with none the latest page is returned
+export interface MessagePageParam {
+  before?: number;
+  after?: number;
+  around?: number;
+}
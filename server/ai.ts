@@ -1,18 +1,4 @@
-import OpenAI from "openai";
-
-// Initialize OpenAI with proper error handling
-let openai: OpenAI;
-try {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenAI API key is not configured in environment variables");
-  }
-  openai = new OpenAI({ apiKey });
-  console.log("[OpenAI] Successfully initialized with API key");
-} catch (error) {
-  console.error("[OpenAI] Initialization error:", error);
-  throw error;
-}
+import { getLlmProvider, type OrgMemoryMessage, type MeetingMessage } from "./llm";
 
 export interface ToneAnalysis {
   tone: string;
@@ -39,6 +25,9 @@ export interface OrgMemoryQuery {
     channelName: string;
     messageCount: number;
     lastUpdate: string;
+    // Citations: the items the answer was based on
+    messageIds: number[];
+    meetingNoteIds: number[];
   }>;
   keyPoints: string[];
 }
@@ -52,40 +41,16 @@ export interface MeetingNotesGeneration {
   decisions: string[];
 }
 
+export interface ThreadSummaryGeneration {
+  summary: string;
+  keyPoints: string[];
+  actionItems: string[];
+  openQuestions: string[];
+}
+
 export async function analyzeTone(content: string): Promise<ToneAnalysis> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert communication analyst. Analyze the tone, impact, and clarity of messages and provide improvement suggestions.
-          Your analysis should be thorough and include:
-          1. Current tone identification
-          2. Impact assessment
-          3. Clarity evaluation
-          4. Specific suggestions for improvement
-          5. Alternative tone suggestions that would be more appropriate
-
-          Respond with JSON in this format: 
-          { 
-            "tone": "string (professional, casual, urgent, friendly, aggressive, etc.)", 
-            "impact": "string (high, medium, low)",
-            "clarity": "string (clear, somewhat clear, needs clarity)",
-            "confidence": number (0-100),
-            "suggestions": ["array of improvement suggestions"],
-            "suggestedTones": ["array of 2-3 alternative tones that might be more appropriate"],
-            "explanation": "string explaining why these tones would be better"
-          }`
-        },
-        {
-          role: "user",
-          content: `Analyze this message: "${content}"`
-        }
-      ]
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = await getLlmProvider().analyzeTone(content);
     return {
       tone: result.tone || "neutral",
       impact: result.impact || "medium",
@@ -113,102 +78,47 @@ export async function generateReply(
   messageContent: string, 
   threadContext: string[], 
   orgContext: string,
-  generateMultiple: boolean = false
+  generateMultiple: boolean = false,
+  pinnedContext: string[] = []
 ): Promise<ReplyGeneration> {
   try {
+    const provider = getLlmProvider();
     console.log("[AI Reply] Generating reply with:", {
+      provider: provider.name,
       messageContent,
       threadContext,
       orgContext,
+      pinnedContext,
       generateMultiple
     });
 
-    const contextPrompt = `
-    Thread context: ${threadContext.join('\n')}
-    Organizational context: ${orgContext}
-    `;
-
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("[AI Reply] Error: OpenAI API key is not set");
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    console.log("[AI Reply] Making OpenAI API request...");
+    let result;
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: `You are an AI assistant helping to compose professional, contextually appropriate messages in a workplace chat.
-            Consider the thread context and channel information to generate helpful, relevant responses.
-            
-            When composing messages:
-            1. Consider the channel's purpose and recent conversation context
-            2. Maintain a professional and appropriate tone
-            3. Be concise but informative
-            4. Include relevant details from the context
-            5. Keep the message focused and on-topic for the channel
-            
-            You must respond with valid JSON only in this exact format:
-            {
-              "suggestions": [
-                {
-                  "suggestedReply": "string (the suggested response)",
-                  "confidence": number (0-100),
-                  "reasoning": "string (why this message is appropriate)"
-                }
-                // Generate 3 different suggestions with varying tones and approaches
-              ]
-            }
-            Do not include any other text or explanation outside the JSON.`
-          },
-          {
-            role: "user",
-            content: `Generate ${generateMultiple ? "3 different" : "1"} message(s) for this context:\n\n${contextPrompt}`
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      });
-
-      console.log("[AI Reply] Received OpenAI response");
-      
-      try {
-        const content = response.choices[0].message.content;
-        if (!content) {
-          throw new Error("Empty response from OpenAI");
-        }
-        
-        const result = JSON.parse(content.trim());
-        console.log("[AI Reply] Parsed response:", result);
-
-        if (!Array.isArray(result.suggestions)) {
-          throw new Error("OpenAI response did not include suggestions array");
-        }
-
-        return {
-          suggestions: result.suggestions.map((suggestion: any) => ({
-            suggestedReply: suggestion.suggestedReply,
-            confidence: Math.max(0, Math.min(100, suggestion.confidence || 70)),
-            reasoning: suggestion.reasoning || "Standard professional response"
-          }))
-        };
-      } catch (parseError) {
-        console.error("[AI Reply] Failed to parse OpenAI response:", parseError);
-        console.error("[AI Reply] Raw response:", response.choices[0].message.content);
-        throw new Error("Failed to parse AI response");
-      }
+      result = await provider.generateReply({ messageContent, threadContext, orgContext, pinnedContext, generateMultiple });
     } catch (apiError) {
-      console.error("[AI Reply] OpenAI API error:", apiError);
+      console.error("[AI Reply] Provider error:", apiError);
       if (apiError instanceof Error) {
         if (apiError.message.includes('API key')) {
           throw new Error("Invalid OpenAI API key");
         }
-        throw new Error(`OpenAI API error: ${apiError.message}`);
+        throw new Error(`${provider.name} provider error: ${apiError.message}`);
       }
-      throw new Error("Failed to communicate with OpenAI API");
+      throw new Error("Failed to communicate with the AI provider");
+    }
+
+    console.log("[AI Reply] Parsed response:", result);
+
+    if (!Array.isArray(result.suggestions)) {
+      throw new Error("AI response did not include suggestions array");
     }
+
+    return {
+      suggestions: result.suggestions.map((suggestion: any) => ({
+        suggestedReply: suggestion.suggestedReply,
+        confidence: Math.max(0, Math.min(100, suggestion.confidence || 70)),
+        reasoning: suggestion.reasoning || "Standard professional response"
+      }))
+    };
   } catch (error) {
     console.error("[AI Reply] Error details:", error);
     throw error;
@@ -217,76 +127,47 @@ export async function generateReply(
 
 export async function queryOrgMemory(
   query: string,
-  relevantMessages: Array<{ content: string; channelName: string; authorName: string; timestamp: string }>
+  relevantMessages: OrgMemoryMessage[]
 ): Promise<OrgMemoryQuery> {
   try {
     console.log("[AI] Processing org memory query:", query);
     console.log("[AI] Processing", relevantMessages.length, "relevant messages");
 
-    const messagesContext = relevantMessages.map(msg => 
-      `[${msg.channelName}] ${msg.authorName} (${msg.timestamp}): ${msg.content}`
-    ).join('\n');
+    const result = await getLlmProvider().queryOrgMemory(query, relevantMessages);
+    console.log("[AI] Successfully parsed org memory response");
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: `You are an AI organizational memory assistant. Analyze relevant messages and provide comprehensive summaries.
-          IMPORTANT: Your response must be a valid JSON object with no additional text or explanations.
-          Required JSON format:
-          {
-            "query": "string (the original query)",
-            "summary": "string (comprehensive summary)",
-            "sources": [{"channelName": "string", "messageCount": number, "lastUpdate": "string"}],
-            "keyPoints": ["array of key points"]
-          }`
-        },
-        {
-          role: "user",
-          content: `Query: "${query}"\n\nRelevant messages:\n${messagesContext}`
-        },
-      ],
-      temperature: 0.7,
+    // Process sources
+    const sourceChannels = new Map<string, { count: number; lastUpdate: string; messageIds: number[]; meetingNoteIds: number[] }>();
+    relevantMessages.forEach(msg => {
+      if (!sourceChannels.has(msg.channelName)) {
+        sourceChannels.set(msg.channelName, { count: 0, lastUpdate: msg.timestamp, messageIds: [], meetingNoteIds: [] });
+      }
+      const source = sourceChannels.get(msg.channelName)!;
+      if (msg.sourceType === "meeting_notes") {
+        source.meetingNoteIds.push(msg.id);
+      } else {
+        source.count++;
+        source.messageIds.push(msg.id);
+      }
+      if (msg.timestamp > source.lastUpdate) {
+        source.lastUpdate = msg.timestamp;
+      }
     });
 
-    if (!response.choices[0].message.content) {
-      throw new Error("Empty response from OpenAI");
-    }
+    const sources = Array.from(sourceChannels.entries()).map(([name, data]) => ({
+      channelName: name,
+      messageCount: data.count,
+      lastUpdate: data.lastUpdate,
+      messageIds: data.messageIds,
+      meetingNoteIds: data.meetingNoteIds
+    }));
 
-    try {
-      const result = JSON.parse(response.choices[0].message.content.trim());
-      console.log("[AI] Successfully parsed org memory response");
-      
-      // Process sources
-      const sourceChannels = new Map();
-      relevantMessages.forEach(msg => {
-        if (!sourceChannels.has(msg.channelName)) {
-          sourceChannels.set(msg.channelName, { count: 0, lastUpdate: msg.timestamp });
-        }
-        sourceChannels.get(msg.channelName).count++;
-        if (msg.timestamp > sourceChannels.get(msg.channelName).lastUpdate) {
-          sourceChannels.get(msg.channelName).lastUpdate = msg.timestamp;
-        }
-      });
-
-      const sources = Array.from(sourceChannels.entries()).map(([name, data]) => ({
-        channelName: name,
-        messageCount: data.count,
-        lastUpdate: data.lastUpdate
-      }));
-
-      return {
-        query,
-        summary: result.summary || "No relevant information found.",
-        sources,
-        keyPoints: result.keyPoints || []
-      };
-    } catch (parseError) {
-      console.error("[AI] Failed to parse OpenAI response:", parseError);
-      console.error("[AI] Raw response:", response.choices[0].message.content);
-      throw new Error("Failed to parse AI response");
-    }
+    return {
+      query,
+      summary: result.summary || "No relevant information found.",
+      sources,
+      keyPoints: result.keyPoints || []
+    };
   } catch (error) {
     console.error("[AI] Failed to query org memory:", error);
     if (error instanceof Error) {
@@ -297,8 +178,9 @@ export async function queryOrgMemory(
 }
 
 export async function generateMeetingNotes(
-  messages: Array<{ content: string; authorName: string; timestamp: string }>,
-  channelName: string
+  messages: MeetingMessage[],
+  channelName: string,
+  pinned: MeetingMessage[] = []
 ): Promise<MeetingNotesGeneration> {
   try {
     console.log("[AI] Generating meeting notes for channel:", channelName);
@@ -309,64 +191,23 @@ export async function generateMeetingNotes(
       throw new Error("No messages available to generate notes from");
     }
 
-    const messagesText = messages.map(msg => 
-      `${msg.authorName} (${msg.timestamp}): ${msg.content}`
-    ).join('\n');
-
-    console.log("[AI] Calling OpenAI API for meeting notes generation");
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: `You are an AI meeting notes generator. Analyze the following conversation thread and extract key information.
-          IMPORTANT: Your response must be a valid JSON object with no additional text or explanations.
-          Required JSON format:
-          {
-            "title": "string (meeting title)",
-            "summary": "string (brief summary)",
-            "keyPoints": ["array of key discussion points"],
-            "actionItems": ["array of action items"],
-            "participants": ["array of participant names"],
-            "decisions": ["array of decisions made"]
-          }`
-        },
-        {
-          role: "user",
-          content: `Generate structured meeting notes from this ${channelName} conversation:\n\n${messagesText}`
-        },
-      ],
-      temperature: 0.7,
-    });
+    const provider = getLlmProvider();
+    console.log(`[AI] Calling ${provider.name} provider for meeting notes generation`);
+    const result = await provider.generateMeetingNotes(messages, channelName, pinned);
+    console.log("[AI] Successfully parsed response:", result);
 
-    console.log("[AI] Successfully received response from OpenAI");
-    
-    if (!response.choices[0].message.content) {
-      console.error("[AI] Empty response from OpenAI");
-      throw new Error("Failed to generate meeting notes: Empty response from AI");
+    if (!result.title || !result.summary) {
+      throw new Error("Invalid response format from AI provider");
     }
 
-    try {
-      const result = JSON.parse(response.choices[0].message.content.trim());
-      console.log("[AI] Successfully parsed response:", result);
-
-      if (!result.title || !result.summary) {
-        throw new Error("Invalid response format from OpenAI");
-      }
-
-      return {
-        title: result.title,
-        summary: result.summary,
-        keyPoints: result.keyPoints || [],
-        actionItems: result.actionItems || [],
-        participants: result.participants || [],
-        decisions: result.decisions || []
-      };
-    } catch (parseError) {
-      console.error("[AI] Failed to parse OpenAI response:", parseError);
-      console.error("[AI] Raw response:", response.choices[0].message.content);
-      throw new Error("Failed to parse AI response. Please try again.");
-    }
+    return {
+      title: result.title,
+      summary: result.summary,
+      keyPoints: result.keyPoints || [],
+      actionItems: result.actionItems || [],
+      participants: result.participants || [],
+      decisions: result.decisions || []
+    };
   } catch (error) {
     console.error("[AI] Failed to generate meeting notes:", error);
     if (error instanceof Error) {
@@ -376,3 +217,30 @@ export async function generateMeetingNotes(
     throw error; // Re-throw to let the route handler handle the error
   }
 }
+
+export async function summarizeThread(messages: MeetingMessage[]): Promise<ThreadSummaryGeneration> {
+  try {
+    console.log("[AI] Summarizing thread of", messages.length, "messages");
+
+    if (!messages.length) {
+      throw new Error("No messages available to summarize");
+    }
+
+    const provider = getLlmProvider();
+    const result = await provider.summarizeThread(messages);
+
+    if (!result.summary) {
+      throw new Error("Invalid response format from AI provider");
+    }
+
+    return {
+      summary: result.summary,
+      keyPoints: result.keyPoints || [],
+      actionItems: result.actionItems || [],
+      openQuestions: result.openQuestions || []
+    };
+  } catch (error) {
+    console.error("[AI] Failed to summarize thread:", error);
+    throw error;
+  }
+}
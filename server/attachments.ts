@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+import { isInlineImage } from "@shared/attachments";
+import type { MessageAttachment } from "@shared/schema";
+
+const SWEEP_INTERVAL_MS = 10 * 60_000;
+// Uploads that haven't been sent with a message by then are abandoned
+const UNSENT_TTL_MS = 24 * 60 * 60_000;
+const SWEEP_BATCH_SIZE = 100;
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Stores the file and records it as an unsent upload of the user's
+export async function saveAttachment(uploaderId: number, file: UploadedFile): Promise<MessageAttachment> {
+  let width: number | null = null;
+  let height: number | null = null;
+  if (isInlineImage(file.mimetype)) {
+    try {
+      const metadata = await sharp(file.buffer).metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+    } catch {
+      // Still stored; the preview just can't reserve its space up front
+    }
+  }
+
+  const storageKey = `attachments/${randomUUID()}`;
+  await getBlobStore().put(storageKey, file.buffer, file.mimetype);
+  return storage.createAttachment({
+    uploaderId,
+    fileName: file.originalname,
+    contentType: file.mimetype,
+    size: file.size,
+    storageKey,
+    width,
+    height,
+  });
+}
+
+/**
+ * Removes the blobs of deleted attachments and of uploads nobody sent, then their
+ * rows. Rows go only after their blob, so a failed delete is retried next sweep.
+ */
+export class AttachmentJanitor {
+  private interval: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweep();
+  }
+
+  stop() {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  private async sweep() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const expired = await storage.getExpiredAttachments(new Date(Date.now() - UNSENT_TTL_MS), SWEEP_BATCH_SIZE);
+      const removed: number[] = [];
+      for (const attachment of expired) {
+        try {
+          await getBlobStore().delete(attachment.storageKey);
+          removed.push(attachment.id);
+        } catch (error) {
+          console.error(`[Attachments] Failed to delete blob ${attachment.storageKey}:`, error);
+        }
+      }
+      await storage.removeAttachments(removed);
+      if (removed.length) console.log(`[Attachments] Removed ${removed.length} expired attachment(s)`);
+    } catch (error) {
+      console.error("[Attachments] Sweep failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const attachmentJanitor = new AttachmentJanitor();
@@ -36,8 +36,11 @@ export function setupAuth(app: Express) {
     store: storage.sessionStore,
   };
 
+  // Kept so the WebSocket upgrade handler can read the same session as the REST API
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -90,4 +93,6 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+
+// Uploads are resized to a square this many pixels across
+const AVATAR_SIZE = 256;
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+
+export const AVATAR_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads", "avatars");
+export const AVATAR_URL_PREFIX = "/uploads/avatars/";
+
+/**
+ * Stores an uploaded avatar on local disk as a square WebP and returns its URL, or
+ * undefined if the upload isn't an image we can read. Every upload gets a new file
+ * name, so the files can be cached forever.
+ */
+export async function saveAvatar(userId: number, upload: Buffer): Promise<string | undefined> {
+  let image: Buffer;
+  try {
+    image = await sharp(upload)
+      .rotate() // Apply the EXIF orientation before it's stripped
+      .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch {
+    return undefined;
+  }
+
+  const fileName = `${userId}-${randomUUID()}.webp`;
+  await mkdir(AVATAR_DIR, { recursive: true });
+  await writeFile(path.join(AVATAR_DIR, fileName), image);
+  return `${AVATAR_URL_PREFIX}${fileName}`;
+}
+
+// Removes a replaced avatar if we stored it; external URLs (e.g. the seeded ones) are left alone
+export async function deleteAvatar(url: string | null) {
+  if (!url?.startsWith(AVATAR_URL_PREFIX)) return;
+  const fileName = path.basename(url);
+  try {
+    await unlink(path.join(AVATAR_DIR, fileName));
+  } catch (error) {
+    console.error("[Avatars] Failed to delete", fileName, error);
+  }
+}
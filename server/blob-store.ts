@@ -0,0 +1,85 @@
+import { createReadStream } from "fs";
+import { mkdir, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+export type BlobStoreName = "local";
+
+/**
+ * Where uploaded files live. Keys are opaque, slash-separated names chosen by the
+ * caller; the store never sees user-supplied file names.
+ */
+export interface BlobStore {
+  readonly name: BlobStoreName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined if nothing is stored under the key
+  get(key: string): Promise<Readable | undefined>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[\w-]+(\/[\w-]+)*$/;
+
+// Files under a directory on this machine; only suits a single instance or a shared volume
+class LocalDiskBlobStore implements BlobStore {
+  readonly name = "local" as const;
+
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string) {
+    if (!KEY_PATTERN.test(key)) throw new Error(`Invalid blob key "${key}"`);
+    return path.join(this.root, ...key.split("/"));
+  }
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.pathFor(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string) {
+    const filePath = this.pathFor(key);
+    try {
+      await stat(filePath);
+    } catch {
+      return undefined;
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string) {
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+}
+
+function resolveBlobStoreName(): BlobStoreName {
+  const configured = process.env.BLOB_STORE?.trim().toLowerCase();
+  if (configured === "local") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[Blobs] Unknown BLOB_STORE "${configured}", falling back to local`);
+  }
+  return "local";
+}
+
+export function createBlobStore(name: BlobStoreName = resolveBlobStoreName()): BlobStore {
+  switch (name) {
+    case "local":
+      return new LocalDiskBlobStore(path.resolve(process.env.UPLOAD_DIR || "uploads", "blobs"));
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+    console.log(`[Blobs] Using ${blobStore.name} blob store`);
+  }
+  return blobStore;
+}
@@ -1,13 +1,27 @@
 import { db } from "./db";
-import { users, channels, channelMembers, messages, aiSuggestions, meetingNotes } from "@shared/schema";
+import { users, channels, channelMembers, messages, messageRevisions, reactions, aiSuggestions, meetingNotes, embeddings, readStates, messageMentions, notifications, userConnections, attachments, linkPreviews, messageLinkPreviews, pinnedMessages, channelBookmarks, savedItems, scheduledMessages } from "@shared/schema";
 
 async function clear() {
   try {
     // Delete in reverse order of dependencies
+    await db.delete(notifications);
+    await db.delete(readStates);
+    await db.delete(embeddings);
     await db.delete(meetingNotes);
+    await db.delete(messageMentions);
     await db.delete(aiSuggestions);
+    await db.delete(messageRevisions);
+    await db.delete(reactions);
+    await db.delete(savedItems);
+    await db.delete(scheduledMessages);
+    await db.delete(pinnedMessages);
+    await db.delete(channelBookmarks);
+    await db.delete(attachments);
+    await db.delete(messageLinkPreviews);
+    await db.delete(linkPreviews);
     await db.delete(messages);
     await db.delete(channelMembers);
+    await db.delete(userConnections);
     await db.delete(channels);
     await db.delete(users);
     console.log("✅ Database cleared successfully!");
@@ -0,0 +1,152 @@
+import OpenAI from "openai";
+import { createHash } from "crypto";
+
+export interface Embedder {
+  // Stored alongside each vector so switching embedders never mixes incompatible vectors
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbedderName = "openai" | "local" | "hashing";
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "is", "are", "was", "were", "be", "been", "to", "of", "in", "on",
+  "for", "with", "at", "by", "from", "as", "it", "its", "this", "that", "these", "those", "we", "i", "you",
+  "he", "she", "they", "them", "our", "your", "my", "me", "us", "do", "does", "did", "what", "who", "when",
+  "where", "how", "why", "which", "about", "so", "if", "then", "there", "here", "just", "not", "no", "can",
+  "will", "would", "should", "could", "have", "has", "had", "any", "some", "all", "up", "out", "into",
+]);
+
+// Crude suffix stripping so "deploying", "deployed" and "deployment" land in the same bucket
+function stem(token: string): string {
+  return token.replace(/(ments?|ings?|ed|ly|es|s)$/, "") || token;
+}
+
+export function hashContent(text: string): string {
+  return createHash("md5").update(text).digest("hex");
+}
+
+/**
+ * Feature-hashing embedder that needs no model or network. Words, word pairs and
+ * character trigrams are hashed into a fixed number of buckets with sublinear term
+ * frequency, then L2-normalised so a dot product is the cosine similarity.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(private dimensions = 512) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  private bucket(feature: string): { index: number; sign: number } {
+    const digest = createHash("md5").update(feature).digest();
+    return {
+      index: digest.readUInt32BE(0) % this.dimensions,
+      // A second hash bit for the sign keeps collisions from only ever adding up
+      sign: digest[4] & 1 ? 1 : -1,
+    };
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    const tokens = text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token)).map(stem);
+    tokens.forEach((token, index) => {
+      add(`w:${token}`, 1);
+      if (index > 0) add(`b:${tokens[index - 1]}_${token}`, 0.5);
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const { index, sign } = this.bucket(feature);
+      vector[index] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+// OpenAI's embeddings API, or any server that implements it (Ollama, llama.cpp, vLLM)
+export class ApiEmbedder implements Embedder {
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(config: { apiKey: string; baseURL?: string; model: string }) {
+    this.model = config.model;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+function resolveEmbedderName(): EmbedderName {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (configured === "openai" || configured === "local" || configured === "hashing") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[Embeddings] Unknown EMBEDDING_PROVIDER "${configured}", falling back to auto-detection`);
+  }
+  // Local chat models rarely ship an embedding model alongside, so only OpenAI is picked automatically
+  const llmProvider = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return process.env.OPENAI_API_KEY && (!llmProvider || llmProvider === "openai") ? "openai" : "hashing";
+}
+
+export function createEmbedder(name: EmbedderName = resolveEmbedderName()): Embedder {
+  switch (name) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OpenAI API key is not configured in environment variables");
+      }
+      return new ApiEmbedder({ apiKey, model: process.env.EMBEDDING_MODEL || "text-embedding-3-small" });
+    }
+    case "local":
+      return new ApiEmbedder({
+        apiKey: process.env.LLM_API_KEY || "local",
+        baseURL: process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.EMBEDDING_MODEL || "nomic-embed-text",
+      });
+    case "hashing":
+      return new HashingEmbedder();
+  }
+}
+
+let embedder: Embedder | undefined;
+
+export function getEmbedder(): Embedder {
+  if (!embedder) {
+    embedder = createEmbedder();
+    console.log(`[Embeddings] Using ${embedder.model} embedder`);
+  }
+  return embedder;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
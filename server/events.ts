@@ -0,0 +1,200 @@
+import { Client } from "@neondatabase/serverless";
+import { pool } from "./db";
+
+// Who can see a message: channel members for channel messages, both participants for DMs
+export interface MessageAudience {
+  channelId: number | null;
+  authorId: number;
+  recipientId: number | null;
+}
+
+/**
+ * Events carry identifiers rather than rows. Subscribers load current state
+ * themselves, which keeps payloads well under Postgres' 8000 byte NOTIFY limit
+ * and means a late subscriber never sends out stale content.
+ */
+export type DomainEvent =
+  | ({ type: "message_created" | "message_updated" | "message_deleted" | "reaction_updated"; messageId: number } & MessageAudience)
+  | { type: "meeting_notes_created"; notesId: number; channelId: number | null }
+  | { type: "channel_member_added" | "channel_member_removed" | "channel_member_updated"; channelId: number; userId: number }
+  | { type: "channel_updated" | "channel_deleted"; channelId: number }
+  | { type: "pins_updated" | "bookmarks_updated"; channelId: number }
+  | { type: "mentions_created"; messageId: number; userIds: number[] }
+  | { type: "notification_created"; notificationId: number; userId: number }
+  | { type: "notifications_read"; userId: number }
+  | { type: "saved_items_updated" | "scheduled_messages_updated"; userId: number }
+  | { type: "presence_changed"; userId: number }
+  | { type: "user_updated"; userId: number }
+  | { type: "conversation_read"; userId: number; channelId: number | null; otherUserId: number | null; lastReadMessageId: number };
+
+export type EventBusName = "memory" | "postgres";
+
+export type DomainEventHandler = (event: DomainEvent) => void | Promise<void>;
+
+export interface EventBus {
+  readonly name: EventBusName;
+  publish(event: DomainEvent): Promise<void>;
+  // Returns an unsubscribe function
+  subscribe(handler: DomainEventHandler): () => void;
+  close(): Promise<void>;
+}
+
+function dispatch(handlers: Set<DomainEventHandler>, event: DomainEvent) {
+  handlers.forEach(handler => {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch(error => console.error(`[Events] Handler failed for ${event.type}:`, error));
+  });
+}
+
+// Single-process bus; enough when only one server instance is running
+export class InProcessEventBus implements EventBus {
+  readonly name = "memory" as const;
+  private handlers = new Set<DomainEventHandler>();
+
+  async publish(event: DomainEvent) {
+    // Deliver asynchronously so publishers never wait on, or fail because of, subscribers
+    setImmediate(() => dispatch(this.handlers, event));
+  }
+
+  subscribe(handler: DomainEventHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close() {
+    this.handlers.clear();
+  }
+}
+
+const NOTIFY_CHANNEL = "chat_events";
+const RECONNECT_DELAY_MS = 5_000;
+
+/**
+ * Shares events between server instances through Postgres LISTEN/NOTIFY. Every
+ * instance, including the publisher, receives events from its LISTEN connection,
+ * so delivery order is the same everywhere. LISTEN needs a direct (unpooled)
+ * connection; set EVENT_BUS_DATABASE_URL if DATABASE_URL points at a pooler.
+ */
+export class PostgresEventBus implements EventBus {
+  readonly name = "postgres" as const;
+  private handlers = new Set<DomainEventHandler>();
+  private listener: Client | undefined;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private closed = false;
+
+  constructor(private connectionString: string) {
+    this.connect();
+  }
+
+  private async connect() {
+    const client = new Client({ connectionString: this.connectionString });
+    this.listener = client;
+
+    client.on("notification", (notification) => {
+      if (notification.channel !== NOTIFY_CHANNEL || !notification.payload) return;
+      try {
+        dispatch(this.handlers, JSON.parse(notification.payload));
+      } catch (error) {
+        console.error("[Events] Ignoring malformed notification:", error);
+      }
+    });
+    client.on("error", (error) => {
+      console.error("[Events] LISTEN connection error:", error);
+      this.scheduleReconnect(client);
+    });
+    client.on("end", () => this.scheduleReconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      console.log(`[Events] Listening on Postgres channel ${NOTIFY_CHANNEL}`);
+    } catch (error) {
+      console.error("[Events] Failed to start LISTEN connection:", error);
+      this.scheduleReconnect(client);
+    }
+  }
+
+  private scheduleReconnect(client: Client) {
+    // Only the current connection may trigger a reconnect, and only once
+    if (this.closed || client !== this.listener || this.reconnectTimer) return;
+    this.listener = undefined;
+    client.end().catch(() => {});
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  async publish(event: DomainEvent) {
+    await pool.query("SELECT pg_notify($1, $2)", [NOTIFY_CHANNEL, JSON.stringify(event)]);
+  }
+
+  subscribe(handler: DomainEventHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.handlers.clear();
+    await this.listener?.end();
+    this.listener = undefined;
+  }
+}
+
+function resolveEventBusName(): EventBusName {
+  const configured = process.env.EVENT_BUS?.trim().toLowerCase();
+  if (configured === "memory" || configured === "postgres") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[Events] Unknown EVENT_BUS "${configured}", falling back to memory`);
+  }
+  return "memory";
+}
+
+export function createEventBus(name: EventBusName = resolveEventBusName()): EventBus {
+  switch (name) {
+    case "memory":
+      return new InProcessEventBus();
+    case "postgres":
+      return new PostgresEventBus(process.env.EVENT_BUS_DATABASE_URL || process.env.DATABASE_URL!);
+  }
+}
+
+let eventBus: EventBus | undefined;
+
+export function getEventBus(): EventBus {
+  if (!eventBus) {
+    eventBus = createEventBus();
+    console.log(`[Events] Using ${eventBus.name} event bus`);
+  }
+  return eventBus;
+}
+
+// Handlers that must run exactly once per event, such as ones that write to the
+// database. Bus subscribers run on every server instance; these run only on the
+// instance that published the event.
+const publishedHandlers = new Set<DomainEventHandler>();
+
+export function onEventPublished(handler: DomainEventHandler): () => void {
+  publishedHandlers.add(handler);
+  return () => {
+    publishedHandlers.delete(handler);
+  };
+}
+
+// Storage calls this after a write has committed. A failed publish is logged but
+// never fails the write itself; clients catch up on their next fetch.
+export function publishEvent(event: DomainEvent) {
+  dispatch(publishedHandlers, event);
+  getEventBus()
+    .publish(event)
+    .catch(error => console.error(`[Events] Failed to publish ${event.type}:`, error));
+}
@@ -0,0 +1,117 @@
+import { storage } from "./storage";
+import { getEmbedder, hashContent } from "./embeddings";
+import { getEventBus } from "./events";
+import type { MeetingNotes } from "@shared/schema";
+
+const BATCH_SIZE = 32;
+// Cap per sweep so a large backfill doesn't monopolise the embedder; the next sweep continues
+const MAX_BATCHES_PER_SWEEP = 20;
+const SWEEP_INTERVAL_MS = 60_000;
+const NOTIFY_DELAY_MS = 1_000;
+
+// The text that represents a set of meeting notes in the vector index
+export function meetingNotesText(notes: MeetingNotes): string {
+  try {
+    const parsed = JSON.parse(notes.content);
+    return [
+      notes.title,
+      parsed.summary,
+      ...(parsed.keyPoints || []),
+      ...(parsed.decisions || []),
+      ...(parsed.actionItems || []),
+    ].filter(Boolean).join("\n");
+  } catch {
+    return `${notes.title}\n${notes.content}`;
+  }
+}
+
+/**
+ * Keeps the embeddings table in step with messages and meeting notes. Rather than
+ * tracking individual items it repeatedly asks storage for content whose embedding
+ * is missing or was computed from older text, so new, edited and backfilled content
+ * all go through the same path.
+ */
+export class EmbeddingIndexer {
+  private timer: NodeJS.Timeout | undefined;
+  private interval: NodeJS.Timeout | undefined;
+  private running = false;
+  private rerun = false;
+  private unsubscribe: (() => void) | undefined;
+
+  start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.unsubscribe = getEventBus().subscribe(event => {
+      if (event.type === "message_created" || event.type === "message_updated" || event.type === "meeting_notes_created") {
+        this.notify();
+      }
+    });
+    this.notify();
+  }
+
+  stop() {
+    clearInterval(this.interval);
+    clearTimeout(this.timer);
+    this.unsubscribe?.();
+    this.interval = undefined;
+    this.timer = undefined;
+    this.unsubscribe = undefined;
+  }
+
+  // Runs on content events from the bus; bursts are coalesced into one sweep
+  notify() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.sweep(), NOTIFY_DELAY_MS);
+  }
+
+  private async sweep() {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+
+    try {
+      const embedder = getEmbedder();
+      let indexed = 0;
+
+      for (let batch = 0; batch < MAX_BATCHES_PER_SWEEP; batch++) {
+        const pendingMessages = await storage.getMessagesMissingEmbeddings(embedder.model, BATCH_SIZE);
+        const pendingNotes = await storage.getMeetingNotesMissingEmbeddings(embedder.model, BATCH_SIZE);
+        if (!pendingMessages.length && !pendingNotes.length) break;
+
+        const items = [
+          ...pendingMessages.map(msg => ({ sourceType: "message", sourceId: msg.id, text: msg.content })),
+          ...pendingNotes.map(notes => ({ sourceType: "meeting_notes", sourceId: notes.id, text: meetingNotesText(notes) })),
+        ];
+        const vectors = await embedder.embed(items.map(item => item.text));
+
+        for (let i = 0; i < items.length; i++) {
+          await storage.upsertEmbedding({
+            sourceType: items[i].sourceType,
+            sourceId: items[i].sourceId,
+            model: embedder.model,
+            embedding: vectors[i],
+            // Messages are compared against md5(content) in SQL, so hash exactly what was embedded
+            contentHash: hashContent(items[i].text),
+          });
+        }
+        indexed += items.length;
+      }
+
+      if (indexed > 0) {
+        console.log(`[Indexer] Embedded ${indexed} item(s) with ${embedder.model}`);
+      }
+    } catch (error) {
+      console.error("[Indexer] Embedding sweep failed:", error);
+    } finally {
+      this.running = false;
+      if (this.rerun) {
+        this.rerun = false;
+        this.notify();
+      }
+    }
+  }
+}
+
+export const embeddingIndexer = new EmbeddingIndexer();
@@ -0,0 +1,302 @@
+import { lookup } from "dns";
+import { BlockList, isIP } from "net";
+import http, { type IncomingMessage, type RequestOptions } from "http";
+import https from "https";
+
+export type LinkFetcherName = "http" | "fake";
+
+export interface LinkMetadata {
+  title: string;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+}
+
+export interface LinkFetcher {
+  readonly name: LinkFetcherName;
+  // Undefined when the page has nothing to preview; throws when it can't be fetched
+  fetch(url: string): Promise<LinkMetadata | undefined>;
+}
+
+const FETCH_TIMEOUT_MS = 5_000;
+// OpenGraph tags live in the head, so there's no need to read whole pages
+const MAX_BODY_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+const USER_AGENT = "Mozilla/5.0 (compatible; ChatLinkPreview/1.0)";
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved ranges, plus
+// the IPv6 tunnel prefixes (6to4, Teredo, local-use NAT64) that can wrap any IPv4 address
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+  ["2001::", 32], ["2002::", 16], ["64:ff9b:1::", 48],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// The eight 16-bit groups of an IPv6 address, expanding "::" and a trailing dotted quad
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const groups = (part: string) => part ? part.split(":").map(group => parseInt(group, 16)) : [];
+  if (tail === undefined) return groups(head);
+  const start = groups(head);
+  const end = groups(tail);
+  return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+// The IPv4 address an IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) or
+// NAT64 (64:ff9b::/96) address reaches, since connecting to one connects to it
+function embeddedIPv4(address: string): string | undefined {
+  const groups = ipv6Groups(address);
+  const zeroTo = (end: number) => groups.slice(0, end).every(group => group === 0);
+  const mapped = zeroTo(5) && groups[5] === 0xffff;
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (!mapped && !zeroTo(6) && !nat64) return undefined;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+}
+
+// Anything that isn't a valid address counts as private
+function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return blockedAddresses.check(address, "ipv4");
+    case 6: {
+      const ipv4 = embeddedIPv4(address);
+      return ipv4 ? blockedAddresses.check(ipv4, "ipv4") : blockedAddresses.check(address, "ipv6");
+    }
+    default:
+      return true;
+  }
+}
+
+// Previews are fetched on behalf of whoever posted the link, so they must not reach
+// anything on our own network. Only default ports, so they can't probe other services either.
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error(`Unsupported protocol ${url.protocol}`);
+  if (url.port) throw new Error(`Non-default port ${url.port}`);
+
+  // Names are checked by publicLookup as the connection is made
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isPrivateAddress(hostname)) throw new Error(`${hostname} is not a public address`);
+}
+
+// Resolves a host for the socket and refuses it if any of its addresses is private. Checking
+// the addresses actually connected to means a DNS answer can't change after the check.
+const publicLookup: NonNullable<RequestOptions["lookup"]> = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error, "");
+    if (!entries.length || entries.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(`${hostname} is not a public address`), "");
+    }
+    if (options.all) return callback(null, entries);
+    callback(null, entries[0].address, entries[0].family);
+  });
+};
+
+function request(url: URL, accept: string): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    (url.protocol === "https:" ? https : http)
+      .get(url, {
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: { "User-Agent": USER_AGENT, Accept: accept },
+      }, resolve)
+      .on("error", reject);
+  });
+}
+
+async function readLimited(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size >= MAX_BODY_BYTES) break;
+  }
+  response.destroy();
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(text: string | undefined, maxLength: number): string | null {
+  if (!text) return null;
+  const collapsed = decodeEntities(text).replace(/\s+/g, " ").trim();
+  if (!collapsed) return null;
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+}
+
+function attributesOf(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+// Relative URLs resolve against the page; anything that isn't http(s) is dropped
+function absoluteUrl(value: string | undefined, base: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PageMetadata extends Omit<LinkMetadata, "title"> {
+  title: string | null;
+  oEmbedUrl: string | null;
+}
+
+// Reads OpenGraph and Twitter card tags, falling back to <title> and the description meta tag
+export function parsePageMetadata(html: string, pageUrl: string): PageMetadata {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const tag of head.match(/<meta\s[^>]*>/gi) || []) {
+    const attributes = attributesOf(tag);
+    const key = (attributes.property || attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) meta.set(key, attributes.content);
+  }
+
+  let oEmbedUrl: string | null = null;
+  for (const tag of head.match(/<link\s[^>]*>/gi) || []) {
+    const attributes = attributesOf(tag);
+    if (attributes.type?.toLowerCase() === "application/json+oembed") {
+      oEmbedUrl = absoluteUrl(attributes.href, pageUrl);
+      break;
+    }
+  }
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return {
+    title: clean(meta.get("og:title") ?? meta.get("twitter:title") ?? titleTag, MAX_TITLE_LENGTH),
+    description: clean(meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description"), MAX_DESCRIPTION_LENGTH),
+    siteName: clean(meta.get("og:site_name"), MAX_TITLE_LENGTH),
+    imageUrl: absoluteUrl(meta.get("og:image") ?? meta.get("twitter:image"), pageUrl),
+    oEmbedUrl,
+  };
+}
+
+// Fetches pages over the network, following redirects by hand so every hop is checked
+class HttpLinkFetcher implements LinkFetcher {
+  readonly name = "http" as const;
+
+  private async get(url: string, accept: string): Promise<{ url: string; contentType: string; body: string }> {
+    let current = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      assertPublicUrl(current);
+      const response = await request(current, accept);
+      const status = response.statusCode ?? 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+        current = new URL(location, current);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new Error(`HTTP ${status}`);
+      }
+      return { url: current.toString(), contentType: response.headers["content-type"] || "", body: await readLimited(response) };
+    }
+  }
+
+  async fetch(url: string): Promise<LinkMetadata | undefined> {
+    const page = await this.get(url, "text/html,application/xhtml+xml");
+    if (!/html/i.test(page.contentType)) return undefined;
+
+    const { oEmbedUrl, ...metadata } = parsePageMetadata(page.body, page.url);
+    // oEmbed only fills gaps; a failure there still leaves the OpenGraph preview
+    if (oEmbedUrl && (!metadata.title || !metadata.imageUrl)) {
+      try {
+        const oEmbed = JSON.parse((await this.get(oEmbedUrl, "application/json")).body);
+        metadata.title ??= clean(oEmbed.title, MAX_TITLE_LENGTH);
+        metadata.siteName ??= clean(oEmbed.provider_name, MAX_TITLE_LENGTH);
+        metadata.imageUrl ??= absoluteUrl(oEmbed.thumbnail_url, page.url);
+        metadata.description ??= clean(oEmbed.author_name, MAX_DESCRIPTION_LENGTH);
+      } catch (error) {
+        console.warn(`[Links] Ignoring oEmbed for ${url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!metadata.title) return undefined;
+    return { ...metadata, title: metadata.title, siteName: metadata.siteName ?? new URL(page.url).hostname };
+  }
+}
+
+// Answers from the URL alone, without touching the network, for tests and offline
+// development. Hosts under .invalid fail the way an unreachable site would.
+export class FakeLinkFetcher implements LinkFetcher {
+  readonly name = "fake" as const;
+
+  async fetch(url: string): Promise<LinkMetadata | undefined> {
+    const { hostname, pathname } = new URL(url);
+    if (hostname.endsWith(".invalid")) throw new Error(`${hostname} is unreachable`);
+    return {
+      title: pathname === "/" ? hostname : `${hostname}${pathname}`,
+      description: `Preview of ${url}`,
+      siteName: hostname,
+      imageUrl: null,
+    };
+  }
+}
+
+function resolveLinkFetcherName(): LinkFetcherName {
+  const configured = process.env.LINK_PREVIEW_FETCHER?.trim().toLowerCase();
+  if (configured === "http" || configured === "fake") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[Links] Unknown LINK_PREVIEW_FETCHER "${configured}", falling back to http`);
+  }
+  return "http";
+}
+
+export function createLinkFetcher(name: LinkFetcherName = resolveLinkFetcherName()): LinkFetcher {
+  switch (name) {
+    case "http":
+      return new HttpLinkFetcher();
+    case "fake":
+      return new FakeLinkFetcher();
+  }
+}
+
+let linkFetcher: LinkFetcher | undefined;
+
+export function getLinkFetcher(): LinkFetcher {
+  if (!linkFetcher) {
+    linkFetcher = createLinkFetcher();
+    console.log(`[Links] Using ${linkFetcher.name} link fetcher`);
+  }
+  return linkFetcher;
+}
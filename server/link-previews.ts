@@ -0,0 +1,125 @@
+import { storage } from "./storage";
+import { getLinkFetcher, type LinkMetadata } from "./link-fetcher";
+import type { LinkPreview } from "@shared/schema";
+
+const MAX_PREVIEWS_PER_MESSAGE = 3;
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60_000;
+// Failures are cached for less time, so a site that was briefly down gets another chance
+const FAILED_PREVIEW_TTL_MS = 60 * 60_000;
+const MAX_QUEUE_LENGTH = 500;
+
+// Same rules as the client's markdown: code is left alone, and a markdown link or a bare URL
+// previews; trailing punctuation is taken to end the sentence rather than the URL
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]+`/g;
+const LINK = /\[[^\]\n]+\]\((https?:\/\/[^\s)]+)\)|https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?*_~]/g;
+
+// The distinct http(s) URLs of a message, in the order they appear, without fragments
+export function extractPreviewUrls(content: string): string[] {
+  const urls: string[] = [];
+  for (const match of Array.from(content.replace(CODE, " ").matchAll(LINK))) {
+    try {
+      const url = new URL(match[1] ?? match[0]);
+      url.hash = "";
+      if (!urls.includes(url.toString())) urls.push(url.toString());
+    } catch {
+      // Not a URL after all
+    }
+  }
+  return urls;
+}
+
+/**
+ * Which hosts may be previewed. Entries match the host and its subdomains. With an
+ * allow list only those hosts are fetched; the block list wins over it either way.
+ */
+export interface LinkPreviewPolicy {
+  allowedHosts: string[];
+  blockedHosts: string[];
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value || "").split(",").map(host => host.trim().toLowerCase().replace(/^\*?\./, "")).filter(Boolean);
+}
+
+function resolveLinkPreviewPolicy(): LinkPreviewPolicy {
+  return {
+    allowedHosts: parseHostList(process.env.LINK_PREVIEW_ALLOWED_HOSTS),
+    blockedHosts: parseHostList(process.env.LINK_PREVIEW_BLOCKED_HOSTS),
+  };
+}
+
+export function isPreviewAllowed(url: string, policy: LinkPreviewPolicy): boolean {
+  const hostname = new URL(url).hostname.toLowerCase();
+  const matches = (host: string) => hostname === host || hostname.endsWith(`.${host}`);
+  if (policy.blockedHosts.some(matches)) return false;
+  return !policy.allowedHosts.length || policy.allowedHosts.some(matches);
+}
+
+interface UnfurlJob {
+  messageId: number;
+  urls: string[];
+}
+
+/**
+ * Fetches previews for the links in sent and edited messages, one message at a time
+ * and off the request path. Previews are cached by URL; attaching them to the message
+ * publishes message_updated, which is how clients learn they're ready.
+ */
+export class LinkUnfurler {
+  private queue: UnfurlJob[] = [];
+  private running = false;
+
+  constructor(private readonly policy: LinkPreviewPolicy = resolveLinkPreviewPolicy()) {}
+
+  // An edit is always queued, since it may have removed links that had previews
+  enqueue(message: { id: number; content: string }, options: { edited?: boolean } = {}) {
+    const urls = extractPreviewUrls(message.content)
+      .filter(url => isPreviewAllowed(url, this.policy))
+      .slice(0, MAX_PREVIEWS_PER_MESSAGE);
+    if (!urls.length && !options.edited) return;
+
+    // A newer edit supersedes one still waiting
+    this.queue = this.queue.filter(job => job.messageId !== message.id);
+    if (this.queue.length >= MAX_QUEUE_LENGTH) {
+      console.warn(`[Links] Queue full, skipping previews for message ${message.id}`);
+      return;
+    }
+    this.queue.push({ messageId: message.id, urls });
+    this.drain();
+  }
+
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while (this.queue.length) {
+        const job = this.queue.shift()!;
+        try {
+          const previews = await Promise.all(job.urls.map(url => this.resolve(url)));
+          const ready = previews.filter(preview => preview.status === "ready");
+          await storage.setMessageLinkPreviews(job.messageId, ready.map(preview => preview.id));
+        } catch (error) {
+          console.error(`[Links] Failed to unfurl message ${job.messageId}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async resolve(url: string): Promise<LinkPreview> {
+    const cached = await storage.getLinkPreview(url);
+    const ttl = cached?.status === "ready" ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS;
+    if (cached && Date.now() - cached.fetchedAt.getTime() < ttl) return cached;
+
+    let metadata: LinkMetadata | undefined;
+    try {
+      metadata = await getLinkFetcher().fetch(url);
+    } catch (error) {
+      console.warn(`[Links] Couldn't fetch ${url}:`, error instanceof Error ? error.message : error);
+    }
+    return storage.saveLinkPreview(metadata ? { url, status: "ready", ...metadata } : { url, status: "failed" });
+  }
+}
+
+export const linkUnfurler = new LinkUnfurler();
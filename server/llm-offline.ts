@@ -0,0 +1,188 @@
+import type { ToneAnalysis, ReplyGeneration, MeetingNotesGeneration, ThreadSummaryGeneration } from "./ai";
+import type { LlmProvider, ReplyRequest, OrgMemoryMessage, MeetingMessage } from "./llm";
+
+// Deterministic, rule-based stand-in for a model. Used on dev machines, in CI and in
+// air-gapped installs where no model endpoint is reachable.
+
+const AGGRESSIVE_WORDS = ["stupid", "ridiculous", "unacceptable", "useless", "terrible", "idiot", "hate", "wtf", "never again", "your fault"];
+const URGENT_WORDS = ["asap", "urgent", "immediately", "right now", "critical", "blocker", "emergency", "eod", "deadline"];
+const FRIENDLY_WORDS = ["thanks", "thank you", "appreciate", "great", "awesome", "love", "cheers", "glad", "happy", ":)"];
+const CASUAL_WORDS = ["hey", "lol", "yeah", "cool", "gonna", "wanna", "btw", "haha", "yo"];
+const HEDGE_WORDS = ["maybe", "perhaps", "i think", "sort of", "kind of", "possibly", "not sure", "might"];
+const ACTION_PATTERN = /\b(will|todo|to-do|need to|needs to|should|must|action item|follow up|assign(?:ed)?|take care of)\b/i;
+const DECISION_PATTERN = /\b(decided|decision|agreed|we'll go with|let's go with|approved|final call|settled on)\b/i;
+const STOP_WORDS = new Set(["the", "a", "an", "and", "or", "but", "is", "are", "was", "were", "to", "of", "in", "on", "for", "with", "what", "who", "when", "where", "how", "why", "about", "latest", "this", "that", "it", "we", "i", "you", "do", "does", "did"]);
+
+function countMatches(text: string, words: string[]): number {
+  return words.reduce((count, word) => count + (text.includes(word) ? 1 : 0), 0);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+export class OfflineProvider implements LlmProvider {
+  readonly name = "offline" as const;
+
+  async analyzeTone(content: string): Promise<Partial<ToneAnalysis>> {
+    const text = content.toLowerCase();
+    const letters = content.replace(/[^a-zA-Z]/g, "");
+    const capsRatio = letters.length > 0 ? content.replace(/[^A-Z]/g, "").length / letters.length : 0;
+    const exclamations = (content.match(/!/g) || []).length;
+    const words = content.split(/\s+/).filter(Boolean);
+    const sentences = content.split(/[.!?]+/).filter(s => s.trim());
+    const avgSentenceLength = sentences.length ? words.length / sentences.length : words.length;
+
+    const scores = {
+      aggressive: countMatches(text, AGGRESSIVE_WORDS) * 2 + (capsRatio > 0.6 && letters.length > 8 ? 2 : 0) + (exclamations > 2 ? 1 : 0),
+      urgent: countMatches(text, URGENT_WORDS) * 2,
+      friendly: countMatches(text, FRIENDLY_WORDS) * 2,
+      casual: countMatches(text, CASUAL_WORDS) * 2,
+    };
+    const [topTone, topScore] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+    const tone = topScore > 0 ? topTone : "professional";
+
+    const hedges = countMatches(text, HEDGE_WORDS);
+    const clarity = avgSentenceLength > 30 || hedges >= 2
+      ? "needs clarity"
+      : avgSentenceLength > 20 || hedges === 1
+        ? "somewhat clear"
+        : "clear";
+
+    const hasAction = ACTION_PATTERN.test(content) || /\?/.test(content);
+    const impact = hasAction && words.length >= 6 ? "high" : words.length >= 4 ? "medium" : "low";
+
+    const suggestions: string[] = [];
+    if (tone === "aggressive") suggestions.push("Describe the problem and its effect instead of assigning blame.");
+    if (capsRatio > 0.6 && letters.length > 8) suggestions.push("Avoid writing in all caps; it reads as shouting.");
+    if (clarity !== "clear") suggestions.push("Break long sentences up and state the main point first.");
+    if (hedges > 0) suggestions.push("Drop hedging words so the request sounds confident.");
+    if (impact === "low") suggestions.push("Add a concrete next step or question so readers know what to do.");
+
+    const suggestedTones = tone === "aggressive"
+      ? ["professional", "constructive"]
+      : tone === "urgent"
+        ? ["direct", "professional"]
+        : tone === "casual"
+          ? ["friendly", "professional"]
+          : ["professional", "friendly"];
+
+    return {
+      tone,
+      impact,
+      clarity,
+      // Rules are cruder than a model, so never claim high confidence
+      confidence: Math.min(80, 50 + topScore * 5 + (clarity === "clear" ? 10 : 0)),
+      suggestions,
+      suggestedTones,
+      explanation: `Rule-based analysis: the message reads as ${tone}; a ${suggestedTones[0]} tone keeps the focus on the outcome.`,
+    };
+  }
+
+  async generateReply(request: ReplyRequest): Promise<Partial<ReplyGeneration>> {
+    const subject = truncate(request.messageContent.trim(), 80);
+    const isQuestion = /\?\s*$/.test(request.messageContent.trim());
+    const lastContext = request.threadContext[request.threadContext.length - 1];
+
+    const candidates = [
+      {
+        suggestedReply: isQuestion
+          ? `Good question. Let me look into "${subject}" and get back to you shortly.`
+          : `Thanks for the update on "${subject}". I'll take a look and follow up.`,
+        confidence: 60,
+        reasoning: "Acknowledges the message and commits to a follow-up.",
+      },
+      {
+        suggestedReply: lastContext
+          ? `Building on the earlier point ("${truncate(lastContext, 60)}"), could you share a bit more detail so we can move forward?`
+          : "Could you share a bit more detail so we can move forward?",
+        confidence: 55,
+        reasoning: "Asks a clarifying question grounded in the recent conversation.",
+      },
+      {
+        suggestedReply: "Sounds good to me. Let me know if there's anything I can help with.",
+        confidence: 50,
+        reasoning: "Short, friendly confirmation that keeps the thread moving.",
+      },
+    ];
+
+    return { suggestions: request.generateMultiple ? candidates : candidates.slice(0, 1) };
+  }
+
+  async queryOrgMemory(query: string, messages: OrgMemoryMessage[]) {
+    const queryTokens = new Set(tokenize(query));
+    const ranked = messages
+      .map(msg => ({ msg, score: tokenize(msg.content).filter(token => queryTokens.has(token)).length }))
+      .filter(entry => entry.score > 0 || queryTokens.size === 0)
+      .sort((a, b) => b.score - a.score || b.msg.timestamp.localeCompare(a.msg.timestamp));
+
+    if (!ranked.length) {
+      return { summary: "No relevant information found.", keyPoints: [] };
+    }
+
+    const channelNames = Array.from(new Set(ranked.map(entry => entry.msg.channelName)));
+    return {
+      summary: `Found ${ranked.length} message${ranked.length === 1 ? "" : "s"} about "${query}" across ${channelNames.join(", ")}.`,
+      keyPoints: ranked.slice(0, 5).map(({ msg }) => `${msg.authorName} in ${msg.channelName}: ${truncate(msg.content, 160)}`),
+    };
+  }
+
+  async generateMeetingNotes(messages: MeetingMessage[], channelName: string, pinned: MeetingMessage[]): Promise<Partial<MeetingNotesGeneration>> {
+    const participants = Array.from(new Set(messages.map(msg => msg.authorName)));
+    const actionItems = messages
+      .filter(msg => ACTION_PATTERN.test(msg.content))
+      .map(msg => `${msg.authorName}: ${truncate(msg.content, 160)}`);
+    const decisions = messages
+      .filter(msg => DECISION_PATTERN.test(msg.content))
+      .map(msg => truncate(msg.content, 160));
+    // Pinned messages were marked important by the channel; after them, longer messages
+    // tend to carry the substance of a discussion
+    const pinnedContents = new Set(pinned.map(msg => msg.content));
+    const keyPoints = [...messages]
+      .sort((a, b) => Number(pinnedContents.has(b.content)) - Number(pinnedContents.has(a.content)) || b.content.length - a.content.length)
+      .slice(0, 5)
+      .map(msg => `${msg.authorName}: ${truncate(msg.content, 160)}`);
+
+    const first = messages[0]?.timestamp.slice(0, 10);
+    const last = messages[messages.length - 1]?.timestamp.slice(0, 10);
+
+    return {
+      title: `#${channelName} discussion${first ? ` (${first === last ? first : `${first} – ${last}`})` : ""}`,
+      summary: `${participants.length} participant${participants.length === 1 ? "" : "s"} exchanged ${messages.length} message${messages.length === 1 ? "" : "s"} in #${channelName}, with ${actionItems.length} action item${actionItems.length === 1 ? "" : "s"} and ${decisions.length} decision${decisions.length === 1 ? "" : "s"} identified.`,
+      keyPoints,
+      actionItems,
+      participants,
+      decisions,
+    };
+  }
+
+  async summarizeThread(messages: MeetingMessage[]): Promise<Partial<ThreadSummaryGeneration>> {
+    const [root, ...replies] = messages;
+    // Whoever started the thread only counts if they replied to it too
+    const repliers = new Set(replies.map(msg => msg.authorName)).size;
+    const actionItems = messages
+      .filter(msg => ACTION_PATTERN.test(msg.content))
+      .map(msg => `${msg.authorName}: ${truncate(msg.content, 160)}`);
+    const decision = [...messages].reverse().find(msg => DECISION_PATTERN.test(msg.content));
+    // A question nobody has replied to yet is still open
+    const last = messages[messages.length - 1];
+    const openQuestions = /\?\s*$/.test(last.content.trim()) ? [`${last.authorName}: ${truncate(last.content, 160)}`] : [];
+    const keyPoints = [...replies]
+      .sort((a, b) => b.content.length - a.content.length)
+      .slice(0, 3)
+      .map(msg => `${msg.authorName}: ${truncate(msg.content, 160)}`);
+
+    return {
+      summary: `${root.authorName} started a thread about "${truncate(root.content, 80)}". ` +
+        `${repliers} ${repliers === 1 ? "person" : "people"} added ${replies.length} repl${replies.length === 1 ? "y" : "ies"}` +
+        (decision ? `, ending with: "${truncate(decision.content, 120)}".` : "."),
+      keyPoints,
+      actionItems,
+      openQuestions,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import OpenAI from "openai";
+import type { ToneAnalysis, ReplyGeneration, MeetingNotesGeneration, ThreadSummaryGeneration } from "./ai";
+import { OfflineProvider } from "./llm-offline";
+
+export type LlmProviderName = "openai" | "local" | "offline";
+
+export interface ReplyRequest {
+  messageContent: string;
+  threadContext: string[];
+  orgContext: string;
+  // "Author: content" lines for the messages pinned in the conversation's channel
+  pinnedContext: string[];
+  generateMultiple: boolean;
+}
+
+export interface OrgMemoryMessage {
+  id: number;
+  sourceType: "message" | "meeting_notes";
+  content: string;
+  channelName: string;
+  authorName: string;
+  timestamp: string;
+}
+
+export interface MeetingMessage {
+  content: string;
+  authorName: string;
+  timestamp: string;
+}
+
+// Providers return the raw model output; ai.ts fills defaults and clamps values
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  analyzeTone(content: string): Promise<Partial<ToneAnalysis>>;
+  generateReply(request: ReplyRequest): Promise<Partial<ReplyGeneration>>;
+  queryOrgMemory(query: string, messages: OrgMemoryMessage[]): Promise<{ summary?: string; keyPoints?: string[] }>;
+  // Pinned messages are background for the notes, not part of the discussion being summarized
+  generateMeetingNotes(messages: MeetingMessage[], channelName: string, pinned: MeetingMessage[]): Promise<Partial<MeetingNotesGeneration>>;
+  // The first message is the thread's root, the rest its replies in order
+  summarizeThread(messages: MeetingMessage[]): Promise<Partial<ThreadSummaryGeneration>>;
+}
+
+// Chat messages are markdown, so the model should read them as such and write it back
+const MARKDOWN_INPUT = `Chat messages are written in markdown: **bold**, _italic_, ~~strikethrough~~, \`inline code\`, \`\`\` fenced code blocks, > quotes, - and 1. lists, and links. Read the formatting as emphasis, not as part of the words.`;
+const MARKDOWN_OUTPUT = `Messages you write are rendered as that same markdown subset. Use it where it helps (code in backticks or fences, lists for steps), escape nothing, and don't use headings, tables or HTML, which are shown as plain text.`;
+
+interface ChatCompletionConfig {
+  name: "openai" | "local";
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+}
+
+// Talks to OpenAI or to any server exposing the OpenAI chat completions API (Ollama, llama.cpp, vLLM)
+export class ChatCompletionProvider implements LlmProvider {
+  readonly name: "openai" | "local";
+  private client: OpenAI;
+  private model: string;
+
+  constructor(config: ChatCompletionConfig) {
+    this.name = config.name;
+    this.model = config.model;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+
+  private async completeJson(system: string, user: string, options: { temperature?: number; maxTokens?: number } = {}) {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new Error(`Empty response from ${this.name} provider`);
+    }
+
+    try {
+      return JSON.parse(stripCodeFence(content.trim()));
+    } catch (parseError) {
+      console.error(`[LLM] Failed to parse ${this.name} response:`, parseError);
+      console.error("[LLM] Raw response:", content);
+      throw new Error("Failed to parse AI response");
+    }
+  }
+
+  async analyzeTone(content: string): Promise<Partial<ToneAnalysis>> {
+    return this.completeJson(
+      `You are an expert communication analyst. Analyze the tone, impact, and clarity of messages and provide improvement suggestions.
+      Your analysis should be thorough and include:
+      1. Current tone identification
+      2. Impact assessment
+      3. Clarity evaluation
+      4. Specific suggestions for improvement
+      5. Alternative tone suggestions that would be more appropriate
+      ${MARKDOWN_INPUT}
+
+      Respond with JSON in this format:
+      {
+        "tone": "string (professional, casual, urgent, friendly, aggressive, etc.)",
+        "impact": "string (high, medium, low)",
+        "clarity": "string (clear, somewhat clear, needs clarity)",
+        "confidence": number (0-100),
+        "suggestions": ["array of improvement suggestions"],
+        "suggestedTones": ["array of 2-3 alternative tones that might be more appropriate"],
+        "explanation": "string explaining why these tones would be better"
+      }`,
+      `Analyze this message: "${content}"`
+    );
+  }
+
+  async generateReply(request: ReplyRequest): Promise<Partial<ReplyGeneration>> {
+    const contextPrompt = `
+    Thread context: ${request.threadContext.join('\n')}
+    Organizational context: ${request.orgContext}
+    ${request.pinnedContext.length ? `Pinned in this channel (what its members consider important):\n${request.pinnedContext.join('\n')}` : ''}
+    `;
+
+    return this.completeJson(
+      `You are an AI assistant helping to compose professional, contextually appropriate messages in a workplace chat.
+      Consider the thread context and channel information to generate helpful, relevant responses.
+
+      When composing messages:
+      1. Consider the channel's purpose and recent conversation context
+      2. Maintain a professional and appropriate tone
+      3. Be concise but informative
+      4. Include relevant details from the context
+      5. Keep the message focused and on-topic for the channel
+
+      ${MARKDOWN_INPUT}
+      ${MARKDOWN_OUTPUT} Inside the JSON, suggestedReply is that markdown as a string.
+
+      You must respond with valid JSON only in this exact format:
+      {
+        "suggestions": [
+          {
+            "suggestedReply": "string (the suggested response)",
+            "confidence": number (0-100),
+            "reasoning": "string (why this message is appropriate)"
+          }
+          // Generate 3 different suggestions with varying tones and approaches
+        ]
+      }
+      Do not include any other text or explanation outside the JSON.`,
+      `Generate ${request.generateMultiple ? "3 different" : "1"} message(s) for this context:\n\n${contextPrompt}`,
+      { temperature: 0.7, maxTokens: 1000 }
+    );
+  }
+
+  async queryOrgMemory(query: string, messages: OrgMemoryMessage[]) {
+    const messagesContext = messages.map(msg => msg.sourceType === "meeting_notes"
+      ? `[${msg.channelName}] Meeting notes generated by ${msg.authorName} (${msg.timestamp}):\n${msg.content}`
+      : `[${msg.channelName}] ${msg.authorName} (${msg.timestamp}): ${msg.content}`
+    ).join('\n');
+
+    return this.completeJson(
+      `You are an AI organizational memory assistant. Analyze relevant messages and provide comprehensive summaries.
+      ${MARKDOWN_INPUT}
+      IMPORTANT: Your response must be a valid JSON object with no additional text or explanations.
+      Required JSON format:
+      {
+        "query": "string (the original query)",
+        "summary": "string (comprehensive summary)",
+        "sources": [{"channelName": "string", "messageCount": number, "lastUpdate": "string"}],
+        "keyPoints": ["array of key points"]
+      }`,
+      `Query: "${query}"\n\nRelevant messages:\n${messagesContext}`,
+      { temperature: 0.7 }
+    );
+  }
+
+  async generateMeetingNotes(messages: MeetingMessage[], channelName: string, pinned: MeetingMessage[]): Promise<Partial<MeetingNotesGeneration>> {
+    const messagesText = messages.map(msg =>
+      `${msg.authorName} (${msg.timestamp}): ${msg.content}`
+    ).join('\n');
+    const pinnedText = pinned.length
+      ? `\n\nPinned in #${channelName} for background; use them to judge what matters, but only summarize the conversation above:\n${pinned.map(msg => `${msg.authorName} (${msg.timestamp}): ${msg.content}`).join('\n')}`
+      : '';
+
+    return this.completeJson(
+      `You are an AI meeting notes generator. Analyze the following conversation thread and extract key information.
+      ${MARKDOWN_INPUT}
+      IMPORTANT: Your response must be a valid JSON object with no additional text or explanations.
+      Required JSON format:
+      {
+        "title": "string (meeting title)",
+        "summary": "string (brief summary)",
+        "keyPoints": ["array of key discussion points"],
+        "actionItems": ["array of action items"],
+        "participants": ["array of participant names"],
+        "decisions": ["array of decisions made"]
+      }`,
+      `Generate structured meeting notes from this ${channelName} conversation:\n\n${messagesText}${pinnedText}`,
+      { temperature: 0.7 }
+    );
+  }
+
+  async summarizeThread(messages: MeetingMessage[]): Promise<Partial<ThreadSummaryGeneration>> {
+    const [root, ...replies] = messages;
+    const repliesText = replies.map(msg =>
+      `${msg.authorName} (${msg.timestamp}): ${msg.content}`
+    ).join('\n');
+
+    return this.completeJson(
+      `You are an AI assistant that summarizes discussion threads in a workplace chat for people catching up on them.
+      Focus on where the discussion landed rather than retelling it message by message.
+      ${MARKDOWN_INPUT}
+      IMPORTANT: Your response must be a valid JSON object with no additional text or explanations.
+      Required JSON format:
+      {
+        "summary": "string (2-3 sentence summary of the thread and its outcome)",
+        "keyPoints": ["array of the main points raised"],
+        "actionItems": ["array of action items, with owners where known"],
+        "openQuestions": ["array of questions that are still unanswered"]
+      }`,
+      `Thread started by ${root.authorName} (${root.timestamp}): ${root.content}\n\nReplies:\n${repliesText}`,
+      { temperature: 0.3 }
+    );
+  }
+}
+
+// Local models often wrap JSON in ```json fences even when told not to
+function stripCodeFence(text: string): string {
+  const match = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text;
+}
+
+function resolveProviderName(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured === "openai" || configured === "local" || configured === "offline") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${configured}", falling back to auto-detection`);
+  }
+  return process.env.OPENAI_API_KEY ? "openai" : "offline";
+}
+
+export function createLlmProvider(name: LlmProviderName = resolveProviderName()): LlmProvider {
+  switch (name) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OpenAI API key is not configured in environment variables");
+      }
+      return new ChatCompletionProvider({
+        name,
+        apiKey,
+        model: process.env.LLM_MODEL || "gpt-3.5-turbo",
+      });
+    }
+    case "local":
+      return new ChatCompletionProvider({
+        name,
+        // Most local servers ignore the key but the client refuses to start without one
+        apiKey: process.env.LLM_API_KEY || "local",
+        baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.LLM_MODEL || "llama3.1",
+      });
+    case "offline":
+      return new OfflineProvider();
+  }
+}
+
+let provider: LlmProvider | undefined;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createLlmProvider();
+    console.log(`[LLM] Using ${provider.name} provider`);
+  }
+  return provider;
+}
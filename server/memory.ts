@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { getEmbedder, cosineSimilarity } from "./embeddings";
+import { meetingNotesText } from "./indexer";
+import { parseSearchQuery } from "./search";
+import type { OrgMemoryMessage } from "./llm";
+
+const KEYWORD_LIMIT = 30;
+const VECTOR_LIMIT = 30;
+const NOTES_LIMIT = 3;
+// How many of the most recent embeddings are scored per query
+const CANDIDATE_LIMIT = 2000;
+// Below this the "match" is mostly noise, whichever embedder is in use
+const MIN_SIMILARITY = 0.2;
+// Standard reciprocal rank fusion constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+function topBySimilarity(
+  queryVector: number[],
+  candidates: { sourceId: number; embedding: number[] }[],
+  limit: number
+): number[] {
+  return candidates
+    .map(candidate => ({ id: candidate.sourceId, score: cosineSimilarity(queryVector, candidate.embedding) }))
+    .filter(candidate => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.id);
+}
+
+/**
+ * Finds the messages and meeting notes most relevant to an org memory question by
+ * fusing full-text search with vector similarity, so questions worded differently
+ * from the original messages still find them. Search operators (from:, in:, ...)
+ * in the question constrain both legs.
+ */
+export async function retrieveOrgMemoryContext(query: string, viewerId: number, limit = 20): Promise<OrgMemoryMessage[]> {
+  const { text, filters } = parseSearchQuery(query);
+
+  const keywordResults = await storage.searchMessages(text, {
+    ...filters,
+    viewerId,
+    matchAny: true,
+    limit: KEYWORD_LIMIT,
+  });
+
+  let vectorMessageIds: number[] = [];
+  let vectorNoteIds: number[] = [];
+  if (text) {
+    try {
+      const embedder = getEmbedder();
+      const [queryVector] = await embedder.embed([text]);
+      vectorMessageIds = topBySimilarity(
+        queryVector,
+        await storage.getMessageEmbeddings(embedder.model, viewerId, CANDIDATE_LIMIT),
+        VECTOR_LIMIT
+      );
+      vectorNoteIds = topBySimilarity(
+        queryVector,
+        await storage.getMeetingNotesEmbeddings(embedder.model, viewerId, CANDIDATE_LIMIT),
+        NOTES_LIMIT
+      );
+    } catch (error) {
+      // Keyword results alone are still useful, so don't fail the query
+      console.error("[Memory] Vector retrieval failed:", error);
+    }
+  }
+
+  // Re-run the vector hits through search so filters and visibility rules apply to them too
+  const vectorResults = vectorMessageIds.length
+    ? await storage.searchMessages("", { ...filters, viewerId, ids: vectorMessageIds, limit: VECTOR_LIMIT })
+    : [];
+  const vectorRank = new Map(vectorMessageIds.map((id, index) => [id, index]));
+  vectorResults.sort((a, b) => vectorRank.get(a.id)! - vectorRank.get(b.id)!);
+
+  const fused = new Map<string, { score: number; item: OrgMemoryMessage }>();
+  const addRanked = (items: OrgMemoryMessage[]) => {
+    items.forEach((item, index) => {
+      const key = `${item.sourceType}:${item.id}`;
+      const entry = fused.get(key) || { score: 0, item };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(key, entry);
+    });
+  };
+
+  const toMemoryMessage = (msg: (typeof keywordResults)[number]): OrgMemoryMessage => ({
+    id: msg.id,
+    sourceType: "message",
+    content: msg.content,
+    channelName: msg.channel?.name || "Direct Message",
+    authorName: msg.author.displayName,
+    timestamp: msg.createdAt.toISOString(),
+  });
+  addRanked(keywordResults.map(toMemoryMessage));
+  addRanked(vectorResults.map(toMemoryMessage));
+
+  if (vectorNoteIds.length) {
+    const notes = await storage.getMeetingNotesByIds(vectorNoteIds);
+    const noteRank = new Map(vectorNoteIds.map((id, index) => [id, index]));
+    addRanked(
+      notes
+        .filter(note => !filters.channelName || note.channel?.name === filters.channelName)
+        .filter(note => !filters.channelId || note.channelId === filters.channelId)
+        .sort((a, b) => noteRank.get(a.id)! - noteRank.get(b.id)!)
+        .map(note => ({
+          id: note.id,
+          sourceType: "meeting_notes" as const,
+          content: meetingNotesText(note),
+          channelName: note.channel?.name || "Direct Message",
+          authorName: note.generator.displayName,
+          timestamp: note.createdAt.toISOString(),
+        }))
+    );
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.item);
+}
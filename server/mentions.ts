@@ -0,0 +1,62 @@
+import { storage, type MentionTarget } from "./storage";
+import { canViewMessage } from "./permissions";
+import type { Message } from "@shared/schema";
+import { MENTION_PATTERN } from "@shared/mentions";
+
+// Only people who have set themselves available count as "here"
+const HERE_STATUS = "available";
+
+export interface ParsedMentions {
+  usernames: string[];
+  channel: boolean;
+  here: boolean;
+}
+
+export function parseMentions(content: string): ParsedMentions {
+  const names = new Set(Array.from(content.matchAll(MENTION_PATTERN), match => match[1].toLowerCase()));
+  const channel = names.delete("channel");
+  const here = names.delete("here");
+  return { usernames: Array.from(names), channel, here };
+}
+
+/**
+ * Works out who a message notifies. @channel reaches every member and @here the
+ * members who are available; both only apply in channels. A direct mention wins
+ * over a group one. Nobody is notified about a message they can't see, and the
+ * author is never notified about their own message.
+ */
+export async function resolveMentions(message: Pick<Message, "content" | "authorId" | "channelId" | "recipientId">): Promise<MentionTarget[]> {
+  const parsed = parseMentions(message.content);
+  const targets = new Map<number, MentionTarget>();
+
+  if (message.channelId && (parsed.channel || parsed.here)) {
+    const members = await storage.getChannelMembers(message.channelId);
+    for (const member of members) {
+      if (parsed.channel) {
+        targets.set(member.userId, { userId: member.userId, kind: "channel" });
+      } else if (member.user.status === HERE_STATUS) {
+        targets.set(member.userId, { userId: member.userId, kind: "here" });
+      }
+    }
+  }
+
+  for (const user of await storage.getUsersByUsernames(parsed.usernames)) {
+    if (await canViewMessage(user.id, message)) {
+      targets.set(user.id, { userId: user.id, kind: "user" });
+    }
+  }
+
+  targets.delete(message.authorId);
+  return Array.from(targets.values());
+}
+
+// Stores a message's mentions and notifies anyone newly mentioned. Edits always
+// rewrite them, since removing a mention has to clear the old record.
+export async function recordMentions(
+  message: Pick<Message, "id" | "content" | "authorId" | "channelId" | "recipientId">,
+  options: { edited?: boolean } = {}
+): Promise<number[]> {
+  const mentions = await resolveMentions(message);
+  if (!mentions.length && !options.edited) return [];
+  return storage.setMessageMentions(message.id, mentions);
+}
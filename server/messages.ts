@@ -0,0 +1,79 @@
+import { storage, type MessageWithAuthor } from "./storage";
+import { canViewMessage, getChannelAccess } from "./permissions";
+import { recordMentions } from "./mentions";
+import { linkUnfurler } from "./link-previews";
+import { analyzeTone } from "./ai";
+import type { InsertMessage, Message } from "@shared/schema";
+
+// Where a message is going: a channel or a DM, optionally as a thread reply
+export type MessageTarget = Pick<Message, "authorId"> &
+  Partial<Pick<Message, "channelId" | "recipientId" | "parentMessageId" | "alsoSentToChannel">>;
+
+// Why a message couldn't be posted, with the status a route should answer
+export interface MessageTargetProblem {
+  status: 400 | 403 | 404;
+  message: string;
+}
+
+/**
+ * Checks the author may post to the target: they need post_message in a channel,
+ * and a reply must go to a thread's root in the conversation it started in.
+ * Scheduled messages are checked again when they're sent, since access can change.
+ */
+export async function checkMessageTarget(target: MessageTarget): Promise<MessageTargetProblem | undefined> {
+  const { authorId, channelId, recipientId, parentMessageId, alsoSentToChannel } = target;
+
+  if (channelId) {
+    const access = await getChannelAccess(authorId, channelId);
+    if (!access) return { status: 404, message: "Channel not found" };
+    if (!access.permissions.includes("post_message")) {
+      return { status: 403, message: "You don't have permission to do that in this channel" };
+    }
+  }
+
+  if (alsoSentToChannel && (!parentMessageId || !channelId)) {
+    return { status: 400, message: "Only thread replies in a channel can also be sent to the channel" };
+  }
+  if (parentMessageId) {
+    const parent = await storage.getMessage(parentMessageId);
+    if (!parent || !(await canViewMessage(authorId, parent))) {
+      return { status: 404, message: "Message not found" };
+    }
+    // Threads are one level deep and stay in the conversation they started in
+    const sameConversation = parent.channelId
+      ? parent.channelId === channelId
+      : !channelId && recipientId === (parent.authorId === authorId ? parent.recipientId : parent.authorId);
+    if (parent.parentMessageId || !sameConversation) {
+      return { status: 400, message: "Replies must be posted to a thread's root message, in its conversation" };
+    }
+  }
+  return undefined;
+}
+
+// Analyze tone in background; storing it publishes message_updated to clients
+export function analyzeMessageTone(message: { id: number; content: string }) {
+  if (!message.content) return;
+  analyzeTone(message.content)
+    // analyzeTone reports failures as a zero-confidence neutral result; don't persist those
+    .then(analysis => analysis.confidence > 0 ? storage.updateMessageAnalysis(message.id, message.content, analysis) : undefined)
+    .catch(error => console.error("Tone analysis error:", error));
+}
+
+// The message is already saved, so failing to record its mentions shouldn't fail the request
+export async function recordMessageMentions(message: Parameters<typeof recordMentions>[0], options?: { edited?: boolean }) {
+  try {
+    await recordMentions(message, options);
+  } catch (error) {
+    console.error("[Mentions] Failed to record mentions:", error);
+  }
+}
+
+// Saves a message that has passed checkMessageTarget, then does everything that follows
+// posting: mentions, tone analysis and link previews. Storage publishes message_created.
+export async function postMessage(data: InsertMessage, attachmentIds: number[] = []): Promise<MessageWithAuthor> {
+  const message = await storage.createMessage(data, attachmentIds);
+  await recordMessageMentions(message);
+  analyzeMessageTone(message);
+  linkUnfurler.enqueue(message);
+  return message;
+}
@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import { onEventPublished, type DomainEvent } from "./events";
+import { canViewChannel } from "./permissions";
+import type { InsertNotification, NotificationLevel, NotificationType } from "@shared/schema";
+
+const PREVIEW_LENGTH = 140;
+
+// Notifications addressed to the user personally; the only ones a "mentions" level lets through
+const PERSONAL_TYPES = new Set<NotificationType>(["mention", "action_item"]);
+
+export function preview(text: string) {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > PREVIEW_LENGTH ? `${singleLine.slice(0, PREVIEW_LENGTH - 1)}…` : singleLine;
+}
+
+// Action items that name a member, by @username or display name
+function findAssignees(actionItem: string, members: { userId: number; user: { username: string; displayName: string } }[]) {
+  const text = actionItem.toLowerCase();
+  return members.filter(({ user }) =>
+    text.includes(`@${user.username.toLowerCase()}`) || text.includes(user.displayName.toLowerCase())
+  );
+}
+
+/**
+ * Turns domain events into inbox notifications. Each channel member's notification
+ * level decides what reaches them; anyone else who is involved (e.g. a non-member
+ * who replied in a public channel's thread) is treated as "all" as long as they can
+ * still see the channel.
+ *
+ * Runs once per event on the instance that published it, so running several server
+ * instances doesn't notify anyone twice.
+ */
+export class NotificationDispatcher {
+  private unsubscribe: (() => void) | undefined;
+
+  start() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = onEventPublished(event => this.handle(event));
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  private async handle(event: DomainEvent) {
+    switch (event.type) {
+      case "message_created":
+        return this.notifyMessage(event.messageId);
+      case "mentions_created":
+        return this.notifyMentions(event.messageId, event.userIds);
+      case "meeting_notes_created":
+        return this.notifyMeetingNotes(event.notesId);
+    }
+  }
+
+  // Drops anything the recipient's level for this channel filters out, or that they can no longer see
+  private async filterByLevel(channelId: number, candidates: InsertNotification[]) {
+    const members = await storage.getChannelMembers(channelId);
+    const levels = new Map<number, NotificationLevel>(members.map(member => [member.userId, member.notificationLevel]));
+
+    const allowed: InsertNotification[] = [];
+    for (const notification of candidates) {
+      const level = levels.get(notification.userId);
+      if (level === "mute") continue;
+      if (level === "mentions" && !PERSONAL_TYPES.has(notification.type)) continue;
+      if (!level && !(await canViewChannel(notification.userId, channelId))) continue;
+      allowed.push(notification);
+    }
+    return allowed;
+  }
+
+  // DMs notify their recipient; thread replies notify everyone already in the thread
+  private async notifyMessage(messageId: number) {
+    const message = await storage.getMessage(messageId);
+    if (!message || message.deletedAt) return;
+    const base = { actorId: message.authorId, channelId: message.channelId, messageId, preview: preview(message.content) };
+
+    if (!message.channelId) {
+      if (message.recipientId && message.recipientId !== message.authorId) {
+        await storage.createNotifications([{ ...base, userId: message.recipientId, type: "direct_message" }]);
+      }
+      return;
+    }
+    if (!message.parentMessageId) return;
+
+    const participantIds = await storage.getThreadParticipantIds(message.parentMessageId);
+    const candidates: InsertNotification[] = participantIds
+      .filter(userId => userId !== message.authorId)
+      .map(userId => ({ ...base, userId, type: "thread_reply" }));
+    await storage.createNotifications(await this.filterByLevel(message.channelId, candidates));
+  }
+
+  // Mentions in a DM are already covered by the DM's own notification
+  private async notifyMentions(messageId: number, userIds: number[]) {
+    const message = await storage.getMessage(messageId);
+    if (!message || message.deletedAt || !message.channelId) return;
+
+    const candidates: InsertNotification[] = userIds.map(userId => ({
+      userId,
+      type: "mention",
+      actorId: message.authorId,
+      channelId: message.channelId,
+      messageId,
+      preview: preview(message.content),
+    }));
+    await storage.createNotifications(await this.filterByLevel(message.channelId, candidates));
+  }
+
+  // Members hear about new notes; anyone named in an action item gets that item instead
+  private async notifyMeetingNotes(notesId: number) {
+    const [notes] = await storage.getMeetingNotesByIds([notesId]);
+    if (!notes?.channelId) return;
+
+    let actionItems: string[] = [];
+    try {
+      const parsed = JSON.parse(notes.content);
+      if (Array.isArray(parsed.actionItems)) actionItems = parsed.actionItems.filter((item: unknown) => typeof item === "string");
+    } catch {
+      // Notes that aren't structured have no action items to assign
+    }
+
+    const members = (await storage.getChannelMembers(notes.channelId)).filter(member => member.userId !== notes.generatedBy);
+    const base = { actorId: notes.generatedBy, channelId: notes.channelId, meetingNotesId: notes.id, messageId: null };
+
+    const candidates: InsertNotification[] = [];
+    const assigned = new Set<number>();
+    for (const item of actionItems) {
+      for (const member of findAssignees(item, members)) {
+        assigned.add(member.userId);
+        candidates.push({ ...base, userId: member.userId, type: "action_item", preview: preview(item) });
+      }
+    }
+    for (const member of members) {
+      if (!assigned.has(member.userId)) {
+        candidates.push({ ...base, userId: member.userId, type: "meeting_notes", preview: preview(notes.title) });
+      }
+    }
+    await storage.createNotifications(await this.filterByLevel(notes.channelId, candidates));
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
@@ -0,0 +1,106 @@
+import { storage } from "./storage";
+import type { Channel, ChannelPermission, ChannelRole } from "@shared/schema";
+
+const GUEST_PERMISSIONS: ChannelPermission[] = ["view", "post_message", "react"];
+const MEMBER_PERMISSIONS: ChannelPermission[] = [...GUEST_PERMISSIONS, "pin_message", "manage_bookmarks", "invite_member", "generate_notes"];
+const ADMIN_PERMISSIONS: ChannelPermission[] = [
+  ...MEMBER_PERMISSIONS,
+  "edit_any_message",
+  "delete_any_message",
+  "remove_member",
+  "change_role",
+  "update_channel",
+  "archive_channel",
+];
+
+const ROLE_PERMISSIONS: Record<ChannelRole, ChannelPermission[]> = {
+  owner: [...ADMIN_PERMISSIONS, "delete_channel"],
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  guest: GUEST_PERMISSIONS,
+};
+
+// Anyone can read and take part in a public channel without joining it
+const PUBLIC_NON_MEMBER_PERMISSIONS = GUEST_PERMISSIONS;
+
+// An archived channel is read-only; only managing it (or unarchiving it) still works
+const ARCHIVED_PERMISSIONS = new Set<ChannelPermission>([
+  "view",
+  "remove_member",
+  "change_role",
+  "update_channel",
+  "archive_channel",
+  "delete_channel",
+]);
+
+const ROLE_RANK: Record<ChannelRole, number> = { guest: 0, member: 1, admin: 2, owner: 3 };
+
+export interface ChannelAccess {
+  channel: Channel;
+  role: ChannelRole | null;
+  permissions: ChannelPermission[];
+}
+
+/**
+ * Resolves what a user may do in a channel. Every channel route goes through
+ * this (or the helpers below) so the role rules live in one place. Returns
+ * undefined when the channel doesn't exist or is private and the user isn't in
+ * it; callers should answer 404 so private channels aren't revealed.
+ */
+export async function getChannelAccess(userId: number, channelId: number): Promise<ChannelAccess | undefined> {
+  if (!Number.isInteger(channelId)) return undefined;
+  const channel = await storage.getChannel(channelId);
+  if (!channel) return undefined;
+
+  const membership = await storage.getChannelMembership(channelId, userId);
+  // The creator stays an owner for as long as they're in the channel. This also covers
+  // channels created before roles existed, whose memberships all default to "member".
+  const role = membership && channel.createdBy === userId ? "owner" : membership?.role ?? null;
+  if (!role && channel.isPrivate) return undefined;
+
+  let permissions = role ? ROLE_PERMISSIONS[role] : PUBLIC_NON_MEMBER_PERMISSIONS;
+  if (channel.archivedAt) {
+    permissions = permissions.filter(permission => ARCHIVED_PERMISSIONS.has(permission));
+  }
+  return { channel, role, permissions };
+}
+
+export async function hasChannelPermission(userId: number, channelId: number, permission: ChannelPermission): Promise<boolean> {
+  const access = await getChannelAccess(userId, channelId);
+  return !!access?.permissions.includes(permission);
+}
+
+// Public channels are open to everyone; private ones only to their members
+export async function canViewChannel(userId: number, channelId: number): Promise<boolean> {
+  return !!(await getChannelAccess(userId, channelId));
+}
+
+// Channel messages follow their channel; DMs are visible to their two participants only
+export async function canViewMessage(
+  userId: number,
+  message: { channelId: number | null; authorId: number; recipientId: number | null }
+): Promise<boolean> {
+  if (message.channelId) return canViewChannel(userId, message.channelId);
+  return message.authorId === userId || message.recipientId === userId;
+}
+
+// Authors can edit and delete their own messages while they can still post in the channel;
+// editing or deleting anyone else's takes a moderator role. DMs can only be changed by their author.
+export async function canModifyMessage(
+  userId: number,
+  message: { channelId: number | null; authorId: number; recipientId: number | null },
+  action: "edit" | "delete"
+): Promise<boolean> {
+  if (!message.channelId) return message.authorId === userId;
+
+  const access = await getChannelAccess(userId, message.channelId);
+  if (!access) return false;
+  if (message.authorId === userId) return access.permissions.includes("post_message");
+  return access.permissions.includes(action === "edit" ? "edit_any_message" : "delete_any_message");
+}
+
+// Roles can only be handed out, taken away or acted on up to the actor's own level,
+// so admins can neither create owners nor demote or remove them
+export function canManageRole(actorRole: ChannelRole | null, role: ChannelRole): boolean {
+  return !!actorRole && ROLE_RANK[role] <= ROLE_RANK[actorRole];
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Each instance refreshes its own connections this often; rows nobody refreshes go stale
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// What a user's status dot shows, given their live connections and their own choice
+export function effectiveStatus(user: Pick<User, "statusOverride" | "statusExpiresAt">, connections: { total: number; active: number }, now = new Date()) {
+  if (!connections.total) return "offline";
+  if (user.statusOverride && (!user.statusExpiresAt || user.statusExpiresAt > now)) return user.statusOverride;
+  return connections.active ? "available" : "away";
+}
+
+/**
+ * Works out who is online from their WebSocket connections. Every connection is a
+ * row tagged with the instance holding it, so presence is right however many
+ * server instances there are. An instance that dies stops refreshing its rows and
+ * another instance's sweep removes them. A user with no live connection is offline;
+ * otherwise their manual status wins until it expires, and without one they are
+ * available unless every connection has gone idle.
+ */
+export class PresenceTracker {
+  readonly instanceId = randomUUID();
+  private interval: NodeJS.Timeout | undefined;
+
+  start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.sweep(), HEARTBEAT_INTERVAL_MS);
+    this.sweep();
+  }
+
+  stop() {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  async connect(userId: number, idle: boolean): Promise<number> {
+    const connectionId = await storage.addUserConnection(userId, this.instanceId, idle);
+    await this.refresh(userId);
+    return connectionId;
+  }
+
+  async setIdle(connectionId: number, userId: number, idle: boolean) {
+    await storage.setUserConnectionIdle(connectionId, idle);
+    await this.refresh(userId);
+  }
+
+  async disconnect(connectionId: number, userId: number) {
+    await storage.removeUserConnection(connectionId);
+    await this.refresh(userId);
+  }
+
+  // Recomputes one user's status; storage only announces it if it changed
+  async refresh(userId: number) {
+    const user = await storage.getUser(userId);
+    if (!user) return;
+    const connections = await storage.getUserConnectionCounts(userId, this.liveSince());
+    await storage.setUserPresence(userId, effectiveStatus(user, connections));
+  }
+
+  private liveSince() {
+    return new Date(Date.now() - STALE_AFTER_MS);
+  }
+
+  private async sweep() {
+    try {
+      await storage.touchUserConnections(this.instanceId);
+      const liveSince = this.liveSince();
+      const disconnected = await storage.removeStaleUserConnections(liveSince);
+      const offline = new Set(await storage.markDisconnectedUsersOffline(liveSince));
+      const expired = await storage.clearExpiredStatuses(new Date());
+
+      const affected = new Set([...disconnected, ...expired].filter(userId => !offline.has(userId)));
+      for (const userId of Array.from(affected)) {
+        await this.refresh(userId);
+      }
+    } catch (error) {
+      console.error("[Presence] Sweep failed:", error);
+    }
+  }
+}
+
+export const presenceTracker = new PresenceTracker();
@@ -0,0 +1,368 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { IncomingMessage, Server } from "http";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getEventBus, type DomainEvent, type MessageAudience } from "./events";
+import { canViewChannel } from "./permissions";
+import { presenceTracker } from "./presence";
+import type { User } from "@shared/schema";
+
+interface ClientInfo {
+  userId: number;
+  channels: Set<number>;
+  // Live events are held back until the client has resumed, so replayed and live events can't interleave
+  ready: boolean;
+}
+
+// Everyone subscribed to a channel, specific users wherever they are, or every connected user
+type Audience = { channelId: number } | { userIds: number[] } | { everyone: true };
+
+interface BufferedEvent {
+  seq: number;
+  audience: Audience;
+  sentAt: number;
+  payload: Record<string, unknown>;
+}
+
+// Events older than either limit can't be replayed; the client is told to refetch instead
+const REPLAY_BUFFER_SIZE = 1000;
+const REPLAY_WINDOW_MS = 10 * 60_000;
+
+function canSee(clientInfo: ClientInfo, audience: Audience) {
+  if ("everyone" in audience) return true;
+  return "channelId" in audience
+    ? clientInfo.channels.has(audience.channelId)
+    : audience.userIds.includes(clientInfo.userId);
+}
+
+// Channel subscribers for channel messages, both participants for DMs
+function messageAudience(message: MessageAudience): Audience {
+  return message.channelId
+    ? { channelId: message.channelId }
+    : { userIds: [message.authorId, message.recipientId].filter((id): id is number => id !== null) };
+}
+
+/**
+ * Mounts the /ws endpoint and forwards domain events from the event bus to the
+ * sockets allowed to see them. Clients only ever receive state loaded from the
+ * database here, never anything relayed from another client.
+ *
+ * Every event sent gets a sequence number. A reconnecting client sends back the
+ * last one it saw and is replayed whatever it missed from a short in-memory
+ * buffer. The epoch changes whenever the server restarts, and a client whose
+ * cursor comes from another epoch (or has fallen out of the buffer) is told to
+ * resync, i.e. refetch its data.
+ */
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const clients = new Map<WebSocket, ClientInfo>();
+  const wss = new WebSocketServer({ noServer: true });
+  const epoch = randomUUID();
+  let seq = 0;
+  const buffer: BufferedEvent[] = [];
+
+  const pruneBuffer = () => {
+    const cutoff = Date.now() - REPLAY_WINDOW_MS;
+    while (buffer.length > REPLAY_BUFFER_SIZE || (buffer.length && buffer[0].sentAt < cutoff)) {
+      buffer.shift();
+    }
+  };
+
+  const sendToAudience = (audience: Audience, event: Record<string, unknown>) => {
+    const payload = { ...event, seq: ++seq };
+    buffer.push({ seq, audience, sentAt: Date.now(), payload });
+    pruneBuffer();
+
+    const data = JSON.stringify(payload);
+    clients.forEach((clientInfo, clientWs) => {
+      if (clientWs.readyState === WebSocket.OPEN && clientInfo.ready && canSee(clientInfo, audience)) {
+        clientWs.send(data);
+      }
+    });
+  };
+
+  const joinChannel = async (ws: WebSocket, clientData: ClientInfo, channelId: number) => {
+    if (await canViewChannel(clientData.userId, channelId)) {
+      clientData.channels.add(channelId);
+    } else {
+      ws.send(JSON.stringify({ type: 'error', message: 'Cannot join channel', channelId }));
+    }
+  };
+
+  // Rejoin the client's channels, then either replay what it missed or tell it to refetch
+  const resume = async (ws: WebSocket, clientData: ClientInfo, request: { epoch?: unknown; since?: unknown; channels?: unknown }) => {
+    const channels = Array.isArray(request.channels) ? request.channels.map(Number) : [];
+    for (const channelId of channels) {
+      await joinChannel(ws, clientData, channelId);
+    }
+
+    pruneBuffer();
+    const since = typeof request.since === 'number' ? request.since : undefined;
+    const oldest = buffer.length ? buffer[0].seq : seq + 1;
+    // A fresh client has nothing to catch up on; otherwise the cursor must be ours and still covered by the buffer
+    const canReplay = request.epoch === undefined || request.epoch === null ||
+      (request.epoch === epoch && since !== undefined && since >= oldest - 1 && since <= seq);
+
+    if (canReplay) {
+      const missed = since === undefined ? [] : buffer.filter(entry => entry.seq > since && canSee(clientData, entry.audience));
+      missed.forEach(entry => ws.send(JSON.stringify(entry.payload)));
+      ws.send(JSON.stringify({ type: 'resumed', epoch, seq, replayed: missed.length }));
+    } else {
+      ws.send(JSON.stringify({ type: 'resync', epoch, seq }));
+    }
+    clientData.ready = true;
+  };
+
+  const deliver = async (event: DomainEvent) => {
+    switch (event.type) {
+      case "message_created":
+      case "message_updated":
+      case "message_deleted": {
+        const message = await storage.getMessage(event.messageId);
+        if (!message) return;
+        const type = event.type === "message_created" ? "new_message" : event.type;
+        sendToAudience(messageAudience(event), { type, message });
+        break;
+      }
+
+      case "reaction_updated": {
+        const reactions = (await storage.getReactionSummaries([event.messageId])).get(event.messageId) || [];
+        sendToAudience(messageAudience(event), {
+          type: "reaction_updated",
+          message: {
+            id: event.messageId,
+            channelId: event.channelId,
+            authorId: event.authorId,
+            recipientId: event.recipientId,
+            reactions,
+          },
+        });
+        break;
+      }
+
+      case "mentions_created": {
+        // Straight to the mentioned users, whether or not they have the conversation open
+        const message = await storage.getMessage(event.messageId);
+        if (!message) return;
+        sendToAudience({ userIds: event.userIds }, { type: "mention", message });
+        break;
+      }
+
+      case "notification_created": {
+        const notification = await storage.getNotification(event.notificationId);
+        if (!notification) return;
+        sendToAudience({ userIds: [event.userId] }, { type: "notification", notification });
+        break;
+      }
+
+      case "notifications_read":
+        // Keeps the inbox badge in step across the user's tabs
+        sendToAudience({ userIds: [event.userId] }, { type: "notifications_read" });
+        break;
+
+      case "saved_items_updated":
+      case "scheduled_messages_updated":
+        sendToAudience({ userIds: [event.userId] }, { type: event.type });
+        break;
+
+      case "meeting_notes_created":
+        if (!event.channelId) return;
+        sendToAudience({ channelId: event.channelId }, { type: "meeting_notes_created", notesId: event.notesId, channelId: event.channelId });
+        break;
+
+      case "channel_member_added":
+      case "channel_member_removed":
+      case "channel_member_updated": {
+        const payload = { type: event.type, channelId: event.channelId, userId: event.userId };
+        // Anyone looking at the channel refreshes its member list; the member refreshes their channel list
+        sendToAudience({ channelId: event.channelId }, payload);
+        sendToAudience({ userIds: [event.userId] }, payload);
+
+        if (event.type === "channel_member_removed") {
+          // Stop live updates to a removed member, unless the channel is public anyway
+          const stillVisible = await canViewChannel(event.userId, event.channelId);
+          if (!stillVisible) {
+            clients.forEach(clientInfo => {
+              if (clientInfo.userId === event.userId) clientInfo.channels.delete(event.channelId);
+            });
+          }
+        }
+        break;
+      }
+
+      case "pins_updated":
+      case "bookmarks_updated":
+        // Whoever has the channel open refetches its pins or bookmarks
+        sendToAudience({ channelId: event.channelId }, { type: event.type, channelId: event.channelId });
+        break;
+
+      case "channel_updated": {
+        const channel = await storage.getChannel(event.channelId);
+        if (!channel) return;
+        // Renames show up in everyone's sidebar, but a private channel only exists for its members
+        const audience: Audience = channel.isPrivate
+          ? { userIds: (await storage.getChannelMembers(channel.id)).map(member => member.userId) }
+          : { everyone: true };
+        sendToAudience(audience, { type: "channel_updated", channel });
+        break;
+      }
+
+      case "channel_deleted":
+        // The channel is gone, so there's no membership left to check; the id alone reveals nothing
+        sendToAudience({ everyone: true }, { type: "channel_deleted", channelId: event.channelId });
+        clients.forEach(clientInfo => clientInfo.channels.delete(event.channelId));
+        break;
+
+      case "presence_changed": {
+        const user = await storage.getUser(event.userId);
+        if (!user) return;
+        sendToAudience({ everyone: true }, {
+          type: "presence_changed",
+          user: {
+            id: user.id,
+            status: user.status,
+            statusText: user.statusText,
+            statusEmoji: user.statusEmoji,
+            statusExpiresAt: user.statusExpiresAt,
+          },
+        });
+        break;
+      }
+
+      case "user_updated": {
+        const user = await storage.getUser(event.userId);
+        if (!user) return;
+        const { password: _password, ...profile } = user;
+        sendToAudience({ everyone: true }, { type: "user_updated", user: profile });
+        break;
+      }
+
+      case "conversation_read":
+        // The reader's other tabs clear their badges; in a DM the other participant gets a read receipt
+        sendToAudience(
+          { userIds: event.otherUserId ? [event.userId, event.otherUserId] : [event.userId] },
+          {
+            type: "conversation_read",
+            userId: event.userId,
+            channelId: event.channelId,
+            otherUserId: event.otherUserId,
+            lastReadMessageId: event.lastReadMessageId,
+          }
+        );
+        break;
+    }
+  };
+
+  getEventBus().subscribe(deliver);
+
+  // Resolve the logged-in user from the session cookie sent with the upgrade request
+  const authenticateUpgrade = (req: IncomingMessage) =>
+    new Promise<number | undefined>((resolve) => {
+      sessionMiddleware(req as Request, {} as Response, () => {
+        const userId = (req as any).session?.passport?.user;
+        resolve(typeof userId === 'number' ? userId : undefined);
+      });
+    });
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    // Other upgrade requests (e.g. Vite HMR in development) are handled by their own listeners
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/ws') return;
+
+    try {
+      const userId = await authenticateUpgrade(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit('connection', ws, req, user);
+      });
+    } catch (error) {
+      console.error('WebSocket upgrade error:', error);
+      socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+      socket.destroy();
+    }
+  });
+
+  wss.on('connection', (ws: WebSocket, _req: IncomingMessage, user: User) => {
+    console.log('New WebSocket connection for user', user.id);
+    const clientData: ClientInfo = { userId: user.id, channels: new Set<number>(), ready: false };
+    clients.set(ws, clientData);
+
+    // Every socket counts towards the user being online until it closes; it starts out active
+    const connection = presenceTracker.connect(user.id, false).catch(error => {
+      console.error('[Presence] Failed to register connection:', error);
+      return undefined;
+    });
+    const setIdle = async (idle: boolean) => {
+      const connectionId = await connection;
+      if (connectionId !== undefined) await presenceTracker.setIdle(connectionId, user.id, idle);
+    };
+
+    const handleMessage = async (data: unknown) => {
+      try {
+        const message = JSON.parse(String(data));
+
+        switch (message.type) {
+          case 'resume':
+            await resume(ws, clientData, message);
+            if (typeof message.idle === 'boolean') await setIdle(message.idle);
+            break;
+
+          case 'presence':
+            // The client reports whether its user has gone idle (no input, or the tab hidden)
+            await setIdle(!!message.idle);
+            break;
+
+          case 'join_channel':
+            await joinChannel(ws, clientData, Number(message.channelId));
+            break;
+
+          case 'leave_channel':
+            clientData.channels.delete(Number(message.channelId));
+            break;
+
+          case 'typing':
+            // Typing indicators are ephemeral, so they go straight to this instance's sockets
+            // rather than through the event bus. Only relay to a channel this socket has been
+            // allowed into, and as the session's user.
+            if (!clientData.channels.has(message.channelId)) break;
+            clients.forEach((clientInfo, clientWs) => {
+              if (clientWs !== ws &&
+                  clientInfo.channels.has(message.channelId) &&
+                  clientWs.readyState === WebSocket.OPEN) {
+                clientWs.send(JSON.stringify({
+                  type: 'typing',
+                  userId: clientData.userId,
+                  channelId: message.channelId,
+                  isTyping: !!message.isTyping
+                }));
+              }
+            });
+            break;
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+      }
+    };
+
+    // Handle messages one at a time so a leave can't overtake the join before it
+    let queue = Promise.resolve();
+    ws.on('message', (data) => {
+      queue = queue.then(() => handleMessage(data));
+    });
+
+    ws.on('close', () => {
+      clients.delete(ws);
+      connection.then(connectionId => {
+        if (connectionId !== undefined) return presenceTracker.disconnect(connectionId, user.id);
+      }).catch(error => {
+        console.error('[Presence] Failed to remove connection:', error);
+      });
+      console.log('WebSocket connection closed');
+    });
+  });
+}
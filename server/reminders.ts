@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import { canViewMessage } from "./permissions";
+import { preview } from "./notifications";
+import type { SavedItem } from "@shared/schema";
+
+const SWEEP_INTERVAL_MS = 30_000;
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Fires the reminders on saved items once they come due, as inbox notifications
+ * (which reach the user's sockets like any other). Claiming a reminder marks it
+ * fired in the same statement, so with several instances sweeping each reminder is
+ * still sent once. A reminder on a message that has since been deleted, or that the
+ * user can no longer see, is claimed without notifying.
+ */
+export class ReminderScheduler {
+  private interval: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweep();
+  }
+
+  stop() {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  private async sweep() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let due: SavedItem[];
+      do {
+        due = await storage.claimDueReminders(new Date(), SWEEP_BATCH_SIZE);
+        for (const item of due) {
+          try {
+            await this.remind(item);
+          } catch (error) {
+            console.error(`[Reminders] Failed to send reminder ${item.id}:`, error);
+          }
+        }
+      } while (due.length === SWEEP_BATCH_SIZE);
+    } catch (error) {
+      console.error("[Reminders] Sweep failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async remind(item: SavedItem) {
+    const message = await storage.getMessage(item.messageId);
+    if (!message || message.deletedAt || !(await canViewMessage(item.userId, message))) return;
+
+    // For a DM the actor is the other participant, which is the conversation the inbox opens
+    const actorId = message.channelId || message.authorId !== item.userId ? message.authorId : message.recipientId;
+    await storage.createNotifications([{
+      userId: item.userId,
+      type: "reminder",
+      actorId,
+      channelId: message.channelId,
+      messageId: message.id,
+      preview: preview(message.content),
+    }]);
+  }
+}
+
+export const reminderScheduler = new ReminderScheduler();
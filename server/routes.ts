@@ -1,31 +1,165 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import multer from "multer";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { setupRealtime } from "./realtime";
+import {
+  getChannelAccess,
+  canViewChannel,
+  canViewMessage,
+  canModifyMessage,
+  canManageRole,
+  type ChannelAccess
+} from "./permissions";
+import { checkMessageTarget, postMessage, analyzeMessageTone, recordMessageMentions, type MessageTarget } from "./messages";
+import { scheduledMessageSender } from "./scheduled-messages";
+import { storage, type MessagePageOptions, type NotificationListOptions } from "./storage";
+import { parseSearchQuery } from "./search";
+import { embeddingIndexer } from "./indexer";
+import { notificationDispatcher } from "./notifications";
+import { presenceTracker } from "./presence";
+import { saveAttachment, attachmentJanitor } from "./attachments";
+import { linkUnfurler } from "./link-previews";
+import { reminderScheduler } from "./reminders";
+import { getBlobStore } from "./blob-store";
+import { saveAvatar, deleteAvatar, AVATAR_DIR, AVATAR_URL_PREFIX, MAX_AVATAR_BYTES } from "./avatars";
+import { retrieveOrgMemoryContext } from "./memory";
 import { 
   insertChannelSchema, 
   insertMessageSchema,
-  insertMeetingNotesSchema
+  insertMeetingNotesSchema,
+  channelRoles,
+  notificationLevels,
+  updateStatusSchema,
+  updateProfileSchema,
+  insertChannelBookmarkSchema,
+  saveItemSchema,
+  updateSavedItemSchema,
+  insertScheduledMessageSchema,
+  updateScheduledMessageSchema,
+  MAX_SCHEDULED_MESSAGES_PER_USER,
+  MAX_PINS_PER_CHANNEL,
+  MAX_BOOKMARKS_PER_CHANNEL,
+  type ChannelListItem,
+  type ChannelWithAccess,
+  type ChannelPermission,
+  type ChannelRole,
+  type NotificationLevel,
+  type ReactionSummary,
+  type User,
+  type UserProfile
 } from "@shared/schema";
+import { MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_MESSAGE, isAllowedAttachmentType, isInlineImage } from "@shared/attachments";
 import { 
   analyzeTone, 
   generateReply, 
   queryOrgMemory, 
-  generateMeetingNotes 
+  generateMeetingNotes,
+  summarizeThread
 } from "./ai";
 
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
+
+  // Avatar file names are unique per upload, so they never change once served
+  app.use(AVATAR_URL_PREFIX, express.static(AVATAR_DIR, { maxAge: "365d", immutable: true }));
+
+  // Images only; anything else is rejected before it's buffered
+  const avatarUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_AVATAR_BYTES, files: 1 },
+    fileFilter: (_req, file, callback) => callback(null, file.mimetype.startsWith("image/")),
+  }).single("avatar");
+
+  // One file per request; the type is checked in the route so the error can say why
+  const attachmentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  }).single("file");
+
+  // What other users (and the user themselves) see of an account: everything but the password hash
+  const toProfile = (user: User): UserProfile => {
+    const { password: _password, ...profile } = user;
+    return profile;
+  };
+
+  // Central channel permission check for routes: answers 404 for channels the user
+  // can't see and 403 for ones they can see but lack the permission in
+  const authorizeChannel = async (
+    req: Request,
+    res: Response,
+    channelId: number,
+    permission: ChannelPermission
+  ): Promise<ChannelAccess | undefined> => {
+    const access = await getChannelAccess(req.user!.id, channelId);
+    if (!access) {
+      res.status(404).json({ message: "Channel not found" });
+      return undefined;
+    }
+    if (!access.permissions.includes(permission)) {
+      res.status(403).json({ message: "You don't have permission to do that in this channel" });
+      return undefined;
+    }
+    return access;
+  };
+
+  // ?limit plus at most one of ?before, ?after or ?around, each a message id.
+  // Returns undefined (after answering 400) when the query doesn't make sense.
+  const parseMessagePage = (req: Request, res: Response): MessagePageOptions | undefined => {
+    const options: MessagePageOptions = {};
+    for (const key of ["limit", "before", "after", "around"] as const) {
+      const value = req.query[key];
+      if (value === undefined) continue;
+      const parsed = parseInt(value as string);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        res.status(400).json({ message: `Invalid ${key}` });
+        return undefined;
+      }
+      options[key] = parsed;
+    }
+    if ([options.before, options.after, options.around].filter(cursor => cursor !== undefined).length > 1) {
+      res.status(400).json({ message: "Use only one of before, after or around" });
+      return undefined;
+    }
+    return options;
+  };
+
+  const isChannelRole = (role: unknown): role is ChannelRole =>
+    typeof role === 'string' && (channelRoles as readonly string[]).includes(role);
+
+  const isNotificationLevel = (level: unknown): level is NotificationLevel =>
+    typeof level === 'string' && (notificationLevels as readonly string[]).includes(level);
+
+  // What a channel has pinned, as background for the AI; the newest pins are the most relevant
+  const getPinnedContext = async (channelId: number) =>
+    (await storage.getPinnedMessages(channelId)).slice(0, 10).map(pin => ({
+      content: pin.message.content,
+      authorName: pin.message.author.displayName,
+      timestamp: pin.message.createdAt.toISOString(),
+    }));
 
   // Channels
   app.get("/api/channels", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const channels = await storage.getChannels();
-      res.json(channels);
+      const [channels, memberships] = await Promise.all([
+        storage.getChannels(req.user!.id),
+        storage.getUserChannels(req.user!.id),
+      ]);
+      // Unread counts only exist for channels the user has joined
+      const unreadByChannel = new Map(memberships.map(channel => [channel.id, channel]));
+      res.json(channels.map((channel): ChannelListItem => {
+        const unread = unreadByChannel.get(channel.id);
+        return {
+          ...channel,
+          isMember: !!unread,
+          lastReadMessageId: unread?.lastReadMessageId ?? null,
+          unreadCount: unread?.unreadCount ?? 0,
+          mentionCount: unread?.mentionCount ?? 0,
+        };
+      }));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch channels" });
     }
@@ -35,8 +169,17 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const channel = await storage.getChannel(parseInt(req.params.id));
-      if (!channel) return res.sendStatus(404);
+      const channelId = parseInt(req.params.id);
+      // Private channels are indistinguishable from missing ones to non-members
+      const access = await authorizeChannel(req, res, channelId, "view");
+      if (!access) return;
+      const membership = await storage.getChannelMembership(channelId, req.user!.id);
+      const channel: ChannelWithAccess = {
+        ...access.channel,
+        role: access.role,
+        permissions: access.permissions,
+        notificationLevel: membership?.notificationLevel ?? null,
+      };
       res.json(channel);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch channel" });
@@ -59,23 +202,101 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Rename, redescribe, archive or unarchive
+  app.patch("/api/channels/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      const { name, description, archived } = req.body;
+      const changes: { name?: string; description?: string | null; archivedAt?: Date | null } = {};
+
+      if (name !== undefined || description !== undefined) {
+        if (!(await authorizeChannel(req, res, channelId, "update_channel"))) return;
+        if (name !== undefined) {
+          if (typeof name !== 'string' || !name.trim()) {
+            return res.status(400).json({ message: "Channel name is required" });
+          }
+          const existing = await storage.getChannelByName(name.trim());
+          if (existing && existing.id !== channelId) {
+            return res.status(409).json({ message: "A channel with that name already exists" });
+          }
+          changes.name = name.trim();
+        }
+        if (description !== undefined) {
+          changes.description = typeof description === 'string' && description.trim() ? description.trim() : null;
+        }
+      }
+      if (archived !== undefined) {
+        if (!(await authorizeChannel(req, res, channelId, "archive_channel"))) return;
+        changes.archivedAt = archived ? new Date() : null;
+      }
+      if (!Object.keys(changes).length) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const channel = await storage.updateChannel(channelId, changes);
+      res.json(channel);
+    } catch (error) {
+      console.error("[API] Failed to update channel:", error);
+      res.status(500).json({ message: "Failed to update channel" });
+    }
+  });
+
+  app.delete("/api/channels/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "delete_channel"))) return;
+
+      await storage.deleteChannel(channelId);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("[API] Failed to delete channel:", error);
+      res.status(500).json({ message: "Failed to delete channel" });
+    }
+  });
+
   app.get("/api/channels/:id/messages", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const channelId = parseInt(req.params.id);
-      const messages = await storage.getChannelMessages(channelId);
-      res.json(messages);
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
+      const options = parseMessagePage(req, res);
+      if (!options) return;
+      const page = await storage.getChannelMessages(channelId, options);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
+  app.post("/api/channels/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
+      const messageId = Number(req.body.messageId);
+      const message = Number.isInteger(messageId) ? await storage.getMessage(messageId) : undefined;
+      if (!message || message.channelId !== channelId) {
+        return res.status(400).json({ message: "Message is not in this channel" });
+      }
+      await storage.markConversationRead(req.user!.id, { channelId }, messageId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark channel as read" });
+    }
+  });
+
   app.get("/api/channels/:id/members", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
       const members = await storage.getChannelMembers(channelId);
       res.json(members);
     } catch (error) {
@@ -88,6 +309,12 @@ export function registerRoutes(app: Express): Server {
     
     try {
       const channelId = parseInt(req.params.id);
+      // Private channels are invite-only, and so invisible here to non-members
+      const access = await authorizeChannel(req, res, channelId, "view");
+      if (!access) return;
+      if (access.channel.archivedAt) {
+        return res.status(403).json({ message: "This channel is archived" });
+      }
       await storage.addChannelMember(channelId, req.user!.id);
       res.sendStatus(200);
     } catch (error) {
@@ -95,6 +322,123 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // In private channels inviting is the only way in
+  app.post("/api/channels/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      const { userId, role = "member" } = req.body;
+      if (!Number.isInteger(userId)) {
+        return res.status(400).json({ message: "userId is required" });
+      }
+      if (!isChannelRole(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const access = await authorizeChannel(req, res, channelId, "invite_member");
+      if (!access) return;
+      // Inviting someone straight in as an admin or owner is a role change too
+      if (role !== "member" && role !== "guest" &&
+          (!access.permissions.includes("change_role") || !canManageRole(access.role, role))) {
+        return res.status(403).json({ message: "You can't invite people with that role" });
+      }
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.addChannelMember(channelId, userId, role);
+      const members = await storage.getChannelMembers(channelId);
+      res.status(201).json(members);
+    } catch (error) {
+      console.error("[API] Failed to invite channel member:", error);
+      res.status(500).json({ message: "Failed to invite member" });
+    }
+  });
+
+  app.patch("/api/channels/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      const userId = parseInt(req.params.userId);
+      const { role } = req.body;
+      if (!isChannelRole(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const access = await authorizeChannel(req, res, channelId, "change_role");
+      if (!access) return;
+
+      const target = await storage.getChannelMembership(channelId, userId);
+      if (!target) {
+        return res.status(404).json({ message: "User is not a member of this channel" });
+      }
+      if (userId === access.channel.createdBy) {
+        return res.status(400).json({ message: "The channel creator is always an owner" });
+      }
+      if (!canManageRole(access.role, target.role) || !canManageRole(access.role, role)) {
+        return res.status(403).json({ message: "You can't change this member's role" });
+      }
+
+      const membership = await storage.updateChannelMemberRole(channelId, userId, role);
+      res.json(membership);
+    } catch (error) {
+      console.error("[API] Failed to change member role:", error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Each member picks their own level; archived channels can still be muted
+  app.put("/api/channels/:id/notification-level", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      const { level } = req.body;
+      if (!isNotificationLevel(level)) {
+        return res.status(400).json({ message: "Invalid notification level" });
+      }
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
+
+      const membership = await storage.updateChannelNotificationLevel(channelId, req.user!.id, level);
+      if (!membership) {
+        return res.status(400).json({ message: "Join the channel to change its notifications" });
+      }
+      res.json(membership);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification level" });
+    }
+  });
+
+  // Anyone can leave; removing someone else takes remove_member and a role at least as high as theirs
+  app.delete("/api/channels/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      const userId = parseInt(req.params.userId);
+      const leaving = userId === req.user!.id;
+
+      const access = await authorizeChannel(req, res, channelId, leaving ? "view" : "remove_member");
+      if (!access) return;
+
+      const target = await storage.getChannelMembership(channelId, userId);
+      if (!target) {
+        return res.status(404).json({ message: "User is not a member of this channel" });
+      }
+      if (!leaving && (userId === access.channel.createdBy || !canManageRole(access.role, target.role))) {
+        return res.status(403).json({ message: "You can't remove this member" });
+      }
+
+      await storage.removeChannelMember(channelId, userId);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("[API] Failed to remove channel member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
   // Messages
   app.post("/api/messages", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -105,31 +449,354 @@ export function registerRoutes(app: Express): Server {
         authorId: req.user!.id
       });
 
-      const message = await storage.createMessage(messageData);
-      
-      // Analyze tone in background
-      if (messageData.content) {
-        try {
-          const contentStr = Array.isArray(messageData.content) ? messageData.content.join(' ') : String(messageData.content);
-          analyzeTone(contentStr).then(analysis => {
-            console.log("Tone analysis:", analysis);
-          }).catch(console.error);
-        } catch (err) {
-          console.error("Tone analysis error:", err);
-        }
+      const problem = await checkMessageTarget(messageData as MessageTarget);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
       }
 
+      const rawAttachmentIds: unknown = req.body.attachmentIds ?? [];
+      const attachmentIds = Array.isArray(rawAttachmentIds) ? Array.from(new Set(rawAttachmentIds.map(Number))) : [];
+      if (!Array.isArray(rawAttachmentIds) || !attachmentIds.every(Number.isInteger)) {
+        return res.status(400).json({ message: "Invalid attachmentIds" });
+      }
+      if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return res.status(400).json({ message: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` });
+      }
+      if ((await storage.getPendingAttachments(req.user!.id, attachmentIds)).length !== attachmentIds.length) {
+        return res.status(400).json({ message: "Attachment not found or already sent" });
+      }
+      if (!String(messageData.content ?? "").trim() && !attachmentIds.length) {
+        return res.status(400).json({ message: "Message content is required" });
+      }
+
+      const message = await postMessage(messageData, attachmentIds);
       res.status(201).json(message);
     } catch (error) {
       res.status(400).json({ message: "Invalid message data" });
     }
   });
 
+  app.patch("/api/messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const { content } = req.body;
+      if (!content || typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "Message content is required" });
+      }
+
+      const existing = await storage.getMessage(messageId);
+      if (!existing || existing.deletedAt || !(await canViewMessage(req.user!.id, existing))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!(await canModifyMessage(req.user!.id, existing, "edit"))) {
+        return res.status(403).json({ message: "You can't edit this message" });
+      }
+
+      const message = await storage.updateMessage(messageId, content.trim(), req.user!.id);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      await recordMessageMentions(message, { edited: true });
+      analyzeMessageTone(message);
+      linkUnfurler.enqueue(message, { edited: true });
+
+      res.json(message);
+    } catch (error) {
+      console.error("[API] Failed to edit message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  app.delete("/api/messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const existing = await storage.getMessage(messageId);
+      if (!existing || existing.deletedAt || !(await canViewMessage(req.user!.id, existing))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!(await canModifyMessage(req.user!.id, existing, "delete"))) {
+        return res.status(403).json({ message: "You can't delete this message" });
+      }
+
+      const message = await storage.deleteMessage(messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("[API] Failed to delete message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Attachments are uploaded before the message is sent, for the conversation they'll be sent to
+  app.post("/api/attachments", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    attachmentUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError) {
+          const tooLarge = uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE";
+          return res.status(400).json({
+            message: tooLarge ? `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` : "Invalid upload",
+          });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "No file was uploaded" });
+        }
+        if (!isAllowedAttachmentType(req.file.mimetype)) {
+          return res.status(400).json({ message: "That file type isn't allowed" });
+        }
+
+        const channelId = req.body.channelId ? parseInt(req.body.channelId) : null;
+        const recipientId = req.body.recipientId ? parseInt(req.body.recipientId) : null;
+        if (channelId) {
+          if (!(await authorizeChannel(req, res, channelId, "post_message"))) return;
+        } else if (!recipientId || !(await storage.getUser(recipientId))) {
+          return res.status(400).json({ message: "channelId or recipientId is required" });
+        }
+
+        const attachment = await saveAttachment(req.user!.id, req.file);
+        res.status(201).json(attachment);
+      } catch (error) {
+        console.error("[API] Failed to upload attachment:", error);
+        res.status(500).json({ message: "Failed to upload attachment" });
+      }
+    });
+  });
+
+  // Visible to whoever can see the message it was sent with; before that, only to its uploader
+  app.get("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      const message = attachment?.messageId ? await storage.getMessage(attachment.messageId) : undefined;
+      const canView = !!attachment && (attachment.messageId
+        ? !!message && !message.deletedAt && await canViewMessage(req.user!.id, message)
+        : attachment.uploaderId === req.user!.id);
+      if (!attachment || !canView) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const file = await getBlobStore().get(attachment.storageKey);
+      if (!file) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      // Only images we trust a browser to render are shown inline; everything else downloads
+      const inline = isInlineImage(attachment.contentType) && req.query.download === undefined;
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Length", attachment.size);
+      res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      file.on("error", (error) => {
+        console.error("[API] Failed to stream attachment:", error);
+        res.destroy(error);
+      });
+      file.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  });
+
+  // Removing an upload from the composer; sent attachments go with their message
+  app.delete("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (!(await storage.discardAttachment(parseInt(req.params.id), req.user!.id))) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove attachment" });
+    }
+  });
+
+  // Reactions
+  const reactionRoute = (action: "add" | "remove") => async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const emoji = action === "add" ? req.body.emoji : req.params.emoji;
+      if (!emoji || typeof emoji !== 'string' || emoji.length > 64) {
+        return res.status(400).json({ message: "Invalid emoji" });
+      }
+
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (message.channelId && !(await authorizeChannel(req, res, message.channelId, "react"))) return;
+
+      if (action === "add") {
+        await storage.addReaction(messageId, req.user!.id, emoji);
+      } else {
+        await storage.removeReaction(messageId, req.user!.id, emoji);
+      }
+
+      const reactions = (await storage.getReactionSummaries([messageId])).get(messageId) || [];
+      res.json(reactions);
+    } catch (error) {
+      console.error(`[API] Failed to ${action} reaction:`, error);
+      res.status(500).json({ message: `Failed to ${action} reaction` });
+    }
+  };
+
+  app.post("/api/messages/:id/reactions", reactionRoute("add"));
+  app.delete("/api/messages/:id/reactions/:emoji", reactionRoute("remove"));
+
+  // Pins
+  app.get("/api/channels/:id/pins", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
+      res.json(await storage.getPinnedMessages(channelId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pinned messages" });
+    }
+  });
+
+  // Both answer with the channel's pins as they are afterwards; pinning twice is not an error
+  const pinRoute = (action: "pin" | "unpin") => async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!message.channelId) {
+        return res.status(400).json({ message: "Only channel messages can be pinned" });
+      }
+      if (!(await authorizeChannel(req, res, message.channelId, "pin_message"))) return;
+
+      if (action === "pin") {
+        const pins = await storage.getPinnedMessages(message.channelId);
+        if (!pins.some(pin => pin.messageId === messageId) && pins.length >= MAX_PINS_PER_CHANNEL) {
+          return res.status(400).json({ message: `A channel can have at most ${MAX_PINS_PER_CHANNEL} pinned messages` });
+        }
+        await storage.pinMessage(message.channelId, messageId, req.user!.id);
+      } else {
+        await storage.unpinMessage(messageId);
+      }
+
+      res.json(await storage.getPinnedMessages(message.channelId));
+    } catch (error) {
+      console.error(`[API] Failed to ${action} message:`, error);
+      res.status(500).json({ message: `Failed to ${action} message` });
+    }
+  };
+
+  app.post("/api/messages/:id/pin", pinRoute("pin"));
+  app.delete("/api/messages/:id/pin", pinRoute("unpin"));
+
+  // Bookmarks
+  app.get("/api/channels/:id/bookmarks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "view"))) return;
+      res.json(await storage.getChannelBookmarks(channelId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bookmarks" });
+    }
+  });
+
+  app.post("/api/channels/:id/bookmarks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "manage_bookmarks"))) return;
+
+      const parsed = insertChannelBookmarkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid bookmark" });
+      }
+      if ((await storage.getChannelBookmarks(channelId)).length >= MAX_BOOKMARKS_PER_CHANNEL) {
+        return res.status(400).json({ message: `A channel can have at most ${MAX_BOOKMARKS_PER_CHANNEL} bookmarks` });
+      }
+
+      const bookmark = await storage.createChannelBookmark(channelId, parsed.data, req.user!.id);
+      res.status(201).json(bookmark);
+    } catch (error) {
+      console.error("[API] Failed to add bookmark:", error);
+      res.status(500).json({ message: "Failed to add bookmark" });
+    }
+  });
+
+  app.delete("/api/channels/:id/bookmarks/:bookmarkId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const channelId = parseInt(req.params.id);
+      if (!(await authorizeChannel(req, res, channelId, "manage_bookmarks"))) return;
+      if (!(await storage.deleteChannelBookmark(channelId, parseInt(req.params.bookmarkId)))) {
+        return res.status(404).json({ message: "Bookmark not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove bookmark" });
+    }
+  });
+
+  app.get("/api/messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const message = await storage.getMessage(messageId);
+      if (!message || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const reactions = (await storage.getReactionSummaries([message.id])).get(message.id) || [];
+      res.json({ ...message, reactions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch message" });
+    }
+  });
+
+  app.get("/api/messages/:id/revisions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = parseInt(req.params.id);
+      const message = await storage.getMessage(messageId);
+      // A deleted message has no history to show
+      if (!message || message.deletedAt || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const revisions = await storage.getMessageRevisions(messageId);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch message history" });
+    }
+  });
+
   app.get("/api/messages/:id/thread", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const messageId = parseInt(req.params.id);
+      const parent = await storage.getMessage(messageId);
+      if (!parent || !(await canViewMessage(req.user!.id, parent))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
       const thread = await storage.getMessageThread(messageId);
       res.json(thread);
     } catch (error) {
@@ -142,13 +809,231 @@ export function registerRoutes(app: Express): Server {
     
     try {
       const otherUserId = parseInt(req.params.userId);
-      const messages = await storage.getDirectMessages(req.user!.id, otherUserId);
-      res.json(messages);
+      const options = parseMessagePage(req, res);
+      if (!options) return;
+      const page = await storage.getDirectMessages(req.user!.id, otherUserId, options);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch direct messages" });
     }
   });
 
+  app.post("/api/direct-messages/:userId/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const userId = req.user!.id;
+      const otherUserId = parseInt(req.params.userId);
+      const messageId = Number(req.body.messageId);
+      const message = Number.isInteger(messageId) ? await storage.getMessage(messageId) : undefined;
+      const inConversation = !!message && !message.channelId && (
+        (message.authorId === userId && message.recipientId === otherUserId) ||
+        (message.authorId === otherUserId && message.recipientId === userId)
+      );
+      if (!inConversation) {
+        return res.status(400).json({ message: "Message is not in this conversation" });
+      }
+      await storage.markConversationRead(userId, { otherUserId }, messageId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark conversation as read" });
+    }
+  });
+
+  // Notifications, newest first; `before` pages back through older ones
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const options: NotificationListOptions = { unreadOnly: req.query.unread === "true" };
+      for (const key of ["limit", "before"] as const) {
+        if (req.query[key] === undefined) continue;
+        const value = parseInt(req.query[key] as string);
+        if (!Number.isInteger(value) || value < 1) {
+          return res.status(400).json({ message: `Invalid ${key}` });
+        }
+        options[key] = value;
+      }
+
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id, options),
+        storage.getUnreadNotificationCount(req.user!.id),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Marks the given notifications read, or all of them when no ids are sent
+  app.post("/api/notifications/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { ids } = req.body;
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+        return res.status(400).json({ message: "ids must be a list of notification ids" });
+      }
+      const updated = await storage.markNotificationsRead(req.user!.id, ids);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  // The user's saved messages; completed=true lists the ones they've marked done
+  app.get("/api/saved", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const items = await storage.getSavedItems(req.user!.id, { completed: req.query.completed === "true" });
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved items" });
+    }
+  });
+
+  app.post("/api/saved", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = saveItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid saved item" });
+      }
+      const message = await storage.getMessage(parsed.data.messageId);
+      if (!message || message.deletedAt || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const item = await storage.saveMessage(req.user!.id, parsed.data);
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("[API] Failed to save message:", error);
+      res.status(500).json({ message: "Failed to save message" });
+    }
+  });
+
+  // Snoozes (a new remindAt), completes or reopens a saved item
+  app.patch("/api/saved/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = updateSavedItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid saved item" });
+      }
+      if (!Object.keys(parsed.data).length) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+      const item = await storage.updateSavedItem(parseInt(req.params.id), req.user!.id, parsed.data);
+      if (!item) {
+        return res.status(404).json({ message: "Saved item not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update saved item" });
+    }
+  });
+
+  app.delete("/api/saved/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (!(await storage.deleteSavedItem(parseInt(req.params.id), req.user!.id))) {
+        return res.status(404).json({ message: "Saved item not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove saved item" });
+    }
+  });
+
+  // The user's scheduled messages that haven't gone out, including ones that failed to
+  app.get("/api/scheduled-messages", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scheduled = await storage.getScheduledMessages(req.user!.id);
+      res.json(scheduled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scheduled messages" });
+    }
+  });
+
+  app.post("/api/scheduled-messages", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = insertScheduledMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid scheduled message" });
+      }
+      const problem = await checkMessageTarget({ ...parsed.data, authorId: req.user!.id });
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      if ((await storage.countPendingScheduledMessages(req.user!.id)) >= MAX_SCHEDULED_MESSAGES_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_SCHEDULED_MESSAGES_PER_USER} scheduled messages` });
+      }
+
+      const scheduled = await storage.createScheduledMessage(req.user!.id, parsed.data);
+      res.status(201).json(scheduled);
+    } catch (error) {
+      console.error("[API] Failed to schedule message:", error);
+      res.status(500).json({ message: "Failed to schedule message" });
+    }
+  });
+
+  // Changes the text or send time of a message that hasn't gone out yet
+  app.patch("/api/scheduled-messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = updateScheduledMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid scheduled message" });
+      }
+      if (!Object.keys(parsed.data).length) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const scheduledId = parseInt(req.params.id);
+      const existing = await storage.getScheduledMessage(scheduledId, req.user!.id);
+      if (!existing || existing.status === "sent") {
+        return res.status(404).json({ message: "Scheduled message not found" });
+      }
+      // Editing a failed message queues it again, so it counts against the limit like a new one
+      if (
+        existing.status === "failed" &&
+        (await storage.countPendingScheduledMessages(req.user!.id)) >= MAX_SCHEDULED_MESSAGES_PER_USER
+      ) {
+        return res.status(400).json({ message: `You can have at most ${MAX_SCHEDULED_MESSAGES_PER_USER} scheduled messages` });
+      }
+
+      const scheduled = await storage.updateScheduledMessage(scheduledId, req.user!.id, parsed.data);
+      if (!scheduled) {
+        return res.status(404).json({ message: "Scheduled message not found" });
+      }
+      res.json(scheduled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update scheduled message" });
+    }
+  });
+
+  app.delete("/api/scheduled-messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (!(await storage.deleteScheduledMessage(parseInt(req.params.id), req.user!.id))) {
+        return res.status(404).json({ message: "Scheduled message not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel scheduled message" });
+    }
+  });
+
   app.get("/api/direct-message-users", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -160,6 +1045,113 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.patch("/api/users/me", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid profile" });
+      }
+      if (!Object.keys(parsed.data).length) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      if (parsed.data.email) {
+        const existing = await storage.getUserByEmail(parsed.data.email);
+        if (existing && existing.id !== req.user!.id) {
+          return res.status(409).json({ message: "That email is already in use" });
+        }
+      }
+
+      const user = await storage.updateUserProfile(req.user!.id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toProfile(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  // Multipart upload with a single "avatar" file; it's resized and stored locally
+  app.post("/api/users/me/avatar", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    avatarUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError) {
+          const tooLarge = uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE";
+          return res.status(400).json({
+            message: tooLarge ? `Avatars can be at most ${MAX_AVATAR_BYTES / (1024 * 1024)} MB` : "Invalid upload",
+          });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "Upload an image file" });
+        }
+
+        const avatar = await saveAvatar(req.user!.id, req.file.buffer);
+        if (!avatar) {
+          return res.status(400).json({ message: "That file isn't a supported image" });
+        }
+
+        const previous = req.user!.avatar;
+        const user = await storage.updateUserProfile(req.user!.id, { avatar });
+        if (!user) {
+          await deleteAvatar(avatar);
+          return res.status(404).json({ message: "User not found" });
+        }
+        await deleteAvatar(previous);
+        res.json(toProfile(user));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to upload avatar" });
+      }
+    });
+  });
+
+  app.delete("/api/users/me/avatar", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const previous = req.user!.avatar;
+      const user = await storage.updateUserProfile(req.user!.id, { avatar: null });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await deleteAvatar(previous);
+      res.json(toProfile(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove avatar" });
+    }
+  });
+
+  // Manual status and custom status text; the effective status is recomputed from it and the user's connections
+  app.patch("/api/users/me/status", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = updateStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid status" });
+      }
+      if (!Object.keys(parsed.data).length) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      if (!(await storage.updateUserStatus(req.user!.id, parsed.data))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await presenceTracker.refresh(req.user!.id);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toProfile(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update status" });
+    }
+  });
+
   app.get("/api/users/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -169,7 +1161,7 @@ export function registerRoutes(app: Express): Server {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(toProfile(user));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
@@ -197,19 +1189,22 @@ export function registerRoutes(app: Express): Server {
         });
       }
 
-      // Get channel info if orgContext contains a channel ID
+      // The conversation's channel, given directly or as a "Channel: <id>" orgContext, adds its
+      // description and pinned messages to the context
       let enhancedOrgContext = orgContext;
-      if (orgContext.startsWith('Channel:')) {
-        const channelId = parseInt(orgContext.split(':')[1].trim());
-        if (!isNaN(channelId)) {
-          try {
-            const channel = await storage.getChannel(channelId);
-            if (channel) {
-              enhancedOrgContext = `Channel: ${channel.name}\nDescription: ${channel.description || 'No description'}`;
-            }
-          } catch (error) {
-            console.error("[API] Failed to fetch channel info:", error);
+      let pinnedContext: string[] = [];
+      const channelId = typeof req.body.channelId === 'number'
+        ? req.body.channelId
+        : orgContext.startsWith('Channel:') ? parseInt(orgContext.split(':')[1].trim()) : NaN;
+      if (!isNaN(channelId) && await canViewChannel(req.user!.id, channelId)) {
+        try {
+          const channel = await storage.getChannel(channelId);
+          if (channel && orgContext.startsWith('Channel:')) {
+            enhancedOrgContext = `Channel: ${channel.name}\nDescription: ${channel.description || 'No description'}`;
           }
+          pinnedContext = (await getPinnedContext(channelId)).map(pin => `${pin.authorName}: ${pin.content}`);
+        } catch (error) {
+          console.error("[API] Failed to fetch channel info:", error);
         }
       }
 
@@ -217,6 +1212,7 @@ export function registerRoutes(app: Express): Server {
         contentLength: messageContent.length,
         threadContextLength: threadContext.length,
         orgContextLength: enhancedOrgContext.length,
+        pinnedContextLength: pinnedContext.length,
         generateMultiple
       });
       
@@ -225,7 +1221,8 @@ export function registerRoutes(app: Express): Server {
         messageContent,
         threadContext,
         enhancedOrgContext,
-        generateMultiple
+        generateMultiple,
+        pinnedContext
       );
 
       // Only store in database if messageId is provided (i.e., not from AI modal)
@@ -272,17 +1269,14 @@ export function registerRoutes(app: Express): Server {
     try {
       const { query } = req.body;
       
-      // Search relevant messages across channels (simplified)
-      const relevantMessages = await storage.searchMessages(query);
-      
-      const formattedMessages = relevantMessages.map(msg => ({
-        content: msg.content,
-        channelName: msg.channel?.name || "Direct Message",
-        authorName: msg.author.displayName,
-        timestamp: msg.createdAt.toISOString()
-      }));
+      if (!query || typeof query !== 'string') {
+        return res.status(400).json({ message: "Query is required" });
+      }
+
+      // Hybrid keyword + vector retrieval across messages and meeting notes
+      const relevantMessages = await retrieveOrgMemoryContext(query, req.user!.id);
 
-      const result = await queryOrgMemory(query, formattedMessages);
+      const result = await queryOrgMemory(query, relevantMessages);
       res.json(result);
     } catch (error) {
       res.status(500).json({ message: "Failed to query organizational memory" });
@@ -305,16 +1299,23 @@ export function registerRoutes(app: Express): Server {
       console.log("[API] Generating meeting notes for channel:", channelId);
       
       // Get channel info
-      const channel = await storage.getChannel(channelId);
-      if (!channel) {
+      const access = await getChannelAccess(req.user!.id, channelId);
+      if (!access) {
         return res.status(404).json({ 
           message: "Channel not found",
           details: "The specified channel does not exist"
         });
       }
+      if (!access.permissions.includes("generate_notes")) {
+        return res.status(403).json({
+          message: "Not allowed",
+          details: "Your role in this channel can't generate meeting notes"
+        });
+      }
+      const channel = access.channel;
 
-      // Get recent messages (last 50)
-      const messages = await storage.getChannelMessages(channelId, 50);
+      // Get recent messages (last 50), thread replies included
+      const { messages } = await storage.getChannelMessages(channelId, { limit: 50, includeReplies: true });
       if (!messages.length) {
         return res.status(400).json({
           message: "No messages found",
@@ -324,15 +1325,18 @@ export function registerRoutes(app: Express): Server {
       
       console.log("[API] Found", messages.length, "messages for meeting notes");
 
-      // Format messages for the AI
-      const formattedMessages = messages.map(msg => ({
-        content: msg.content,
+      // Format messages for the AI, skipping deleted ones. Reactions are folded into the
+      // message so agreement shows up without "+1" replies.
+      const formattedMessages = messages.filter(msg => !msg.deletedAt).map(msg => ({
+        content: msg.reactions.length
+          ? `${msg.content} [reactions: ${msg.reactions.map((reaction: ReactionSummary) => `${reaction.emoji} ${reaction.count}`).join(", ")}]`
+          : msg.content,
         authorName: msg.author.displayName,
         timestamp: msg.createdAt.toISOString()
       }));
 
-      // Generate notes
-      const notes = await generateMeetingNotes(formattedMessages, channel.name);
+      // Generate notes, with the channel's pins as background
+      const notes = await generateMeetingNotes(formattedMessages, channel.name, await getPinnedContext(channelId));
       
       // Save the notes
       const savedNotes = await storage.createMeetingNotes({
@@ -356,11 +1360,45 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.post("/api/ai/summarize-thread", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const messageId = Number(req.body.messageId);
+      const root = Number.isInteger(messageId) ? await storage.getMessage(messageId) : undefined;
+      if (!root || !(await canViewMessage(req.user!.id, root))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const replies = (await storage.getMessageThread(root.id)).filter(reply => !reply.deletedAt);
+      if (!replies.length) {
+        return res.status(400).json({
+          message: "No replies found",
+          details: "This thread has no replies to summarize"
+        });
+      }
+
+      const summary = await summarizeThread([root, ...replies].map(msg => ({
+        content: msg.deletedAt ? "[deleted message]" : msg.content,
+        authorName: msg.author.displayName,
+        timestamp: msg.createdAt.toISOString()
+      })));
+      res.json(summary);
+    } catch (error) {
+      console.error("[API] Thread summary error:", error);
+      res.status(500).json({
+        message: "Failed to summarize thread",
+        details: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
   app.get("/api/channels/:id/notes", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const channelId = parseInt(req.params.id);
+      if (!(await canViewChannel(req.user!.id, channelId))) return res.sendStatus(404);
       const notes = await storage.getMeetingNotes(channelId);
       res.json(notes);
     } catch (error) {
@@ -373,13 +1411,19 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const { q: query, channelId } = req.query;
-      if (!query) return res.json([]);
-      
-      const results = await storage.searchMessages(
-        query as string, 
-        channelId ? parseInt(channelId as string) : undefined
-      );
+      const { q: query, channelId, limit } = req.query;
+      if (!query || typeof query !== 'string') return res.json([]);
+
+      const { text, filters } = parseSearchQuery(query);
+      // A whitespace-only query would otherwise return every message
+      if (!text && Object.keys(filters).length === 0) return res.json([]);
+
+      const results = await storage.searchMessages(text, {
+        ...filters,
+        channelId: channelId ? parseInt(channelId as string) : undefined,
+        viewerId: req.user!.id,
+        limit: limit ? Math.min(Math.max(parseInt(limit as string) || 20, 1), 100) : 20
+      });
       res.json(results);
     } catch (error) {
       res.status(500).json({ message: "Search failed" });
@@ -388,94 +1432,26 @@ export function registerRoutes(app: Express): Server {
 
   const httpServer = createServer(app);
 
-  // WebSocket setup for real-time messaging
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  const clients = new Map<WebSocket, { userId: number; channels: Set<number> }>();
+  // Keep the org memory vector index up to date in the background
+  embeddingIndexer.start();
 
-  wss.on('connection', (ws) => {
-    console.log('New WebSocket connection');
+  // Inbox notifications for mentions, DMs, thread replies and meeting notes
+  notificationDispatcher.start();
 
-    ws.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        switch (message.type) {
-          case 'auth':
-            // In a real app, verify the token/session
-            clients.set(ws, { userId: message.userId, channels: new Set() });
-            break;
-            
-          case 'join_channel':
-            const clientData = clients.get(ws);
-            if (clientData) {
-              clientData.channels.add(message.channelId);
-            }
-            break;
-            
-          case 'leave_channel':
-            const client = clients.get(ws);
-            if (client) {
-              client.channels.delete(message.channelId);
-            }
-            break;
-            
-          case 'new_message':
-            // Handle both channel messages and DMs
-            if (message.channelId) {
-              // Broadcast to channel members
-              clients.forEach((clientInfo, clientWs) => {
-                if (clientWs !== ws && 
-                    clientInfo.channels.has(message.channelId) &&
-                    clientWs.readyState === WebSocket.OPEN) {
-                  clientWs.send(JSON.stringify({
-                    type: 'new_message',
-                    message: message.data
-                  }));
-                }
-              });
-            } else if (message.recipientId) {
-              // Send to specific recipient for DMs
-              clients.forEach((clientInfo, clientWs) => {
-                if ((clientInfo.userId === message.recipientId || 
-                     clientInfo.userId === message.data.authorId) && 
-                    clientWs.readyState === WebSocket.OPEN && 
-                    clientWs !== ws) {
-                  clientWs.send(JSON.stringify({
-                    type: 'new_message',
-                    message: message.data
-                  }));
-                }
-              });
-            }
-            break;
-            
-          case 'typing':
-            // Broadcast typing indicator
-            clients.forEach((clientInfo, clientWs) => {
-              if (clientWs !== ws && 
-                  clientInfo.channels.has(message.channelId) &&
-                  clientWs.readyState === WebSocket.OPEN) {
-                clientWs.send(JSON.stringify({
-                  type: 'typing',
-                  userId: message.userId,
-                  channelId: message.channelId,
-                  isTyping: message.isTyping
-                }));
-              }
-            });
-            break;
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
+  // Clean up the files of deleted attachments and abandoned uploads
+  attachmentJanitor.start();
 
-    ws.on('close', () => {
-      clients.delete(ws);
-      console.log('WebSocket connection closed');
-    });
-  });
+  // Online status from live connections, and expiry of custom statuses
+  presenceTracker.start();
+
+  // Reminders on saved messages, sent as inbox notifications when they come due
+  reminderScheduler.start();
+
+  // Messages users scheduled to send later
+  scheduledMessageSender.start();
+
+  // Real-time delivery of storage events to connected clients
+  setupRealtime(httpServer, sessionMiddleware);
 
   return httpServer;
 }
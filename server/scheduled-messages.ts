@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { checkMessageTarget, postMessage } from "./messages";
+import { insertMessageSchema, type ScheduledMessage } from "@shared/schema";
+
+// Send-later picks are to the minute, so sending within a quarter of one is on time
+const SWEEP_INTERVAL_MS = 15_000;
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Posts scheduled messages once they come due, through the same path as the composer,
+ * so they get mentions, tone analysis, link previews and live delivery like any other
+ * message. The author's access is checked again at send time; a message they can no
+ * longer post is marked failed with the reason rather than dropped.
+ */
+export class ScheduledMessageSender {
+  private interval: NodeJS.Timeout | undefined;
+  private running = false;
+
+  start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweep();
+  }
+
+  stop() {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  private async sweep() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let due: ScheduledMessage[];
+      do {
+        due = await storage.claimDueScheduledMessages(new Date(), SWEEP_BATCH_SIZE);
+        for (const scheduled of due) {
+          await this.send(scheduled);
+        }
+      } while (due.length === SWEEP_BATCH_SIZE);
+    } catch (error) {
+      console.error("[Scheduler] Sweep failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async send(scheduled: ScheduledMessage) {
+    let messageId: number;
+    try {
+      const { authorId, channelId, recipientId, parentMessageId, alsoSentToChannel, content } = scheduled;
+      const target = { authorId, channelId, recipientId, parentMessageId, alsoSentToChannel };
+      const problem = await checkMessageTarget(target);
+      if (problem) {
+        await storage.completeScheduledMessage(scheduled.id, { error: problem.message });
+        return;
+      }
+
+      messageId = (await postMessage(insertMessageSchema.parse({ ...target, content }))).id;
+    } catch (error) {
+      console.error(`[Scheduler] Failed to send scheduled message ${scheduled.id}:`, error);
+      await storage.completeScheduledMessage(scheduled.id, { error: "Couldn't be sent" }).catch(() => undefined);
+      return;
+    }
+
+    // The message is out, so a failure from here on must not report it as unsent
+    try {
+      await storage.completeScheduledMessage(scheduled.id, { messageId });
+    } catch (error) {
+      console.error(`[Scheduler] Sent scheduled message ${scheduled.id} but failed to record it:`, error);
+    }
+  }
+}
+
+export const scheduledMessageSender = new ScheduledMessageSender();
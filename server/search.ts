@@ -0,0 +1,94 @@
+import type { MessageSearchFilters } from "./storage";
+
+export interface ParsedSearchQuery {
+  text: string;
+  filters: MessageSearchFilters;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): Date | undefined {
+  if (!DATE_PATTERN.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Splits a search box string into free text and filters.
+ *
+ * Supported operators:
+ *   from:alice        author username (a leading @ is ignored)
+ *   in:general        channel name (a leading # is ignored)
+ *   before:YYYY-MM-DD sent before that day
+ *   after:YYYY-MM-DD  sent after that day
+ *   on:YYYY-MM-DD     sent on that day
+ *   has:thread        replies and messages that have replies
+ *   is:dm / is:channel
+ *
+ * Anything else, including operators with invalid values, is kept as search text.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: MessageSearchFilters = {};
+  const textParts: string[] = [];
+
+  // Keep quoted phrases together so websearch_to_tsquery can treat them as phrases
+  const tokens = input.match(/"[^"]*"|\S+/g) || [];
+
+  for (const token of tokens) {
+    const match = token.match(/^(from|in|before|after|on|has|is):(.+)$/i);
+    if (!match) {
+      textParts.push(token);
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const value = match[2].replace(/^"|"$/g, "");
+    let handled = true;
+
+    switch (key) {
+      case "from":
+        filters.authorUsername = value.replace(/^@/, "");
+        break;
+      case "in":
+        filters.channelName = value.replace(/^#/, "");
+        break;
+      case "before":
+      case "after":
+      case "on": {
+        const date = parseDate(value);
+        if (!date) {
+          handled = false;
+        } else if (key === "before") {
+          filters.before = date;
+        } else if (key === "after") {
+          filters.after = new Date(date.getTime() + DAY_MS);
+        } else {
+          filters.after = date;
+          filters.before = new Date(date.getTime() + DAY_MS);
+        }
+        break;
+      }
+      case "has":
+        if (value.toLowerCase() === "thread") {
+          filters.hasThread = true;
+        } else {
+          handled = false;
+        }
+        break;
+      case "is":
+        if (value.toLowerCase() === "dm" || value.toLowerCase() === "channel") {
+          filters.scope = value.toLowerCase() as "dm" | "channel";
+        } else {
+          handled = false;
+        }
+        break;
+    }
+
+    if (!handled) {
+      textParts.push(token);
+    }
+  }
+
+  return { text: textParts.join(" "), filters };
+}
@@ -1,49 +1,284 @@
 import { 
-  users, channels, channelMembers, messages, aiSuggestions, meetingNotes,
+  users, channels, channelMembers, messages, messageRevisions, reactions, aiSuggestions, meetingNotes, embeddings, readStates, messageMentions, notifications, userConnections, attachments, linkPreviews, messageLinkPreviews, pinnedMessages, channelBookmarks, savedItems, scheduledMessages,
   type User, type InsertUser, type Channel, type InsertChannel, 
   type Message, type InsertMessage, type AiSuggestion, type InsertAiSuggestion,
-  type MeetingNotes, type InsertMeetingNotes, type ChannelMember
+  type MeetingNotes, type InsertMeetingNotes, type ChannelMember, type InsertEmbedding,
+  type MessageRevision, type ReactionSummary, type ThreadSummary, type ChannelRole,
+  type ReadState, type ChannelWithUnread, type DirectMessageUser, type MentionKind,
+  type Notification, type InsertNotification, type NotificationWithContext, type NotificationLevel,
+  type UpdateStatus,
+  type UpdateProfile, type UserProfile,
+  type Attachment, type InsertAttachment, type MessageAttachment,
+  type LinkPreview, type InsertLinkPreview, type MessageLinkPreview,
+  type PinnedMessage, type ChannelBookmark, type InsertChannelBookmark,
+  type SavedItem, type SaveItem, type UpdateSavedItem,
+  type ScheduledMessage, type InsertScheduledMessage, type UpdateScheduledMessage
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, asc, not } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, and, or, desc, asc, not, lt, lte, gt, gte, ne, isNull, isNotNull, inArray, sql, getTableColumns, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { publishEvent, type MessageAudience } from "./events";
 
 const PostgresSessionStore = connectPg(session);
 
+// Everything but where the file is stored, which only the server needs
+const { storageKey: _storageKey, deletedAt: _deletedAt, ...attachmentColumns } = getTableColumns(attachments);
+
+// A user as anyone else sees them: everything but the password hash
+const { password: _password, ...profileColumns } = getTableColumns(users);
+
+// Explicit column list so every message query returns the same shape alongside its joins
+const messageColumns = {
+  id: messages.id,
+  content: messages.content,
+  authorId: messages.authorId,
+  channelId: messages.channelId,
+  parentMessageId: messages.parentMessageId,
+  recipientId: messages.recipientId,
+  alsoSentToChannel: messages.alsoSentToChannel,
+  aiAnalysis: messages.aiAnalysis,
+  createdAt: messages.createdAt,
+  updatedAt: messages.updatedAt,
+  deletedAt: messages.deletedAt,
+};
+
+function messageAudience(message: MessageAudience): MessageAudience {
+  return { channelId: message.channelId, authorId: message.authorId, recipientId: message.recipientId };
+}
+
+// Ids of the public channels plus the private ones the user belongs to, as a subquery
+function visibleChannelIds(userId: number) {
+  return db
+    .select({ id: channels.id })
+    .from(channels)
+    .where(or(
+      eq(channels.isPrivate, false),
+      sql`exists (select 1 from ${channelMembers} where ${channelMembers.channelId} = ${channels.id} and ${channelMembers.userId} = ${userId})`
+    ));
+}
+
+// Messages in channels the user can see, plus DMs they sent or received
+function messageVisibleTo(userId: number) {
+  return or(
+    inArray(messages.channelId, visibleChannelIds(userId)),
+    and(isNull(messages.channelId), or(eq(messages.authorId, userId), eq(messages.recipientId, userId)))
+  );
+}
+
+// Counts messages matching `condition` as a correlated subquery of the outer select
+function countMessages(condition: SQL | undefined) {
+  return sql<number>`(select count(*)::int from ${messages} where ${condition})`;
+}
+
+// Messages that mention the user, directly or through @channel / @here
+function mentionsUser(userId: number) {
+  return sql`exists (select 1 from ${messageMentions} where ${messageMentions.messageId} = ${messages.id} and ${messageMentions.userId} = ${userId})`;
+}
+
+// A user's read pointer is either per channel or per DM partner
+export type Conversation = { channelId: number } | { otherUserId: number };
+
+export interface MentionTarget {
+  userId: number;
+  kind: MentionKind;
+}
+
+export interface NotificationListOptions {
+  limit?: number;
+  // Notifications older than this id
+  before?: number;
+  unreadOnly?: boolean;
+}
+
+export interface MessageSearchFilters {
+  authorUsername?: string;
+  channelName?: string;
+  channelId?: number;
+  before?: Date;
+  after?: Date;
+  hasThread?: boolean;
+  scope?: "dm" | "channel";
+}
+
+export interface MessageSearchOptions extends MessageSearchFilters {
+  // Restrict to these messages, e.g. candidates found by vector search
+  ids?: number[];
+  // Hide DMs the viewer isn't part of and private channels they aren't a member of
+  viewerId?: number;
+  // OR the query terms together instead of requiring all of them (used for natural-language questions)
+  matchAny?: boolean;
+  limit?: number;
+}
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// Message ids are assigned in posting order, so they double as a stable pagination cursor
+export interface MessagePageOptions {
+  limit?: number;
+  // Messages older than this id (scrolling back)
+  before?: number;
+  // Messages newer than this id (catching up)
+  after?: number;
+  // The window centred on this id, for jumping to a message
+  around?: number;
+}
+
+export interface ChannelMessagesOptions extends MessagePageOptions {
+  // Interleave all thread replies with root messages in posting order, e.g. for meeting notes
+  includeReplies?: boolean;
+}
+
+export interface MessagePage<T> {
+  // Oldest first, ready to render
+  messages: T[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+// Attachments and link previews of deleted messages are left out
+export type MessageWithAuthor = Message & { author: UserProfile; attachments: MessageAttachment[]; linkPreviews: MessageLinkPreview[] };
+
+type MessageWithReactions = MessageWithAuthor & { reactions: ReactionSummary[] };
+
+export type SavedItemWithMessage = SavedItem & { message: MessageWithAuthor; channel: Pick<Channel, "id" | "name"> | null };
+
+export type PinnedMessageWithContext = PinnedMessage & {
+  message: MessageWithAuthor;
+  pinner: Pick<User, "id" | "username" | "displayName" | "avatar">;
+};
+
+export type MessageSearchResult = Message & {
+  author: UserProfile;
+  channel: Channel | null;
+  rank: number;
+  snippet: string;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserStatus(id: number, status: string): Promise<void>;
+  updateUserProfile(id: number, update: UpdateProfile & { avatar?: string | null }): Promise<User | undefined>;
+  updateUserStatus(id: number, update: UpdateStatus): Promise<User | undefined>;
+
+  // Presence methods
+  addUserConnection(userId: number, instanceId: string, idle: boolean): Promise<number>;
+  setUserConnectionIdle(id: number, idle: boolean): Promise<void>;
+  removeUserConnection(id: number): Promise<void>;
+  touchUserConnections(instanceId: string): Promise<void>;
+  removeStaleUserConnections(staleBefore: Date): Promise<number[]>;
+  getUserConnectionCounts(userId: number, liveSince: Date): Promise<{ total: number; active: number }>;
+  setUserPresence(userId: number, status: string): Promise<boolean>;
+  markDisconnectedUsersOffline(liveSince: Date): Promise<number[]>;
+  clearExpiredStatuses(now: Date): Promise<number[]>;
 
   // Channel methods
-  getChannels(): Promise<Channel[]>;
+  getChannels(viewerId: number): Promise<Channel[]>;
   getChannel(id: number): Promise<Channel | undefined>;
   getChannelByName(name: string): Promise<Channel | undefined>;
   createChannel(channel: InsertChannel): Promise<Channel>;
-  getChannelMembers(channelId: number): Promise<(ChannelMember & { user: User })[]>;
-  addChannelMember(channelId: number, userId: number): Promise<void>;
-  getUserChannels(userId: number): Promise<Channel[]>;
+  updateChannel(id: number, changes: Partial<Pick<Channel, "name" | "description" | "archivedAt">>): Promise<Channel | undefined>;
+  deleteChannel(id: number): Promise<boolean>;
+  getChannelMembers(channelId: number): Promise<(ChannelMember & { user: UserProfile })[]>;
+  getChannelMembership(channelId: number, userId: number): Promise<ChannelMember | undefined>;
+  addChannelMember(channelId: number, userId: number, role?: ChannelRole): Promise<void>;
+  updateChannelMemberRole(channelId: number, userId: number, role: ChannelRole): Promise<ChannelMember | undefined>;
+  removeChannelMember(channelId: number, userId: number): Promise<boolean>;
+  isChannelMember(channelId: number, userId: number): Promise<boolean>;
+  getUserChannels(userId: number): Promise<ChannelWithUnread[]>;
+  markConversationRead(userId: number, conversation: Conversation, messageId: number): Promise<ReadState | undefined>;
+  updateChannelNotificationLevel(channelId: number, userId: number, level: NotificationLevel): Promise<ChannelMember | undefined>;
 
   // Message methods
-  getChannelMessages(channelId: number, limit?: number): Promise<(Message & { author: User; replies?: (Message & { author: User })[] })[]>;
-  getDirectMessages(userId1: number, userId2: number, limit?: number): Promise<(Message & { author: User })[]>;
-  createMessage(message: InsertMessage): Promise<Message & { author: User }>;
-  getMessageThread(parentId: number): Promise<(Message & { author: User })[]>;
-  searchMessages(query: string, channelId?: number): Promise<(Message & { author: User; channel?: Channel })[]>;
+  getChannelMessages(channelId: number, options?: ChannelMessagesOptions): Promise<MessagePage<MessageWithReactions & { thread: ThreadSummary | null }>>;
+  getDirectMessages(userId1: number, userId2: number, options?: MessagePageOptions): Promise<MessagePage<MessageWithReactions>>;
+  createMessage(message: InsertMessage, attachmentIds?: number[]): Promise<MessageWithAuthor>;
+  getMessage(id: number): Promise<MessageWithAuthor | undefined>;
+  updateMessage(id: number, content: string, editedBy: number): Promise<MessageWithAuthor | undefined>;
+  deleteMessage(id: number): Promise<MessageWithAuthor | undefined>;
+  getMessageRevisions(messageId: number): Promise<(MessageRevision & { editor: UserProfile })[]>;
+  updateMessageAnalysis(id: number, content: string, analysis: unknown): Promise<MessageWithAuthor | undefined>;
+  getMessageThread(parentId: number): Promise<MessageWithReactions[]>;
+  getThreadSummaries(parentIds: number[]): Promise<Map<number, ThreadSummary>>;
+  getThreadParticipantIds(parentId: number): Promise<number[]>;
+  searchMessages(query: string, options?: MessageSearchOptions): Promise<MessageSearchResult[]>;
+  setMessageMentions(messageId: number, mentions: MentionTarget[]): Promise<number[]>;
+
+  // Attachment methods
+  createAttachment(attachment: InsertAttachment): Promise<MessageAttachment>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getPendingAttachments(uploaderId: number, ids: number[]): Promise<Attachment[]>;
+  getMessageAttachments(messageIds: number[]): Promise<Map<number, MessageAttachment[]>>;
+  discardAttachment(id: number, uploaderId: number): Promise<boolean>;
+  getExpiredAttachments(unsentBefore: Date, limit: number): Promise<Attachment[]>;
+  removeAttachments(ids: number[]): Promise<void>;
+
+  // Link preview methods
+  getLinkPreview(url: string): Promise<LinkPreview | undefined>;
+  saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview>;
+  getMessageLinkPreviews(messageIds: number[]): Promise<Map<number, MessageLinkPreview[]>>;
+  setMessageLinkPreviews(messageId: number, linkPreviewIds: number[]): Promise<boolean>;
+
+  // Pin and bookmark methods
+  getPinnedMessages(channelId: number): Promise<PinnedMessageWithContext[]>;
+  pinMessage(channelId: number, messageId: number, pinnedBy: number): Promise<PinnedMessage | undefined>;
+  unpinMessage(messageId: number): Promise<boolean>;
+  getChannelBookmarks(channelId: number): Promise<ChannelBookmark[]>;
+  createChannelBookmark(channelId: number, bookmark: InsertChannelBookmark, createdBy: number): Promise<ChannelBookmark>;
+  deleteChannelBookmark(channelId: number, id: number): Promise<boolean>;
+
+  // Saved item methods
+  getSavedItems(userId: number, options?: { completed?: boolean }): Promise<SavedItemWithMessage[]>;
+  saveMessage(userId: number, item: SaveItem): Promise<SavedItem>;
+  updateSavedItem(id: number, userId: number, update: UpdateSavedItem): Promise<SavedItem | undefined>;
+  deleteSavedItem(id: number, userId: number): Promise<boolean>;
+  claimDueReminders(now: Date, limit: number): Promise<SavedItem[]>;
+
+  // Scheduled message methods
+  getScheduledMessages(authorId: number): Promise<ScheduledMessage[]>;
+  getScheduledMessage(id: number, authorId: number): Promise<ScheduledMessage | undefined>;
+  countPendingScheduledMessages(authorId: number): Promise<number>;
+  createScheduledMessage(authorId: number, message: InsertScheduledMessage): Promise<ScheduledMessage>;
+  updateScheduledMessage(id: number, authorId: number, update: UpdateScheduledMessage): Promise<ScheduledMessage | undefined>;
+  deleteScheduledMessage(id: number, authorId: number): Promise<boolean>;
+  claimDueScheduledMessages(now: Date, limit: number): Promise<ScheduledMessage[]>;
+  completeScheduledMessage(id: number, result: { messageId: number } | { error: string }): Promise<void>;
+
+  // Reaction methods
+  addReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  removeReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  getReactionSummaries(messageIds: number[]): Promise<Map<number, ReactionSummary[]>>;
 
   // AI methods
   createAiSuggestion(suggestion: InsertAiSuggestion): Promise<AiSuggestion>;
   getAiSuggestions(messageId: number): Promise<AiSuggestion[]>;
   createMeetingNotes(notes: InsertMeetingNotes): Promise<MeetingNotes>;
-  getMeetingNotes(channelId: number): Promise<(MeetingNotes & { generator: User })[]>;
+  getMeetingNotes(channelId: number): Promise<(MeetingNotes & { generator: UserProfile })[]>;
+
+  // Embedding methods
+  upsertEmbedding(embedding: InsertEmbedding): Promise<void>;
+  getMessagesMissingEmbeddings(model: string, limit: number): Promise<{ id: number; content: string }[]>;
+  getMeetingNotesMissingEmbeddings(model: string, limit: number): Promise<MeetingNotes[]>;
+  getMessageEmbeddings(model: string, viewerId: number, limit: number): Promise<{ sourceId: number; embedding: number[] }[]>;
+  getMeetingNotesEmbeddings(model: string, viewerId: number, limit: number): Promise<{ sourceId: number; embedding: number[] }[]>;
+  getMeetingNotesByIds(ids: number[]): Promise<(MeetingNotes & { generator: UserProfile; channel: Channel | null })[]>;
 
   // Direct message users
-  getDirectMessageUsers(userId: number): Promise<User[]>;
+  getDirectMessageUsers(userId: number): Promise<DirectMessageUser[]>;
+
+  // Notification methods
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  getNotification(id: number): Promise<NotificationWithContext | undefined>;
+  getNotifications(userId: number, options?: NotificationListOptions): Promise<NotificationWithContext[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
 
   sessionStore: any;
 }
@@ -73,6 +308,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Case-insensitive, since that's how people type @mentions
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (!usernames.length) return [];
+    return await db
+      .select()
+      .from(users)
+      .where(inArray(sql`lower(${users.username})`, usernames.map(username => username.toLowerCase())));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -81,12 +325,108 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUserStatus(id: number, status: string): Promise<void> {
-    await db.update(users).set({ status }).where(eq(users.id, id));
+  async updateUserProfile(id: number, update: UpdateProfile & { avatar?: string | null }): Promise<User | undefined> {
+    const [user] = await db.update(users).set(update).where(eq(users.id, id)).returning();
+    if (!user) return undefined;
+
+    publishEvent({ type: "user_updated", userId: id });
+    return user;
+  }
+
+  // The user's own status choices. Their effective status is recomputed by presence tracking.
+  async updateUserStatus(id: number, update: UpdateStatus): Promise<User | undefined> {
+    const [user] = await db.update(users).set(update).where(eq(users.id, id)).returning();
+    if (!user) return undefined;
+
+    publishEvent({ type: "presence_changed", userId: id });
+    return user;
+  }
+
+  async addUserConnection(userId: number, instanceId: string, idle: boolean): Promise<number> {
+    const [connection] = await db
+      .insert(userConnections)
+      .values({ userId, instanceId, idle })
+      .returning({ id: userConnections.id });
+    return connection.id;
+  }
+
+  async setUserConnectionIdle(id: number, idle: boolean): Promise<void> {
+    await db.update(userConnections).set({ idle, lastSeenAt: new Date() }).where(eq(userConnections.id, id));
+  }
+
+  async removeUserConnection(id: number): Promise<void> {
+    await db.delete(userConnections).where(eq(userConnections.id, id));
   }
 
-  async getChannels(): Promise<Channel[]> {
-    return await db.select().from(channels).where(eq(channels.isPrivate, false));
+  async touchUserConnections(instanceId: string): Promise<void> {
+    await db.update(userConnections).set({ lastSeenAt: new Date() }).where(eq(userConnections.instanceId, instanceId));
+  }
+
+  // Drops connections whose instance stopped refreshing them; returns the users they belonged to
+  async removeStaleUserConnections(staleBefore: Date): Promise<number[]> {
+    const removed = await db
+      .delete(userConnections)
+      .where(lt(userConnections.lastSeenAt, staleBefore))
+      .returning({ userId: userConnections.userId });
+    return Array.from(new Set(removed.map(connection => connection.userId)));
+  }
+
+  async getUserConnectionCounts(userId: number, liveSince: Date): Promise<{ total: number; active: number }> {
+    const [counts] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        active: sql<number>`(count(*) filter (where not ${userConnections.idle}))::int`,
+      })
+      .from(userConnections)
+      .where(and(eq(userConnections.userId, userId), gte(userConnections.lastSeenAt, liveSince)));
+    return counts ?? { total: 0, active: 0 };
+  }
+
+  // Returns whether the status changed; only then is everyone told
+  async setUserPresence(userId: number, status: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ status })
+      .where(and(eq(users.id, userId), ne(users.status, status)))
+      .returning({ id: users.id });
+    if (!updated.length) return false;
+
+    publishEvent({ type: "presence_changed", userId });
+    return true;
+  }
+
+  // Anyone still shown as online without a live connection, e.g. after every server restarted
+  async markDisconnectedUsersOffline(liveSince: Date): Promise<number[]> {
+    const updated = await db
+      .update(users)
+      .set({ status: "offline" })
+      .where(and(
+        ne(users.status, "offline"),
+        sql`not exists (select 1 from ${userConnections} where ${userConnections.userId} = ${users.id} and ${userConnections.lastSeenAt} >= ${liveSince})`
+      ))
+      .returning({ id: users.id });
+
+    updated.forEach(user => publishEvent({ type: "presence_changed", userId: user.id }));
+    return updated.map(user => user.id);
+  }
+
+  async clearExpiredStatuses(now: Date): Promise<number[]> {
+    const updated = await db
+      .update(users)
+      .set({ statusOverride: null, statusText: null, statusEmoji: null, statusExpiresAt: null })
+      .where(lt(users.statusExpiresAt, now))
+      .returning({ id: users.id });
+
+    updated.forEach(user => publishEvent({ type: "presence_changed", userId: user.id }));
+    return updated.map(user => user.id);
+  }
+
+  async getChannels(viewerId: number): Promise<Channel[]> {
+    return await db
+      .select()
+      .from(channels)
+      .where(inArray(channels.id, visibleChannelIds(viewerId)))
+      .orderBy(asc(channels.name));
   }
 
   async getChannel(id: number): Promise<Channel | undefined> {
@@ -105,34 +445,152 @@ export class DatabaseStorage implements IStorage {
       .values(channel)
       .returning();
     
-    // Add creator as member
+    // Add creator as owner
     await db.insert(channelMembers).values({
       channelId: newChannel.id,
       userId: channel.createdBy,
+      role: "owner",
     });
 
     return newChannel;
   }
 
-  async getChannelMembers(channelId: number): Promise<(ChannelMember & { user: User })[]> {
+  async updateChannel(id: number, changes: Partial<Pick<Channel, "name" | "description" | "archivedAt">>): Promise<Channel | undefined> {
+    const [updated] = await db.update(channels).set(changes).where(eq(channels.id, id)).returning();
+    if (!updated) return undefined;
+
+    publishEvent({ type: "channel_updated", channelId: id });
+    return updated;
+  }
+
+  async deleteChannel(id: number): Promise<boolean> {
+    const deleted = await db.transaction(async (tx) => {
+      const channelMessageIds = tx.select({ id: messages.id }).from(messages).where(eq(messages.channelId, id));
+      const channelNoteIds = tx.select({ id: meetingNotes.id }).from(meetingNotes).where(eq(meetingNotes.channelId, id));
+
+      // Everything hanging off the channel's messages goes first so the foreign keys allow the rest
+      await tx.delete(reactions).where(inArray(reactions.messageId, channelMessageIds));
+      await tx.delete(messageRevisions).where(inArray(messageRevisions.messageId, channelMessageIds));
+      await tx.delete(aiSuggestions).where(inArray(aiSuggestions.messageId, channelMessageIds));
+      await tx.delete(messageMentions).where(inArray(messageMentions.messageId, channelMessageIds));
+      await tx.delete(messageLinkPreviews).where(inArray(messageLinkPreviews.messageId, channelMessageIds));
+      await tx.delete(pinnedMessages).where(eq(pinnedMessages.channelId, id));
+      await tx.delete(savedItems).where(inArray(savedItems.messageId, channelMessageIds));
+      await tx.delete(scheduledMessages).where(eq(scheduledMessages.channelId, id));
+      await tx.delete(channelBookmarks).where(eq(channelBookmarks.channelId, id));
+      // Detached rather than deleted, so the janitor can still find their blobs
+      await tx
+        .update(attachments)
+        .set({ messageId: null, deletedAt: new Date() })
+        .where(inArray(attachments.messageId, channelMessageIds));
+      await tx.delete(notifications).where(or(
+        eq(notifications.channelId, id),
+        inArray(notifications.messageId, channelMessageIds),
+        inArray(notifications.meetingNotesId, channelNoteIds)
+      ));
+      await tx.delete(embeddings).where(or(
+        and(eq(embeddings.sourceType, "message"), inArray(embeddings.sourceId, channelMessageIds)),
+        and(eq(embeddings.sourceType, "meeting_notes"), inArray(embeddings.sourceId, channelNoteIds))
+      ));
+      await tx.delete(meetingNotes).where(eq(meetingNotes.channelId, id));
+      await tx.delete(messages).where(eq(messages.channelId, id));
+      await tx.delete(channelMembers).where(eq(channelMembers.channelId, id));
+      await tx.delete(readStates).where(eq(readStates.channelId, id));
+      const removed = await tx.delete(channels).where(eq(channels.id, id)).returning({ id: channels.id });
+      return removed.length > 0;
+    });
+    if (!deleted) return false;
+
+    publishEvent({ type: "channel_deleted", channelId: id });
+    return true;
+  }
+
+  async getChannelMembers(channelId: number): Promise<(ChannelMember & { user: UserProfile })[]> {
     return await db
       .select({
         id: channelMembers.id,
         channelId: channelMembers.channelId,
         userId: channelMembers.userId,
+        role: channelMembers.role,
+        notificationLevel: channelMembers.notificationLevel,
         joinedAt: channelMembers.joinedAt,
-        user: users,
+        user: profileColumns,
       })
       .from(channelMembers)
       .innerJoin(users, eq(channelMembers.userId, users.id))
-      .where(eq(channelMembers.channelId, channelId));
+      .where(eq(channelMembers.channelId, channelId))
+      .orderBy(asc(channelMembers.joinedAt));
   }
 
-  async addChannelMember(channelId: number, userId: number): Promise<void> {
-    await db.insert(channelMembers).values({ channelId, userId });
+  async getChannelMembership(channelId: number, userId: number): Promise<ChannelMember | undefined> {
+    const [membership] = await db
+      .select()
+      .from(channelMembers)
+      .where(and(eq(channelMembers.channelId, channelId), eq(channelMembers.userId, userId)))
+      .limit(1);
+    return membership || undefined;
   }
 
-  async getUserChannels(userId: number): Promise<Channel[]> {
+  async addChannelMember(channelId: number, userId: number, role: ChannelRole = "member"): Promise<void> {
+    // Joining twice is a no-op rather than a duplicate membership row
+    if (await this.isChannelMember(channelId, userId)) return;
+    await db.insert(channelMembers).values({ channelId, userId, role });
+    publishEvent({ type: "channel_member_added", channelId, userId });
+  }
+
+  async updateChannelMemberRole(channelId: number, userId: number, role: ChannelRole): Promise<ChannelMember | undefined> {
+    const [updated] = await db
+      .update(channelMembers)
+      .set({ role })
+      .where(and(eq(channelMembers.channelId, channelId), eq(channelMembers.userId, userId)))
+      .returning();
+    if (!updated) return undefined;
+
+    publishEvent({ type: "channel_member_updated", channelId, userId });
+    return updated;
+  }
+
+  async updateChannelNotificationLevel(channelId: number, userId: number, level: NotificationLevel): Promise<ChannelMember | undefined> {
+    const [updated] = await db
+      .update(channelMembers)
+      .set({ notificationLevel: level })
+      .where(and(eq(channelMembers.channelId, channelId), eq(channelMembers.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async removeChannelMember(channelId: number, userId: number): Promise<boolean> {
+    const removed = await db
+      .delete(channelMembers)
+      .where(and(eq(channelMembers.channelId, channelId), eq(channelMembers.userId, userId)))
+      .returning({ id: channelMembers.id });
+    if (!removed.length) return false;
+
+    publishEvent({ type: "channel_member_removed", channelId, userId });
+    return true;
+  }
+
+  async isChannelMember(channelId: number, userId: number): Promise<boolean> {
+    const [membership] = await db
+      .select({ id: channelMembers.id })
+      .from(channelMembers)
+      .where(and(eq(channelMembers.channelId, channelId), eq(channelMembers.userId, userId)))
+      .limit(1);
+    return !!membership;
+  }
+
+  // The user's channels with what's arrived since they last read each one. Only timeline
+  // messages from others count, and nothing from before the user joined.
+  async getUserChannels(userId: number): Promise<ChannelWithUnread[]> {
+    const unread = and(
+      eq(messages.channelId, channels.id),
+      or(isNull(messages.parentMessageId), eq(messages.alsoSentToChannel, true)),
+      gt(messages.id, sql`coalesce(${readStates.lastReadMessageId}, 0)`),
+      gte(messages.createdAt, channelMembers.joinedAt),
+      ne(messages.authorId, userId),
+      isNull(messages.deletedAt)
+    );
+
     return await db
       .select({
         id: channels.id,
@@ -141,163 +599,903 @@ export class DatabaseStorage implements IStorage {
         isPrivate: channels.isPrivate,
         createdBy: channels.createdBy,
         createdAt: channels.createdAt,
+        archivedAt: channels.archivedAt,
+        lastReadMessageId: readStates.lastReadMessageId,
+        unreadCount: countMessages(unread),
+        mentionCount: countMessages(and(unread, mentionsUser(userId))),
       })
       .from(channels)
       .innerJoin(channelMembers, eq(channels.id, channelMembers.channelId))
+      .leftJoin(readStates, and(eq(readStates.channelId, channels.id), eq(readStates.userId, userId)))
       .where(eq(channelMembers.userId, userId));
   }
 
-  async getChannelMessages(channelId: number, limit = 50): Promise<(Message & { author: User; replies?: (Message & { author: User })[] })[]> {
-    const msgs = await db
+  // Moves the user's read pointer forward; never back, so an older tab can't undo a newer read.
+  // Returns undefined when the pointer was already at or past the message.
+  async markConversationRead(userId: number, conversation: Conversation, messageId: number): Promise<ReadState | undefined> {
+    const channelId = "channelId" in conversation ? conversation.channelId : null;
+    const otherUserId = "otherUserId" in conversation ? conversation.otherUserId : null;
+
+    const [readState] = await db
+      .insert(readStates)
+      .values({ userId, channelId, otherUserId, lastReadMessageId: messageId })
+      .onConflictDoUpdate({
+        target: channelId !== null ? [readStates.userId, readStates.channelId] : [readStates.userId, readStates.otherUserId],
+        set: { lastReadMessageId: messageId, updatedAt: new Date() },
+        setWhere: lt(readStates.lastReadMessageId, messageId),
+      })
+      .returning();
+    if (!readState) return undefined;
+
+    publishEvent({ type: "conversation_read", userId, channelId, otherUserId, lastReadMessageId: messageId });
+    return readState;
+  }
+
+  // One slice of a conversation on either side of a cursor, plus whether more lies beyond it
+  private async getMessageSlice(scope: SQL | undefined, direction: "older" | "newer", cursor: number | undefined, limit: number) {
+    const cursorCondition = cursor === undefined
+      ? undefined
+      : direction === "older" ? lt(messages.id, cursor) : gt(messages.id, cursor);
+
+    // Fetch one extra row to find out whether there's anything past this slice
+    const rows = await db
       .select({
-        id: messages.id,
-        content: messages.content,
-        authorId: messages.authorId,
-        channelId: messages.channelId,
-        parentMessageId: messages.parentMessageId,
-        recipientId: messages.recipientId,
-        aiAnalysis: messages.aiAnalysis,
-        createdAt: messages.createdAt,
-        updatedAt: messages.updatedAt,
-        author: users,
+        ...messageColumns,
+        author: profileColumns,
       })
       .from(messages)
       .innerJoin(users, eq(messages.authorId, users.id))
-      .where(eq(messages.channelId, channelId))
-      .orderBy(asc(messages.createdAt))
-      .limit(limit);
+      .where(and(scope, cursorCondition))
+      .orderBy(direction === "older" ? desc(messages.id) : asc(messages.id))
+      .limit(limit + 1);
+
+    const more = rows.length > limit;
+    const slice = rows.slice(0, limit);
+    return { rows: direction === "older" ? slice.reverse() : slice, more };
+  }
+
+  private async getMessagePage(scope: SQL | undefined, options: MessagePageOptions = {}): Promise<MessagePage<MessageWithAuthor>> {
+    const page = await this.getMessagePageRows(scope, options);
+    return { ...page, messages: await this.withMedia(page.messages) };
+  }
+
+  private async getMessagePageRows(scope: SQL | undefined, options: MessagePageOptions) {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE, 1), MAX_MESSAGE_PAGE_SIZE);
+
+    if (options.around !== undefined) {
+      // The target itself goes in the older half so it's always included
+      const [older, newer] = await Promise.all([
+        this.getMessageSlice(scope, "older", options.around + 1, Math.ceil(limit / 2)),
+        this.getMessageSlice(scope, "newer", options.around, Math.floor(limit / 2)),
+      ]);
+      return { messages: [...older.rows, ...newer.rows], hasOlder: older.more, hasNewer: newer.more };
+    }
+    if (options.after !== undefined) {
+      const newer = await this.getMessageSlice(scope, "newer", options.after, limit);
+      return { messages: newer.rows, hasOlder: true, hasNewer: newer.more };
+    }
+
+    // Without a cursor this is the latest page
+    const older = await this.getMessageSlice(scope, "older", options.before, limit);
+    return { messages: older.rows, hasOlder: older.more, hasNewer: options.before !== undefined };
+  }
+
+  private async withMedia<T extends { id: number; deletedAt: Date | null }>(
+    rows: T[]
+  ): Promise<(T & { attachments: MessageAttachment[]; linkPreviews: MessageLinkPreview[] })[]> {
+    const liveIds = rows.filter(row => !row.deletedAt).map(row => row.id);
+    const [attachmentsByMessage, previewsByMessage] = await Promise.all([
+      this.getMessageAttachments(liveIds),
+      this.getMessageLinkPreviews(liveIds),
+    ]);
+    return rows.map(row => ({
+      ...row,
+      attachments: attachmentsByMessage.get(row.id) || [],
+      linkPreviews: previewsByMessage.get(row.id) || [],
+    }));
+  }
+
+  // The channel timeline holds root messages plus replies that were also sent to the channel;
+  // other replies are summarized on their root and loaded with getMessageThread when the thread is opened
+  async getChannelMessages(channelId: number, options: ChannelMessagesOptions = {}): Promise<MessagePage<MessageWithReactions & { thread: ThreadSummary | null }>> {
+    const page = await this.getMessagePage(
+      and(
+        eq(messages.channelId, channelId),
+        options.includeReplies ? undefined : or(isNull(messages.parentMessageId), eq(messages.alsoSentToChannel, true))
+      ),
+      options
+    );
+
+    const ids = page.messages.map(msg => msg.id);
+    const [reactionsByMessage, threads] = await Promise.all([
+      this.getReactionSummaries(ids),
+      this.getThreadSummaries(ids),
+    ]);
+
+    return {
+      ...page,
+      messages: page.messages.map(msg => ({
+        ...msg,
+        reactions: reactionsByMessage.get(msg.id) || [],
+        thread: threads.get(msg.id) || null,
+      })),
+    };
+  }
+
+  async getDirectMessages(userId1: number, userId2: number, options?: MessagePageOptions): Promise<MessagePage<MessageWithReactions>> {
+    const page = await this.getMessagePage(
+      and(
+        isNull(messages.channelId),
+        or(
+          and(eq(messages.authorId, userId1), eq(messages.recipientId, userId2)),
+          and(eq(messages.authorId, userId2), eq(messages.recipientId, userId1))
+        )
+      ),
+      options
+    );
+
+    const reactionsByMessage = await this.getReactionSummaries(page.messages.map(msg => msg.id));
+    return {
+      ...page,
+      messages: page.messages.map(msg => ({ ...msg, reactions: reactionsByMessage.get(msg.id) || [] })),
+    };
+  }
+
+  // Attachments are only linked if the author uploaded them and they haven't been sent yet
+  async createMessage(message: InsertMessage, attachmentIds: number[] = []): Promise<MessageWithAuthor> {
+    const newMessage = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(messages)
+        .values(message)
+        .returning();
+
+      if (attachmentIds.length) {
+        await tx
+          .update(attachments)
+          .set({ messageId: created.id })
+          .where(and(
+            inArray(attachments.id, attachmentIds),
+            eq(attachments.uploaderId, created.authorId),
+            isNull(attachments.messageId),
+            isNull(attachments.deletedAt)
+          ));
+      }
+      return created;
+    });
+
+    const messageWithAuthor = (await this.getMessage(newMessage.id))!;
+    publishEvent({ type: "message_created", messageId: messageWithAuthor.id, ...messageAudience(messageWithAuthor) });
+    return messageWithAuthor;
+  }
+
+  async getMessage(id: number): Promise<MessageWithAuthor | undefined> {
+    const [messageWithAuthor] = await db
+      .select({
+        ...messageColumns,
+        author: profileColumns,
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.authorId, users.id))
+      .where(eq(messages.id, id));
+    if (!messageWithAuthor) return undefined;
+
+    const [withMedia] = await this.withMedia([messageWithAuthor]);
+    return withMedia;
+  }
 
-    // Get replies for each message
-    for (const msg of msgs) {
-      const replies = await db
-        .select({
-          id: messages.id,
-          content: messages.content,
-          authorId: messages.authorId,
-          channelId: messages.channelId,
-          parentMessageId: messages.parentMessageId,
-          recipientId: messages.recipientId,
-          aiAnalysis: messages.aiAnalysis,
-          createdAt: messages.createdAt,
-          updatedAt: messages.updatedAt,
-          author: users,
-        })
-        .from(messages)
-        .innerJoin(users, eq(messages.authorId, users.id))
-        .where(eq(messages.parentMessageId, msg.id))
-        .orderBy(asc(messages.createdAt));
-      
-      (msg as any).replies = replies;
+  async updateMessage(id: number, content: string, editedBy: number): Promise<MessageWithAuthor | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(messages).where(and(eq(messages.id, id), isNull(messages.deletedAt)));
+      if (!current) return false;
+
+      await tx.insert(messageRevisions).values({ messageId: id, content: current.content, editedBy });
+      // The stored tone analysis described the old text
+      await tx
+        .update(messages)
+        .set({ content, aiAnalysis: null, updatedAt: new Date() })
+        .where(eq(messages.id, id));
+      return true;
+    });
+    if (!updated) return undefined;
+
+    const message = await this.getMessage(id);
+    if (message) {
+      publishEvent({ type: "message_updated", messageId: id, ...messageAudience(message) });
     }
+    return message;
+  }
+
+  async deleteMessage(id: number): Promise<MessageWithAuthor | undefined> {
+    const deleted = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(messages).where(and(eq(messages.id, id), isNull(messages.deletedAt)));
+      if (!current) return undefined;
+
+      // Blank the row into a tombstone, and drop its earlier versions so none of the text survives
+      await tx.delete(messageRevisions).where(eq(messageRevisions.messageId, id));
+      await tx
+        .update(messages)
+        .set({ content: "", aiAnalysis: null, deletedAt: new Date() })
+        .where(eq(messages.id, id));
+      await tx.delete(embeddings).where(and(eq(embeddings.sourceType, "message"), eq(embeddings.sourceId, id)));
+      await tx.update(attachments).set({ deletedAt: new Date() }).where(eq(attachments.messageId, id));
+      await tx.delete(messageLinkPreviews).where(eq(messageLinkPreviews.messageId, id));
+      // A tombstone has nothing left worth pinning
+      const unpinned = await tx.delete(pinnedMessages).where(eq(pinnedMessages.messageId, id)).returning({ channelId: pinnedMessages.channelId });
+      return { unpinnedFrom: unpinned[0]?.channelId };
+    });
+    if (!deleted) return undefined;
 
-    return msgs as any;
+    const message = await this.getMessage(id);
+    if (message) {
+      publishEvent({ type: "message_deleted", messageId: id, ...messageAudience(message) });
+    }
+    if (deleted.unpinnedFrom) {
+      publishEvent({ type: "pins_updated", channelId: deleted.unpinnedFrom });
+    }
+    return message;
   }
 
-  async getDirectMessages(userId1: number, userId2: number, limit = 50): Promise<(Message & { author: User })[]> {
+  async getMessageRevisions(messageId: number): Promise<(MessageRevision & { editor: UserProfile })[]> {
     return await db
       .select({
-        id: messages.id,
-        content: messages.content,
-        authorId: messages.authorId,
-        channelId: messages.channelId,
-        parentMessageId: messages.parentMessageId,
-        recipientId: messages.recipientId,
-        aiAnalysis: messages.aiAnalysis,
-        createdAt: messages.createdAt,
-        updatedAt: messages.updatedAt,
-        author: users,
+        id: messageRevisions.id,
+        messageId: messageRevisions.messageId,
+        content: messageRevisions.content,
+        editedBy: messageRevisions.editedBy,
+        createdAt: messageRevisions.createdAt,
+        editor: profileColumns,
+      })
+      .from(messageRevisions)
+      .innerJoin(users, eq(messageRevisions.editedBy, users.id))
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(desc(messageRevisions.createdAt));
+  }
+
+  // Only stored if the message still has the content that was analyzed, so an analysis
+  // that finishes after an edit can't replace the edited message's
+  async updateMessageAnalysis(id: number, content: string, analysis: unknown): Promise<MessageWithAuthor | undefined> {
+    // Leave updatedAt alone: the analysis is derived data, not an edit of the message
+    const updated = await db
+      .update(messages)
+      .set({ aiAnalysis: analysis })
+      .where(and(eq(messages.id, id), eq(messages.content, content), isNull(messages.deletedAt)))
+      .returning({ id: messages.id });
+    if (!updated.length) return undefined;
+
+    const message = await this.getMessage(id);
+    if (message) {
+      publishEvent({ type: "message_updated", messageId: id, ...messageAudience(message) });
+    }
+    return message;
+  }
+
+  async getMessageThread(parentId: number): Promise<MessageWithReactions[]> {
+    const replies = await db
+      .select({
+        ...messageColumns,
+        author: profileColumns,
       })
       .from(messages)
       .innerJoin(users, eq(messages.authorId, users.id))
-      .where(
-        and(
-          eq(messages.channelId, null),
-          or(
-            and(eq(messages.authorId, userId1), eq(messages.recipientId, userId2)),
-            and(eq(messages.authorId, userId2), eq(messages.recipientId, userId1))
-          )
-        )
-      )
-      .orderBy(asc(messages.createdAt))
+      .where(eq(messages.parentMessageId, parentId))
+      .orderBy(asc(messages.createdAt));
+
+    const [reactionsByMessage, withMedia] = await Promise.all([
+      this.getReactionSummaries(replies.map(reply => reply.id)),
+      this.withMedia(replies),
+    ]);
+    return withMedia.map(reply => ({ ...reply, reactions: reactionsByMessage.get(reply.id) || [] }));
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<MessageAttachment> {
+    const [created] = await db.insert(attachments).values(attachment).returning(attachmentColumns);
+    return created;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.id, id), isNull(attachments.deletedAt)));
+    return attachment || undefined;
+  }
+
+  // Uploads of this user's that haven't been sent with a message yet
+  async getPendingAttachments(uploaderId: number, ids: number[]): Promise<Attachment[]> {
+    if (!ids.length) return [];
+    return await db
+      .select()
+      .from(attachments)
+      .where(and(
+        inArray(attachments.id, ids),
+        eq(attachments.uploaderId, uploaderId),
+        isNull(attachments.messageId),
+        isNull(attachments.deletedAt)
+      ));
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Map<number, MessageAttachment[]>> {
+    const byMessage = new Map<number, MessageAttachment[]>();
+    if (!messageIds.length) return byMessage;
+
+    const rows = await db
+      .select(attachmentColumns)
+      .from(attachments)
+      .where(and(inArray(attachments.messageId, messageIds), isNull(attachments.deletedAt)))
+      .orderBy(asc(attachments.id));
+
+    for (const row of rows) {
+      const list = byMessage.get(row.messageId!) || [];
+      list.push(row);
+      byMessage.set(row.messageId!, list);
+    }
+    return byMessage;
+  }
+
+  // Removing an upload from the composer before sending
+  async discardAttachment(id: number, uploaderId: number): Promise<boolean> {
+    const discarded = await db
+      .update(attachments)
+      .set({ deletedAt: new Date() })
+      .where(and(
+        eq(attachments.id, id),
+        eq(attachments.uploaderId, uploaderId),
+        isNull(attachments.messageId),
+        isNull(attachments.deletedAt)
+      ))
+      .returning({ id: attachments.id });
+    return discarded.length > 0;
+  }
+
+  // Deleted attachments, and uploads that were never sent, whose blobs can go
+  async getExpiredAttachments(unsentBefore: Date, limit: number): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(or(
+        isNotNull(attachments.deletedAt),
+        and(isNull(attachments.messageId), lt(attachments.createdAt, unsentBefore))
+      ))
+      .orderBy(asc(attachments.id))
       .limit(limit);
   }
 
-  async createMessage(message: InsertMessage): Promise<Message & { author: User }> {
-    const [newMessage] = await db
-      .insert(messages)
-      .values(message)
+  async removeAttachments(ids: number[]): Promise<void> {
+    if (!ids.length) return;
+    await db.delete(attachments).where(inArray(attachments.id, ids));
+  }
+
+  async getLinkPreview(url: string): Promise<LinkPreview | undefined> {
+    const [preview] = await db.select().from(linkPreviews).where(eq(linkPreviews.url, url));
+    return preview || undefined;
+  }
+
+  // Replaces whatever was cached for the URL, refreshing fetchedAt
+  async saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview> {
+    const [saved] = await db
+      .insert(linkPreviews)
+      .values(preview)
+      .onConflictDoUpdate({
+        target: linkPreviews.url,
+        set: {
+          status: preview.status,
+          title: preview.title ?? null,
+          description: preview.description ?? null,
+          siteName: preview.siteName ?? null,
+          imageUrl: preview.imageUrl ?? null,
+          fetchedAt: new Date(),
+        },
+      })
       .returning();
+    return saved;
+  }
 
-    const [messageWithAuthor] = await db
+  // Only previews that were fetched successfully
+  async getMessageLinkPreviews(messageIds: number[]): Promise<Map<number, MessageLinkPreview[]>> {
+    const byMessage = new Map<number, MessageLinkPreview[]>();
+    if (!messageIds.length) return byMessage;
+
+    const rows = await db
       .select({
-        id: messages.id,
-        content: messages.content,
-        authorId: messages.authorId,
-        channelId: messages.channelId,
-        parentMessageId: messages.parentMessageId,
-        recipientId: messages.recipientId,
-        aiAnalysis: messages.aiAnalysis,
-        createdAt: messages.createdAt,
-        updatedAt: messages.updatedAt,
-        author: users,
+        messageId: messageLinkPreviews.messageId,
+        id: linkPreviews.id,
+        url: linkPreviews.url,
+        title: linkPreviews.title,
+        description: linkPreviews.description,
+        siteName: linkPreviews.siteName,
+        imageUrl: linkPreviews.imageUrl,
       })
-      .from(messages)
+      .from(messageLinkPreviews)
+      .innerJoin(linkPreviews, eq(messageLinkPreviews.linkPreviewId, linkPreviews.id))
+      .where(and(inArray(messageLinkPreviews.messageId, messageIds), eq(linkPreviews.status, "ready")))
+      .orderBy(asc(messageLinkPreviews.position));
+
+    for (const { messageId, ...preview } of rows) {
+      const list = byMessage.get(messageId) || [];
+      list.push(preview);
+      byMessage.set(messageId, list);
+    }
+    return byMessage;
+  }
+
+  // Returns whether the message's previews changed; clients hear about it through message_updated
+  async setMessageLinkPreviews(messageId: number, linkPreviewIds: number[]): Promise<boolean> {
+    const changed = await db.transaction(async (tx) => {
+      const current = await tx
+        .select({ linkPreviewId: messageLinkPreviews.linkPreviewId })
+        .from(messageLinkPreviews)
+        .where(eq(messageLinkPreviews.messageId, messageId))
+        .orderBy(asc(messageLinkPreviews.position));
+      if (current.map(row => row.linkPreviewId).join() === linkPreviewIds.join()) return false;
+
+      await tx.delete(messageLinkPreviews).where(eq(messageLinkPreviews.messageId, messageId));
+      if (linkPreviewIds.length) {
+        await tx
+          .insert(messageLinkPreviews)
+          .values(linkPreviewIds.map((linkPreviewId, position) => ({ messageId, linkPreviewId, position })));
+      }
+      return true;
+    });
+    if (!changed) return false;
+
+    const message = await this.getMessage(messageId);
+    if (message && !message.deletedAt) {
+      publishEvent({ type: "message_updated", messageId, ...messageAudience(message) });
+    }
+    return true;
+  }
+
+  // Open items with the soonest reminder first, then the most recently saved; completed ones newest first.
+  // Deleted messages and ones the user can no longer see are left out.
+  async getSavedItems(userId: number, options: { completed?: boolean } = {}): Promise<SavedItemWithMessage[]> {
+    const rows = await db
+      .select({
+        ...messageColumns,
+        author: profileColumns,
+        saved: savedItems,
+        channel: { id: channels.id, name: channels.name },
+      })
+      .from(savedItems)
+      .innerJoin(messages, eq(savedItems.messageId, messages.id))
       .innerJoin(users, eq(messages.authorId, users.id))
-      .where(eq(messages.id, newMessage.id));
+      .leftJoin(channels, eq(messages.channelId, channels.id))
+      .where(and(
+        eq(savedItems.userId, userId),
+        options.completed ? isNotNull(savedItems.completedAt) : isNull(savedItems.completedAt),
+        isNull(messages.deletedAt),
+        messageVisibleTo(userId)
+      ))
+      .orderBy(...(options.completed
+        ? [desc(savedItems.completedAt)]
+        : [sql`${savedItems.remindAt} asc nulls last`, desc(savedItems.createdAt)]))
+      .limit(200);
 
-    return messageWithAuthor;
+    const withMedia = await this.withMedia(rows.map(({ saved: _saved, channel: _channel, ...message }) => message));
+    return rows.map((row, index) => ({ ...row.saved, message: withMedia[index], channel: row.channel }));
+  }
+
+  // Saving again reopens the item; a reminder is only replaced when one is given
+  async saveMessage(userId: number, item: SaveItem): Promise<SavedItem> {
+    const reminder = item.remindAt !== undefined ? { remindAt: item.remindAt, remindedAt: null } : {};
+    const [saved] = await db
+      .insert(savedItems)
+      .values({ userId, messageId: item.messageId, remindAt: item.remindAt ?? null })
+      .onConflictDoUpdate({
+        target: [savedItems.userId, savedItems.messageId],
+        set: { ...reminder, completedAt: null },
+      })
+      .returning();
+    publishEvent({ type: "saved_items_updated", userId });
+    return saved;
+  }
+
+  async updateSavedItem(id: number, userId: number, update: UpdateSavedItem): Promise<SavedItem | undefined> {
+    const [updated] = await db
+      .update(savedItems)
+      .set({
+        ...(update.remindAt !== undefined ? { remindAt: update.remindAt, remindedAt: null } : {}),
+        ...(update.completed !== undefined ? { completedAt: update.completed ? new Date() : null } : {}),
+      })
+      .where(and(eq(savedItems.id, id), eq(savedItems.userId, userId)))
+      .returning();
+    if (!updated) return undefined;
+
+    publishEvent({ type: "saved_items_updated", userId });
+    return updated;
+  }
+
+  async deleteSavedItem(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(savedItems)
+      .where(and(eq(savedItems.id, id), eq(savedItems.userId, userId)))
+      .returning({ id: savedItems.id });
+    if (!deleted.length) return false;
+
+    publishEvent({ type: "saved_items_updated", userId });
+    return true;
+  }
+
+  // Marks due reminders as fired and returns them. The update re-checks remindedAt under the
+  // row lock, so when several instances sweep at once each reminder is claimed by only one.
+  async claimDueReminders(now: Date, limit: number): Promise<SavedItem[]> {
+    const due = db
+      .select({ id: savedItems.id })
+      .from(savedItems)
+      .where(and(lte(savedItems.remindAt, now), isNull(savedItems.remindedAt), isNull(savedItems.completedAt)))
+      .orderBy(asc(savedItems.remindAt))
+      .limit(limit);
+    const claimed = await db
+      .update(savedItems)
+      .set({ remindedAt: now })
+      .where(and(inArray(savedItems.id, due), isNull(savedItems.remindedAt), isNull(savedItems.completedAt)))
+      .returning();
+
+    new Set(claimed.map(item => item.userId)).forEach(userId => {
+      publishEvent({ type: "saved_items_updated", userId });
+    });
+    return claimed;
   }
 
-  async getMessageThread(parentId: number): Promise<(Message & { author: User })[]> {
+  // What the user still has waiting to go out, soonest first; failed ones stay until edited or cancelled
+  async getScheduledMessages(authorId: number): Promise<ScheduledMessage[]> {
     return await db
+      .select()
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.authorId, authorId), ne(scheduledMessages.status, "sent")))
+      .orderBy(asc(scheduledMessages.sendAt));
+  }
+
+  async getScheduledMessage(id: number, authorId: number): Promise<ScheduledMessage | undefined> {
+    const [scheduled] = await db
+      .select()
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.id, id), eq(scheduledMessages.authorId, authorId)));
+    return scheduled;
+  }
+
+  async countPendingScheduledMessages(authorId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.authorId, authorId), eq(scheduledMessages.status, "pending")));
+    return result.count;
+  }
+
+  async createScheduledMessage(authorId: number, message: InsertScheduledMessage): Promise<ScheduledMessage> {
+    const [created] = await db
+      .insert(scheduledMessages)
+      .values({ ...message, authorId })
+      .returning();
+    publishEvent({ type: "scheduled_messages_updated", userId: authorId });
+    return created;
+  }
+
+  // Only messages that haven't gone out can change; editing a failed one queues it again
+  async updateScheduledMessage(id: number, authorId: number, update: UpdateScheduledMessage): Promise<ScheduledMessage | undefined> {
+    const [updated] = await db
+      .update(scheduledMessages)
+      .set({ ...update, status: "pending", error: null, updatedAt: new Date() })
+      .where(and(
+        eq(scheduledMessages.id, id),
+        eq(scheduledMessages.authorId, authorId),
+        ne(scheduledMessages.status, "sent")
+      ))
+      .returning();
+    if (!updated) return undefined;
+
+    publishEvent({ type: "scheduled_messages_updated", userId: authorId });
+    return updated;
+  }
+
+  async deleteScheduledMessage(id: number, authorId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(scheduledMessages)
+      .where(and(
+        eq(scheduledMessages.id, id),
+        eq(scheduledMessages.authorId, authorId),
+        ne(scheduledMessages.status, "sent")
+      ))
+      .returning({ id: scheduledMessages.id });
+    if (!deleted.length) return false;
+
+    publishEvent({ type: "scheduled_messages_updated", userId: authorId });
+    return true;
+  }
+
+  // Marks due messages sent before they're posted, so with several instances sweeping
+  // each one is claimed, and posted, by only one of them
+  async claimDueScheduledMessages(now: Date, limit: number): Promise<ScheduledMessage[]> {
+    const due = db
+      .select({ id: scheduledMessages.id })
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.status, "pending"), lte(scheduledMessages.sendAt, now)))
+      .orderBy(asc(scheduledMessages.sendAt))
+      .limit(limit);
+    return await db
+      .update(scheduledMessages)
+      .set({ status: "sent", updatedAt: now })
+      .where(and(inArray(scheduledMessages.id, due), eq(scheduledMessages.status, "pending")))
+      .returning();
+  }
+
+  // Records the message a claimed one became, or why it couldn't be posted
+  async completeScheduledMessage(id: number, result: { messageId: number } | { error: string }): Promise<void> {
+    const [completed] = await db
+      .update(scheduledMessages)
+      .set("messageId" in result
+        ? { messageId: result.messageId, updatedAt: new Date() }
+        : { status: "failed", error: result.error, updatedAt: new Date() })
+      .where(eq(scheduledMessages.id, id))
+      .returning({ authorId: scheduledMessages.authorId });
+    if (completed) {
+      publishEvent({ type: "scheduled_messages_updated", userId: completed.authorId });
+    }
+  }
+
+  // Most recently pinned first
+  async getPinnedMessages(channelId: number): Promise<PinnedMessageWithContext[]> {
+    const pinner = alias(users, "pinner");
+    const rows = await db
       .select({
-        id: messages.id,
-        content: messages.content,
-        authorId: messages.authorId,
-        channelId: messages.channelId,
-        parentMessageId: messages.parentMessageId,
-        recipientId: messages.recipientId,
-        aiAnalysis: messages.aiAnalysis,
-        createdAt: messages.createdAt,
-        updatedAt: messages.updatedAt,
-        author: users,
+        ...messageColumns,
+        author: profileColumns,
+        pin: pinnedMessages,
+        pinner: { id: pinner.id, username: pinner.username, displayName: pinner.displayName, avatar: pinner.avatar },
+      })
+      .from(pinnedMessages)
+      .innerJoin(messages, eq(pinnedMessages.messageId, messages.id))
+      .innerJoin(users, eq(messages.authorId, users.id))
+      .innerJoin(pinner, eq(pinnedMessages.pinnedBy, pinner.id))
+      .where(and(eq(pinnedMessages.channelId, channelId), isNull(messages.deletedAt)))
+      .orderBy(desc(pinnedMessages.createdAt));
+
+    const withMedia = await this.withMedia(rows.map(({ pin: _pin, pinner: _pinner, ...message }) => message));
+    return rows.map((row, index) => ({ ...row.pin, message: withMedia[index], pinner: row.pinner }));
+  }
+
+  // Undefined if the message was already pinned
+  async pinMessage(channelId: number, messageId: number, pinnedBy: number): Promise<PinnedMessage | undefined> {
+    const [pin] = await db
+      .insert(pinnedMessages)
+      .values({ channelId, messageId, pinnedBy })
+      .onConflictDoNothing()
+      .returning();
+    if (pin) {
+      publishEvent({ type: "pins_updated", channelId });
+    }
+    return pin;
+  }
+
+  async unpinMessage(messageId: number): Promise<boolean> {
+    const [unpinned] = await db
+      .delete(pinnedMessages)
+      .where(eq(pinnedMessages.messageId, messageId))
+      .returning({ channelId: pinnedMessages.channelId });
+    if (!unpinned) return false;
+
+    publishEvent({ type: "pins_updated", channelId: unpinned.channelId });
+    return true;
+  }
+
+  async getChannelBookmarks(channelId: number): Promise<ChannelBookmark[]> {
+    return await db
+      .select()
+      .from(channelBookmarks)
+      .where(eq(channelBookmarks.channelId, channelId))
+      .orderBy(asc(channelBookmarks.id));
+  }
+
+  async createChannelBookmark(channelId: number, bookmark: InsertChannelBookmark, createdBy: number): Promise<ChannelBookmark> {
+    const [created] = await db
+      .insert(channelBookmarks)
+      .values({ ...bookmark, channelId, createdBy })
+      .returning();
+    publishEvent({ type: "bookmarks_updated", channelId });
+    return created;
+  }
+
+  async deleteChannelBookmark(channelId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(channelBookmarks)
+      .where(and(eq(channelBookmarks.id, id), eq(channelBookmarks.channelId, channelId)))
+      .returning({ id: channelBookmarks.id });
+    if (!deleted.length) return false;
+
+    publishEvent({ type: "bookmarks_updated", channelId });
+    return true;
+  }
+
+  // Reply counts, latest reply and who took part, for many threads in one query
+  async getThreadSummaries(parentIds: number[]): Promise<Map<number, ThreadSummary>> {
+    const summaries = new Map<number, ThreadSummary>();
+    if (!parentIds.length) return summaries;
+
+    const rows = await db
+      .select({
+        parentId: messages.parentMessageId,
+        replyCount: sql<number>`count(*)::int`,
+        lastReplyAt: sql<Date>`max(${messages.createdAt})`.mapWith(messages.createdAt),
+        participants: sql<ThreadSummary["participants"]>`jsonb_agg(distinct jsonb_build_object(
+          'id', ${users.id}, 'displayName', ${users.displayName}, 'avatar', ${users.avatar}
+        ))`,
       })
       .from(messages)
       .innerJoin(users, eq(messages.authorId, users.id))
-      .where(eq(messages.parentMessageId, parentId))
-      .orderBy(asc(messages.createdAt));
+      .where(inArray(messages.parentMessageId, parentIds))
+      .groupBy(messages.parentMessageId);
+
+    for (const row of rows) {
+      summaries.set(row.parentId as number, {
+        replyCount: row.replyCount,
+        lastReplyAt: row.lastReplyAt,
+        participants: row.participants,
+      });
+    }
+    return summaries;
   }
 
-  async searchMessages(query: string, channelId?: number): Promise<(Message & { author: User; channel?: Channel })[]> {
-    let queryBuilder = db
+  // The root's author and everyone who has replied
+  async getThreadParticipantIds(parentId: number): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ authorId: messages.authorId })
+      .from(messages)
+      .where(or(eq(messages.id, parentId), eq(messages.parentMessageId, parentId)));
+    return rows.map(row => row.authorId);
+  }
+
+  // Replaces a message's mentions, e.g. after an edit. Returns the users who weren't
+  // mentioned before, who are the only ones notified.
+  async setMessageMentions(messageId: number, mentions: MentionTarget[]): Promise<number[]> {
+    const added = await db.transaction(async (tx) => {
+      const previous = await tx
+        .select({ userId: messageMentions.userId })
+        .from(messageMentions)
+        .where(eq(messageMentions.messageId, messageId));
+      const previousIds = new Set(previous.map(mention => mention.userId));
+
+      await tx.delete(messageMentions).where(eq(messageMentions.messageId, messageId));
+      if (mentions.length) {
+        await tx.insert(messageMentions).values(mentions.map(mention => ({ messageId, ...mention })));
+      }
+      return mentions.map(mention => mention.userId).filter(userId => !previousIds.has(userId));
+    });
+
+    if (added.length) {
+      publishEvent({ type: "mentions_created", messageId, userIds: added });
+    }
+    return added;
+  }
+
+  async searchMessages(query: string, options: MessageSearchOptions = {}): Promise<MessageSearchResult[]> {
+    const text = query.trim();
+    // Must match the expression behind messages_content_search_idx
+    const document = sql`to_tsvector('english', ${messages.content})`;
+    const tsQuery = !text
+      ? undefined
+      : options.matchAny
+        ? sql`replace(plainto_tsquery('english', ${text})::text, '&', '|')::tsquery`
+        : sql`websearch_to_tsquery('english', ${text})`;
+
+    const conditions: (SQL | undefined)[] = [isNull(messages.deletedAt)];
+    if (tsQuery) {
+      conditions.push(sql`${document} @@ ${tsQuery}`);
+    }
+    if (options.authorUsername) {
+      conditions.push(eq(users.username, options.authorUsername));
+    }
+    if (options.channelName) {
+      conditions.push(eq(channels.name, options.channelName));
+    }
+    if (options.channelId) {
+      conditions.push(eq(messages.channelId, options.channelId));
+    }
+    if (options.before) {
+      conditions.push(lt(messages.createdAt, options.before));
+    }
+    if (options.after) {
+      conditions.push(gte(messages.createdAt, options.after));
+    }
+    if (options.hasThread) {
+      // Either a reply, or a root message that has at least one reply
+      conditions.push(or(
+        isNotNull(messages.parentMessageId),
+        sql`exists (select 1 from ${messages} as thread_reply where thread_reply.parent_message_id = ${messages.id})`
+      ));
+    }
+    if (options.scope === "dm") {
+      conditions.push(isNull(messages.channelId));
+    } else if (options.scope === "channel") {
+      conditions.push(isNotNull(messages.channelId));
+    }
+    if (options.ids) {
+      if (!options.ids.length) return [];
+      conditions.push(inArray(messages.id, options.ids));
+    }
+    if (options.viewerId) {
+      conditions.push(messageVisibleTo(options.viewerId));
+    }
+
+    const rank = (tsQuery ? sql`ts_rank(${document}, ${tsQuery})` : sql`0`).mapWith(Number);
+    const snippet = tsQuery
+      ? sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, 'StartSel=**, StopSel=**, MaxWords=35, MinWords=15, MaxFragments=2')`
+      : sql<string>`${messages.content}`;
+
+    const results = await db
       .select({
-        id: messages.id,
-        content: messages.content,
-        authorId: messages.authorId,
-        channelId: messages.channelId,
-        parentMessageId: messages.parentMessageId,
-        recipientId: messages.recipientId,
-        aiAnalysis: messages.aiAnalysis,
-        createdAt: messages.createdAt,
-        updatedAt: messages.updatedAt,
-        author: users,
+        ...messageColumns,
+        author: profileColumns,
         channel: channels,
+        rank,
+        snippet,
       })
       .from(messages)
       .innerJoin(users, eq(messages.authorId, users.id))
-      .leftJoin(channels, eq(messages.channelId, channels.id));
-
-    if (channelId) {
-      queryBuilder = queryBuilder.where(
-        and(
-          eq(messages.channelId, channelId),
-          // Note: In a real app, you'd use proper full-text search
-          // This is a simple LIKE search for demo purposes
-        )
-      );
+      .leftJoin(channels, eq(messages.channelId, channels.id))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(messages.createdAt))
+      .limit(options.limit ?? 20);
+
+    return results as MessageSearchResult[];
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const added = await db
+      .insert(reactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing()
+      .returning({ id: reactions.id });
+    if (added.length) {
+      await this.publishReactionUpdate(messageId);
+    }
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const removed = await db
+      .delete(reactions)
+      .where(and(
+        eq(reactions.messageId, messageId),
+        eq(reactions.userId, userId),
+        eq(reactions.emoji, emoji)
+      ))
+      .returning({ id: reactions.id });
+    if (removed.length) {
+      await this.publishReactionUpdate(messageId);
     }
+  }
 
-    return await queryBuilder.orderBy(desc(messages.createdAt)).limit(20);
+  private async publishReactionUpdate(messageId: number) {
+    const [message] = await db
+      .select({ channelId: messages.channelId, authorId: messages.authorId, recipientId: messages.recipientId })
+      .from(messages)
+      .where(eq(messages.id, messageId));
+    if (message) {
+      publishEvent({ type: "reaction_updated", messageId, ...messageAudience(message) });
+    }
+  }
+
+  async getReactionSummaries(messageIds: number[]): Promise<Map<number, ReactionSummary[]>> {
+    const summaries = new Map<number, ReactionSummary[]>();
+    if (!messageIds.length) return summaries;
+
+    const rows = await db
+      .select({
+        messageId: reactions.messageId,
+        emoji: reactions.emoji,
+        count: sql<number>`count(*)`.mapWith(Number),
+        userIds: sql<number[]>`array_agg(${reactions.userId} order by ${reactions.createdAt})`,
+      })
+      .from(reactions)
+      .where(inArray(reactions.messageId, messageIds))
+      .groupBy(reactions.messageId, reactions.emoji)
+      // Emoji keep the order in which they were first added to the message
+      .orderBy(sql`min(${reactions.createdAt})`);
+
+    for (const row of rows) {
+      const list = summaries.get(row.messageId) || [];
+      list.push({ emoji: row.emoji, count: row.count, userIds: row.userIds });
+      summaries.set(row.messageId, list);
+    }
+    return summaries;
   }
 
   async createAiSuggestion(suggestion: InsertAiSuggestion): Promise<AiSuggestion> {
@@ -321,10 +1519,11 @@ export class DatabaseStorage implements IStorage {
       .insert(meetingNotes)
       .values(notes)
       .returning();
+    publishEvent({ type: "meeting_notes_created", notesId: newNotes.id, channelId: newNotes.channelId });
     return newNotes;
   }
 
-  async getMeetingNotes(channelId: number): Promise<(MeetingNotes & { generator: User })[]> {
+  async getMeetingNotes(channelId: number): Promise<(MeetingNotes & { generator: UserProfile })[]> {
     return await db
       .select({
         id: meetingNotes.id,
@@ -335,7 +1534,7 @@ export class DatabaseStorage implements IStorage {
         endMessageId: meetingNotes.endMessageId,
         generatedBy: meetingNotes.generatedBy,
         createdAt: meetingNotes.createdAt,
-        generator: users,
+        generator: profileColumns,
       })
       .from(meetingNotes)
       .innerJoin(users, eq(meetingNotes.generatedBy, users.id))
@@ -343,25 +1542,218 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(meetingNotes.createdAt));
   }
 
-  async getDirectMessageUsers(userId: number): Promise<User[]> {
+  async upsertEmbedding(embedding: InsertEmbedding): Promise<void> {
+    await db
+      .insert(embeddings)
+      .values(embedding)
+      .onConflictDoUpdate({
+        target: [embeddings.sourceType, embeddings.sourceId, embeddings.model],
+        set: {
+          embedding: embedding.embedding,
+          contentHash: embedding.contentHash,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getMessagesMissingEmbeddings(model: string, limit: number): Promise<{ id: number; content: string }[]> {
+    // Missing entirely, or embedded from content that has since been edited. Messages with
+    // only attachments have no text to embed, and embedders reject empty input.
+    return await db
+      .select({ id: messages.id, content: messages.content })
+      .from(messages)
+      .leftJoin(embeddings, and(
+        eq(embeddings.sourceType, "message"),
+        eq(embeddings.sourceId, messages.id),
+        eq(embeddings.model, model)
+      ))
+      .where(and(
+        isNull(messages.deletedAt),
+        sql`${messages.content} ~ '\\S'`,
+        or(isNull(embeddings.id), ne(embeddings.contentHash, sql`md5(${messages.content})`))
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(limit);
+  }
+
+  async getMeetingNotesMissingEmbeddings(model: string, limit: number): Promise<MeetingNotes[]> {
+    const rows = await db
+      .select({ notes: meetingNotes })
+      .from(meetingNotes)
+      .leftJoin(embeddings, and(
+        eq(embeddings.sourceType, "meeting_notes"),
+        eq(embeddings.sourceId, meetingNotes.id),
+        eq(embeddings.model, model)
+      ))
+      .where(isNull(embeddings.id))
+      .orderBy(desc(meetingNotes.createdAt))
+      .limit(limit);
+    return rows.map(row => row.notes);
+  }
+
+  async getMessageEmbeddings(model: string, viewerId: number, limit: number): Promise<{ sourceId: number; embedding: number[] }[]> {
+    return await db
+      .select({ sourceId: embeddings.sourceId, embedding: embeddings.embedding })
+      .from(embeddings)
+      .innerJoin(messages, eq(embeddings.sourceId, messages.id))
+      .where(and(
+        eq(embeddings.sourceType, "message"),
+        eq(embeddings.model, model),
+        isNull(messages.deletedAt),
+        messageVisibleTo(viewerId)
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(limit);
+  }
+
+  async getMeetingNotesEmbeddings(model: string, viewerId: number, limit: number): Promise<{ sourceId: number; embedding: number[] }[]> {
+    return await db
+      .select({ sourceId: embeddings.sourceId, embedding: embeddings.embedding })
+      .from(embeddings)
+      .innerJoin(meetingNotes, eq(embeddings.sourceId, meetingNotes.id))
+      .where(and(
+        eq(embeddings.sourceType, "meeting_notes"),
+        eq(embeddings.model, model),
+        inArray(meetingNotes.channelId, visibleChannelIds(viewerId))
+      ))
+      .orderBy(desc(embeddings.updatedAt))
+      .limit(limit);
+  }
+
+  async getMeetingNotesByIds(ids: number[]): Promise<(MeetingNotes & { generator: UserProfile; channel: Channel | null })[]> {
+    if (!ids.length) return [];
+    return await db
+      .select({
+        id: meetingNotes.id,
+        title: meetingNotes.title,
+        content: meetingNotes.content,
+        channelId: meetingNotes.channelId,
+        startMessageId: meetingNotes.startMessageId,
+        endMessageId: meetingNotes.endMessageId,
+        generatedBy: meetingNotes.generatedBy,
+        createdAt: meetingNotes.createdAt,
+        generator: profileColumns,
+        channel: channels,
+      })
+      .from(meetingNotes)
+      .innerJoin(users, eq(meetingNotes.generatedBy, users.id))
+      .leftJoin(channels, eq(meetingNotes.channelId, channels.id))
+      .where(inArray(meetingNotes.id, ids));
+  }
+
+  async getDirectMessageUsers(userId: number): Promise<DirectMessageUser[]> {
+    // Every DM from the other user counts, thread replies included, since DMs have a single timeline
+    const unread = and(
+      isNull(messages.channelId),
+      eq(messages.authorId, users.id),
+      eq(messages.recipientId, userId),
+      gt(messages.id, sql`coalesce(${readStates.lastReadMessageId}, 0)`),
+      isNull(messages.deletedAt)
+    );
+
     // Get all users except the current user for DM conversations
     const allUsers = await db
       .select({
-        id: users.id,
-        username: users.username,
-        password: users.password,
-        email: users.email,
-        displayName: users.displayName,
-        avatar: users.avatar,
-        status: users.status,
-        title: users.title,
-        createdAt: users.createdAt,
+        ...profileColumns,
+        lastReadMessageId: readStates.lastReadMessageId,
+        unreadCount: countMessages(unread),
+        // A DM is addressed to the user, so every unread one is badged like a mention
+        mentionCount: countMessages(unread),
+        // How far they've read the conversation, for read receipts on our messages
+        theirLastReadMessageId: sql<number | null>`(
+          select their_read.last_read_message_id from ${readStates} as their_read
+          where their_read.user_id = ${users.id} and their_read.other_user_id = ${userId}
+        )`,
       })
       .from(users)
+      .leftJoin(readStates, and(eq(readStates.otherUserId, users.id), eq(readStates.userId, userId)))
       .where(not(eq(users.id, userId)));
 
     return allUsers;
   }
+
+  // A mention is the most specific reason to notify someone about a message, so it replaces
+  // any other notification they already have for it, and a reminder they set always does;
+  // anything else never overwrites one.
+  // Returns the notifications that were created or replaced.
+  async createNotifications(newNotifications: InsertNotification[]): Promise<Notification[]> {
+    if (!newNotifications.length) return [];
+    const created = await db
+      .insert(notifications)
+      .values(newNotifications)
+      .onConflictDoUpdate({
+        target: [notifications.userId, notifications.messageId],
+        set: {
+          type: sql`excluded.type`,
+          actorId: sql`excluded.actor_id`,
+          preview: sql`excluded.preview`,
+          readAt: null,
+          createdAt: sql`now()`,
+        },
+        setWhere: sql`excluded.type = 'reminder' or (excluded.type = 'mention' and ${notifications.type} <> 'mention')`,
+      })
+      .returning();
+
+    created.forEach(notification => {
+      publishEvent({ type: "notification_created", notificationId: notification.id, userId: notification.userId });
+    });
+    return created;
+  }
+
+  private notificationsWithContext() {
+    return db
+      .select({
+        ...getTableColumns(notifications),
+        actor: { id: users.id, displayName: users.displayName, avatar: users.avatar },
+        channel: { id: channels.id, name: channels.name },
+      })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .leftJoin(channels, eq(notifications.channelId, channels.id));
+  }
+
+  async getNotification(id: number): Promise<NotificationWithContext | undefined> {
+    const [notification] = await this.notificationsWithContext().where(eq(notifications.id, id));
+    return notification || undefined;
+  }
+
+  async getNotifications(userId: number, options: NotificationListOptions = {}): Promise<NotificationWithContext[]> {
+    return await this.notificationsWithContext()
+      .where(and(
+        eq(notifications.userId, userId),
+        options.before !== undefined ? lt(notifications.id, options.before) : undefined,
+        options.unreadOnly ? isNull(notifications.readAt) : undefined
+      ))
+      .orderBy(desc(notifications.id))
+      .limit(Math.min(Math.max(options.limit ?? 30, 1), 100));
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  // Marks the given notifications (or all of them) read. Returns how many changed.
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && !ids.length) return 0;
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning({ id: notifications.id });
+
+    if (updated.length) {
+      publishEvent({ type: "notifications_read", userId });
+    }
+    return updated.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
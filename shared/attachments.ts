@@ -0,0 +1,37 @@
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Images browsers can show inline. SVG is left out on purpose, since it can carry script.
+export const INLINE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  ...INLINE_IMAGE_TYPES,
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/json",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "audio/mpeg",
+  "video/mp4",
+];
+
+export function isAllowedAttachmentType(contentType: string) {
+  return ALLOWED_ATTACHMENT_TYPES.includes(contentType);
+}
+
+export function isInlineImage(contentType: string) {
+  return INLINE_IMAGE_TYPES.includes(contentType);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
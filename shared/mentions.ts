@@ -0,0 +1,11 @@
+// An @ that starts a word, followed by a username; trailing punctuation isn't part of the name.
+// Shared so the composer and the message view split text exactly like the server parses it.
+export const MENTION_PATTERN = /(?<![\w@.])@([\w.-]*\w)/g;
+
+// Mentions that address a group rather than one person
+export const groupMentions = ["channel", "here"] as const;
+export type GroupMention = (typeof groupMentions)[number];
+
+export function isGroupMention(name: string): name is GroupMention {
+  return (groupMentions as readonly string[]).includes(name.toLowerCase());
+}
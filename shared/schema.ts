@@ -1,8 +1,11 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Statuses a user can pick for themselves; "offline" only ever comes from having no connections
+export const manualStatuses = ["available", "away", "busy"] as const;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -10,8 +13,17 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   displayName: text("display_name").notNull(),
   avatar: text("avatar"),
-  status: text("status").notNull().default("available"), // available, away, busy, offline
+  status: text("status").notNull().default("available"), // available, away, busy, offline; kept up to date from live connections
   title: text("title"),
+  // Chosen by the user; replaces the automatic available/away while they're online
+  statusOverride: text("status_override", { enum: manualStatuses }),
+  statusText: text("status_text"),
+  statusEmoji: text("status_emoji"),
+  // When the override and custom status clear themselves
+  statusExpiresAt: timestamp("status_expires_at"),
+  // IANA name, e.g. "Europe/Berlin"; profiles show the user's local time from it
+  timezone: text("timezone"),
+  pronouns: text("pronouns"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -22,12 +34,21 @@ export const channels = pgTable("channels", {
   isPrivate: boolean("is_private").notNull().default(false),
   createdBy: integer("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  archivedAt: timestamp("archived_at"), // archived channels stay readable but take no new messages
 });
 
+export const channelRoles = ["owner", "admin", "member", "guest"] as const;
+
+// Which of a channel's notifications reach a member: all of them, only those addressed to them
+// (mentions and action items), or none
+export const notificationLevels = ["all", "mentions", "mute"] as const;
+
 export const channelMembers = pgTable("channel_members", {
   id: serial("id").primaryKey(),
   channelId: integer("channel_id").notNull().references(() => channels.id),
   userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role", { enum: channelRoles }).notNull().default("member"),
+  notificationLevel: text("notification_level", { enum: notificationLevels }).notNull().default("all"),
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
 });
 
@@ -38,11 +59,95 @@ export const messages = pgTable("messages", {
   channelId: integer("channel_id").references(() => channels.id),
   parentMessageId: integer("parent_message_id").references(() => messages.id),
   recipientId: integer("recipient_id").references(() => users.id), // for DMs
+  alsoSentToChannel: boolean("also_sent_to_channel").notNull().default(false), // thread reply that also shows in the timeline
   aiAnalysis: jsonb("ai_analysis"), // stores tone, impact, clarity analysis
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // bumped on edit
+  deletedAt: timestamp("deleted_at"), // soft delete; the row stays so threads keep their root
+}, (table) => [
+  // Backs full-text search; queries must use the same to_tsvector expression to hit it
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+// Previous versions of a message, written whenever it is edited or deleted
+export const messageRevisions = pgTable("message_revisions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  content: text("content").notNull(),
+  editedBy: integer("edited_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const reactions = pgTable("reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("reactions_message_user_emoji_idx").on(table.messageId, table.userId, table.emoji),
+]);
+
+// How a user came to be mentioned: by name, or through @channel / @here
+export const mentionKinds = ["user", "channel", "here"] as const;
+
+// One row per user a message notifies; @channel and @here are expanded to the members they reached
+export const messageMentions = pgTable("message_mentions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  kind: text("kind", { enum: mentionKinds }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("message_mentions_message_user_idx").on(table.messageId, table.userId),
+  index("message_mentions_user_idx").on(table.userId),
+]);
+
+// Files uploaded from the composer. They belong to the uploader until a message is
+// sent with them; deleting the message or its channel marks them for the blob janitor.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id),
+  uploaderId: integer("uploader_id").notNull().references(() => users.id),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  // Where the blob store keeps the file
+  storageKey: text("storage_key").notNull().unique(),
+  // Pixel size of images, so previews can be laid out before they load
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("attachments_message_idx").on(table.messageId),
+]);
+
+export const linkPreviewStatuses = ["ready", "failed"] as const;
+
+// Metadata fetched for a URL, shared by every message that links to it. Failed
+// fetches are cached too, so a dead link isn't fetched again for each message.
+export const linkPreviews = pgTable("link_previews", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull().unique(),
+  status: text("status", { enum: linkPreviewStatuses }).notNull(),
+  title: text("title"),
+  description: text("description"),
+  siteName: text("site_name"),
+  imageUrl: text("image_url"),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
 });
 
+// The previews shown under a message, in the order their links appear in it
+export const messageLinkPreviews = pgTable("message_link_previews", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  linkPreviewId: integer("link_preview_id").notNull().references(() => linkPreviews.id),
+  position: integer("position").notNull(),
+}, (table) => [
+  uniqueIndex("message_link_previews_message_preview_idx").on(table.messageId, table.linkPreviewId),
+]);
+
 export const aiSuggestions = pgTable("ai_suggestions", {
   id: serial("id").primaryKey(),
   messageId: integer("message_id").notNull().references(() => messages.id),
@@ -63,6 +168,132 @@ export const meetingNotes = pgTable("meeting_notes", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const embeddings = pgTable("embeddings", {
+  id: serial("id").primaryKey(),
+  sourceType: text("source_type").notNull(), // message, meeting_notes
+  sourceId: integer("source_id").notNull(),
+  model: text("model").notNull(), // vectors from different embedders are never compared
+  embedding: real("embedding").array().notNull(),
+  contentHash: text("content_hash").notNull(), // md5 of the embedded text, used to detect edits
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("embeddings_source_model_idx").on(table.sourceType, table.sourceId, table.model),
+]);
+
+// How far each user has read each conversation: a channel, or a DM with otherUserId
+export const readStates = pgTable("read_states", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  channelId: integer("channel_id").references(() => channels.id),
+  otherUserId: integer("other_user_id").references(() => users.id),
+  lastReadMessageId: integer("last_read_message_id").notNull(), // everything up to this id has been seen
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("read_states_user_channel_idx").on(table.userId, table.channelId),
+  uniqueIndex("read_states_user_dm_idx").on(table.userId, table.otherUserId),
+]);
+
+export const notificationTypes = ["mention", "direct_message", "thread_reply", "action_item", "meeting_notes", "reminder"] as const;
+
+// A user's notification inbox. Each row points at what it's about and keeps a short preview,
+// so the inbox still reads sensibly if the message is later edited or deleted.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type", { enum: notificationTypes }).notNull(),
+  actorId: integer("actor_id").references(() => users.id),
+  channelId: integer("channel_id").references(() => channels.id),
+  messageId: integer("message_id").references(() => messages.id),
+  meetingNotesId: integer("meeting_notes_id").references(() => meetingNotes.id),
+  preview: text("preview").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // At most one notification per user per message
+  uniqueIndex("notifications_user_message_idx").on(table.userId, table.messageId),
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// Messages a user saved for later, optionally with a reminder. remindedAt is set once the
+// reminder has fired; snoozing sets a new remindAt and clears it.
+export const savedItems = pgTable("saved_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  remindAt: timestamp("remind_at"),
+  remindedAt: timestamp("reminded_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("saved_items_user_message_idx").on(table.userId, table.messageId),
+  index("saved_items_remind_at_idx").on(table.remindAt),
+]);
+
+export const scheduledMessageStatuses = ["pending", "sent", "failed"] as const;
+
+// Messages a user wrote to be sent later. The scheduler posts a pending one once sendAt
+// passes and records the message it became; if the user can no longer post there it's
+// marked failed with the reason instead, and stays listed so they can reschedule it.
+export const scheduledMessages = pgTable("scheduled_messages", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  channelId: integer("channel_id").references(() => channels.id),
+  recipientId: integer("recipient_id").references(() => users.id),
+  parentMessageId: integer("parent_message_id").references(() => messages.id),
+  alsoSentToChannel: boolean("also_sent_to_channel").notNull().default(false),
+  content: text("content").notNull(),
+  sendAt: timestamp("send_at").notNull(),
+  status: text("status", { enum: scheduledMessageStatuses }).notNull().default("pending"),
+  messageId: integer("message_id").references(() => messages.id),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("scheduled_messages_status_send_at_idx").on(table.status, table.sendAt),
+  index("scheduled_messages_author_idx").on(table.authorId),
+]);
+
+export const MAX_SCHEDULED_MESSAGES_PER_USER = 100;
+
+export const MAX_PINS_PER_CHANNEL = 50;
+export const MAX_BOOKMARKS_PER_CHANNEL = 20;
+
+// Messages kept at hand in a channel's pins drawer, so they don't scroll away
+export const pinnedMessages = pgTable("pinned_messages", {
+  id: serial("id").primaryKey(),
+  channelId: integer("channel_id").notNull().references(() => channels.id),
+  messageId: integer("message_id").notNull().references(() => messages.id).unique(),
+  pinnedBy: integer("pinned_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("pinned_messages_channel_idx").on(table.channelId),
+]);
+
+// Links shown in a channel's header, in the order they were added
+export const channelBookmarks = pgTable("channel_bookmarks", {
+  id: serial("id").primaryKey(),
+  channelId: integer("channel_id").notNull().references(() => channels.id),
+  title: text("title").notNull(),
+  url: text("url").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("channel_bookmarks_channel_idx").on(table.channelId),
+]);
+
+// One row per open WebSocket, so presence holds across server instances. Each instance keeps
+// lastSeenAt fresh on its own rows; rows that stop being refreshed belong to an instance that died.
+export const userConnections = pgTable("user_connections", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  instanceId: text("instance_id").notNull(),
+  idle: boolean("idle").notNull().default(false),
+  connectedAt: timestamp("connected_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [
+  index("user_connections_user_idx").on(table.userId),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdChannels: many(channels),
@@ -90,6 +321,18 @@ export const messagesRelations = relations(messages, ({ one, many }) => ({
   parentMessage: one(messages, { fields: [messages.parentMessageId], references: [messages.id] }),
   replies: many(messages),
   aiSuggestions: many(aiSuggestions),
+  revisions: many(messageRevisions),
+  reactions: many(reactions),
+}));
+
+export const reactionsRelations = relations(reactions, ({ one }) => ({
+  message: one(messages, { fields: [reactions.messageId], references: [messages.id] }),
+  user: one(users, { fields: [reactions.userId], references: [users.id] }),
+}));
+
+export const messageRevisionsRelations = relations(messageRevisions, ({ one }) => ({
+  message: one(messages, { fields: [messageRevisions.messageId], references: [messages.id] }),
+  editor: one(users, { fields: [messageRevisions.editedBy], references: [users.id] }),
 }));
 
 export const aiSuggestionsRelations = relations(aiSuggestions, ({ one }) => ({
@@ -107,17 +350,107 @@ export const meetingNotesRelations = relations(meetingNotes, ({ one }) => ({
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+  statusOverride: true,
+  statusText: true,
+  statusEmoji: true,
+  statusExpiresAt: true,
+});
+
+// A user's own status; empty text clears a field, and an expiry must be in the future
+const optionalText = (max: number) =>
+  z.string().trim().max(max).transform(value => value || null).nullable().optional();
+
+export const updateStatusSchema = z.object({
+  statusOverride: z.enum(manualStatuses).nullable().optional(),
+  statusText: optionalText(100),
+  statusEmoji: optionalText(16),
+  statusExpiresAt: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), "Expiry must be in the future")
+    .nullable()
+    .optional(),
+});
+
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The profile fields a user edits themselves; the avatar has its own upload route
+export const updateProfileSchema = z.object({
+  displayName: z.string().trim().min(1, "Display name is required").max(80).optional(),
+  email: z.string().trim().email("Invalid email").optional(),
+  title: optionalText(100),
+  pronouns: optionalText(40),
+  timezone: z.string().trim()
+    .refine(value => !value || isTimeZone(value), "Unknown timezone")
+    .transform(value => value || null)
+    .nullable()
+    .optional(),
+});
+
+const futureDate = (message: string) => z.coerce.date().refine(date => date.getTime() > Date.now(), message);
+
+// Saving a message that's already saved updates its reminder and reopens it
+export const saveItemSchema = z.object({
+  messageId: z.number().int().positive(),
+  remindAt: futureDate("Reminder must be in the future").nullable().optional(),
+});
+
+// Snoozing is setting a new remindAt
+export const updateSavedItemSchema = z.object({
+  remindAt: futureDate("Reminder must be in the future").nullable().optional(),
+  completed: z.boolean().optional(),
+});
+
+// Scheduled messages are text only; uploads that aren't sent soon are cleaned up
+export const insertScheduledMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message content is required"),
+  channelId: z.number().int().positive().nullable().optional(),
+  recipientId: z.number().int().positive().nullable().optional(),
+  parentMessageId: z.number().int().positive().nullable().optional(),
+  alsoSentToChannel: z.boolean().optional(),
+  sendAt: futureDate("Send time must be in the future"),
+}).refine(message => !!message.channelId !== !!message.recipientId, "Send to either a channel or a user");
+
+// Editing a failed message puts it back in the queue
+export const updateScheduledMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message content is required").optional(),
+  sendAt: futureDate("Send time must be in the future").optional(),
+});
+
+// Bookmarks open in a new tab from the header, so only web links are accepted
+export const insertChannelBookmarkSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(80),
+  url: z.string().trim().url("Invalid URL").max(2000)
+    .refine(value => /^https?:\/\//i.test(value), "Bookmarks must be http or https links"),
 });
 
 export const insertChannelSchema = createInsertSchema(channels).omit({
   id: true,
   createdAt: true,
+  archivedAt: true,
 });
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  aiAnalysis: true,
+});
+
+export const insertMessageRevisionSchema = createInsertSchema(messageRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReactionSchema = createInsertSchema(reactions).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertAiSuggestionSchema = createInsertSchema(aiSuggestions).omit({
@@ -130,9 +463,34 @@ export const insertMeetingNotesSchema = createInsertSchema(meetingNotes).omit({
   createdAt: true,
 });
 
+export const insertEmbeddingSchema = createInsertSchema(embeddings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  messageId: true,
+  createdAt: true,
+  deletedAt: true,
+});
+
+export const insertLinkPreviewSchema = createInsertSchema(linkPreviews).omit({
+  id: true,
+  fetchedAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateStatus = z.infer<typeof updateStatusSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 
 export type Channel = typeof channels.$inferSelect;
 export type InsertChannel = z.infer<typeof insertChannelSchema>;
@@ -140,6 +498,27 @@ export type InsertChannel = z.infer<typeof insertChannelSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type InsertMessageRevision = z.infer<typeof insertMessageRevisionSchema>;
+
+export type Reaction = typeof reactions.$inferSelect;
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+
+// Reactions as returned with messages: one entry per emoji
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: number[];
+}
+
+// Thread activity as returned with root messages in a channel timeline; the replies
+// themselves are loaded separately when the thread is opened
+export interface ThreadSummary {
+  replyCount: number;
+  lastReplyAt: Date;
+  participants: Pick<User, "id" | "displayName" | "avatar">[];
+}
+
 export type AiSuggestion = typeof aiSuggestions.$inferSelect;
 export type InsertAiSuggestion = z.infer<typeof insertAiSuggestionSchema>;
 
@@ -147,3 +526,91 @@ export type MeetingNotes = typeof meetingNotes.$inferSelect;
 export type InsertMeetingNotes = z.infer<typeof insertMeetingNotesSchema>;
 
 export type ChannelMember = typeof channelMembers.$inferSelect;
+export type ChannelRole = (typeof channelRoles)[number];
+
+export const channelPermissions = [
+  "view",
+  "post_message",
+  "react",
+  "edit_any_message",
+  "delete_any_message",
+  "pin_message",
+  "manage_bookmarks",
+  "invite_member",
+  "remove_member",
+  "change_role",
+  "generate_notes",
+  "update_channel",
+  "archive_channel",
+  "delete_channel",
+] as const;
+export type ChannelPermission = (typeof channelPermissions)[number];
+
+// A channel as seen by one user: their role (null if not a member) and what it lets them do
+export type ChannelWithAccess = Channel & {
+  role: ChannelRole | null;
+  permissions: ChannelPermission[];
+  // Null when the user hasn't joined the channel
+  notificationLevel: NotificationLevel | null;
+};
+
+export type ManualStatus = (typeof manualStatuses)[number];
+
+// A user as anyone else may see them
+export type UserProfile = Omit<User, "password">;
+
+// What everyone else sees of a user's presence
+export type UserPresence = Pick<User, "id" | "status" | "statusText" | "statusEmoji" | "statusExpiresAt">;
+
+export type ReadState = typeof readStates.$inferSelect;
+export type MentionKind = (typeof mentionKinds)[number];
+export type MessageMention = typeof messageMentions.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+
+// An attachment as clients see it; where it's stored stays on the server
+export type MessageAttachment = Omit<Attachment, "storageKey" | "deletedAt">;
+export type LinkPreviewStatus = (typeof linkPreviewStatuses)[number];
+export type LinkPreview = typeof linkPreviews.$inferSelect;
+export type InsertLinkPreview = z.infer<typeof insertLinkPreviewSchema>;
+// What a message carries of a preview; only ready ones are attached
+export type MessageLinkPreview = Pick<LinkPreview, "id" | "url" | "title" | "description" | "siteName" | "imageUrl">;
+export type SavedItem = typeof savedItems.$inferSelect;
+export type SaveItem = z.infer<typeof saveItemSchema>;
+export type UpdateSavedItem = z.infer<typeof updateSavedItemSchema>;
+export type ScheduledMessage = typeof scheduledMessages.$inferSelect;
+export type InsertScheduledMessage = z.infer<typeof insertScheduledMessageSchema>;
+export type UpdateScheduledMessage = z.infer<typeof updateScheduledMessageSchema>;
+export type PinnedMessage = typeof pinnedMessages.$inferSelect;
+export type ChannelBookmark = typeof channelBookmarks.$inferSelect;
+export type InsertChannelBookmark = z.infer<typeof insertChannelBookmarkSchema>;
+export type NotificationLevel = (typeof notificationLevels)[number];
+export type NotificationType = (typeof notificationTypes)[number];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+// A notification as shown in the inbox
+export type NotificationWithContext = Notification & {
+  actor: Pick<User, "id" | "displayName" | "avatar"> | null;
+  channel: Pick<Channel, "id" | "name"> | null;
+};
+
+// Unread activity in a conversation since the user's last-read pointer
+export interface UnreadCounts {
+  lastReadMessageId: number | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+export type ChannelWithUnread = Channel & UnreadCounts;
+
+// A channel in the channel list; only joined channels track unread messages
+export type ChannelListItem = ChannelWithUnread & { isMember: boolean };
+
+// A DM partner, with how far they have read the conversation (for read receipts)
+export type DirectMessageUser = UserProfile & UnreadCounts & {
+  theirLastReadMessageId: number | null;
+};
+
+export type Embedding = typeof embeddings.$inferSelect;
+export type InsertEmbedding = z.infer<typeof insertEmbeddingSchema>;